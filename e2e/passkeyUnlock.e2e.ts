@@ -0,0 +1,163 @@
+import { CDPSession, expect, Page, test } from "@playwright/test";
+
+// Drives src/lib/passkeyUnlock.ts against Chromium's virtual authenticator (CDP WebAuthn domain),
+// which evaluates the PRF extension like a platform passkey. passkey_wraps is served from memory
+// so the round trip needs no Supabase project: register, store the wrap, unlock from it
+
+type PasskeyModule = typeof import("../src/lib/passkeyUnlock");
+type EncryptionModule = typeof import("../src/lib/encryption");
+
+declare global {
+  interface Window {
+    passkeys: PasskeyModule;
+    EncryptionService: EncryptionModule["EncryptionService"];
+  }
+}
+
+interface PasskeyWrapRow {
+  user_id: string;
+  credential_id: string;
+  prf_salt: string;
+  wrapped_data_key: string;
+  data_key_id: string;
+  label: string;
+}
+
+const USER_ID = "6a0f8f43-2b1e-4c55-9d3a-7e8b1c2d3f40";
+const EMAIL = "passkey@example.com";
+
+interface VirtualAuthenticator {
+  cdp: CDPSession;
+  authenticatorId: string;
+}
+
+async function addVirtualAuthenticator(page: Page, hasPrf: boolean): Promise<VirtualAuthenticator> {
+  const cdp = await page.context().newCDPSession(page);
+  await cdp.send("WebAuthn.enable");
+  const { authenticatorId } = await cdp.send("WebAuthn.addVirtualAuthenticator", {
+    options: {
+      protocol: "ctap2",
+      ctap2Version: "ctap2_1",
+      transport: "internal",
+      hasResidentKey: true,
+      hasUserVerification: true,
+      isUserVerified: true,
+      hasPrf,
+      automaticPresenceSimulation: true,
+    },
+  });
+  return { cdp, authenticatorId };
+}
+
+// Answers the PostgREST calls the module makes; returns the table so tests can inspect it
+async function servePasskeyWraps(page: Page): Promise<PasskeyWrapRow[]> {
+  const rows: PasskeyWrapRow[] = [];
+  await page.route("**/rest/v1/passkey_wraps*", async (route) => {
+    const request = route.request();
+    const headers = {
+      "access-control-allow-origin": "*",
+      "access-control-allow-methods": "GET, POST, OPTIONS",
+      "access-control-allow-headers": request.headers()["access-control-request-headers"] ?? "*",
+    };
+
+    if (request.method() === "OPTIONS") {
+      return route.fulfill({ status: 204, headers });
+    }
+    if (request.method() === "POST") {
+      const body = request.postDataJSON();
+      rows.push(...(Array.isArray(body) ? body : [body]));
+      return route.fulfill({ status: 201, headers, body: "" });
+    }
+
+    const userId = new URL(request.url()).searchParams.get("user_id")?.replace(/^eq\./, "");
+    return route.fulfill({ headers, json: rows.filter((row) => row.user_id === userId) });
+  });
+  return rows;
+}
+
+// The Vite dev server transforms the modules, so the test runs the same code the app does
+async function loadPasskeyModule(page: Page): Promise<void> {
+  await page.goto("/");
+  await page.addScriptTag({
+    type: "module",
+    content: [
+      'import * as passkeys from "/src/lib/passkeyUnlock.ts";',
+      'import { EncryptionService } from "/src/lib/encryption.ts";',
+      "Object.assign(window, { passkeys, EncryptionService });",
+    ].join("\n"),
+  });
+  await page.waitForFunction(() => "passkeys" in window && "EncryptionService" in window);
+}
+
+const toBase64Url = (base64: string) => base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+test.describe("passkey unlock", () => {
+  test("registers a PRF passkey, wraps the data key and unlocks it again", async ({ page }) => {
+    const { cdp, authenticatorId } = await addVirtualAuthenticator(page, true);
+    const rows = await servePasskeyWraps(page);
+    await loadPasskeyModule(page);
+
+    const result = await page.evaluate(
+      async ({ userId, email }) => {
+        const dataKey = await window.EncryptionService.generateDataKey();
+        await window.passkeys.registerPasskey(userId, email, dataKey, "key-1", "Laptop");
+
+        const { key, keyId } = await window.passkeys.unlockWithPasskey(userId);
+        const { encrypted } = await window.EncryptionService.encrypt("round trip", key, keyId);
+        return {
+          keyId,
+          extractable: key.extractable,
+          decrypted: await window.EncryptionService.decrypt(encrypted, dataKey),
+        };
+      },
+      { userId: USER_ID, email: EMAIL }
+    );
+
+    // The unlocked key is a non-extractable copy of the registered data key
+    expect(result).toEqual({ keyId: "key-1", extractable: false, decrypted: "round trip" });
+
+    const { credentials } = await cdp.send("WebAuthn.getCredentials", { authenticatorId });
+    expect(credentials).toHaveLength(1);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      user_id: USER_ID,
+      credential_id: toBase64Url(credentials[0].credentialId),
+      data_key_id: "key-1",
+      label: "Laptop",
+    });
+    expect(rows[0].prf_salt).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  test("refuses an authenticator without PRF and stores nothing", async ({ page }) => {
+    await addVirtualAuthenticator(page, false);
+    const rows = await servePasskeyWraps(page);
+    await loadPasskeyModule(page);
+
+    const error = await page.evaluate(
+      async ({ userId, email }) => {
+        const dataKey = await window.EncryptionService.generateDataKey();
+        return window.passkeys.registerPasskey(userId, email, dataKey, "key-1", "Laptop").then(
+          () => null,
+          (reason: Error) => reason.message
+        );
+      },
+      { userId: USER_ID, email: EMAIL }
+    );
+
+    expect(error).toMatch(/does not support unlocking encryption/);
+    expect(rows).toHaveLength(0);
+  });
+
+  test("does not start a ceremony when no passkey is registered", async ({ page }) => {
+    await addVirtualAuthenticator(page, true);
+    await servePasskeyWraps(page);
+    await loadPasskeyModule(page);
+
+    const error = await page.evaluate(
+      (userId) => window.passkeys.unlockWithPasskey(userId).then(() => null, (reason: Error) => reason.message),
+      USER_ID
+    );
+
+    expect(error).toBe("No passkey is registered for this account");
+  });
+});
@@ -0,0 +1,17 @@
+import { defineConfig, devices } from "@playwright/test";
+
+// Browser tests for what only a real browser provides (WebAuthn); everything else runs under Vitest
+export default defineConfig({
+  testDir: "./e2e",
+  testMatch: "**/*.e2e.ts",
+  forbidOnly: !!process.env.CI,
+  use: {
+    baseURL: "http://localhost:8080",
+  },
+  projects: [{ name: "chromium", use: { ...devices["Desktop Chrome"] } }],
+  webServer: {
+    command: "npm run dev -- --host localhost --port 8080 --strictPort",
+    url: "http://localhost:8080",
+    reuseExistingServer: !process.env.CI,
+  },
+});
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { loadAccountEmail } from "@/lib/accountEmail";
+
+interface AccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChangeEmail: () => void;
+}
+
+export const AccountDialog = ({ open, onOpenChange, onChangeEmail }: AccountDialogProps) => {
+  const [storedEmail, setStoredEmail] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Read from profiles.encrypted_email each time, so this shows what the server actually holds
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    supabase.auth.getSession()
+      .then(({ data: { session } }) => (session ? loadAccountEmail(session.user.id) : null))
+      .catch(() => null)
+      .then((value) => {
+        if (cancelled) return;
+        setStoredEmail(value);
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Account</DialogTitle>
+          <DialogDescription>
+            Your email is stored encrypted under your data key and decrypted here, in your browser.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Email</Label>
+            <p className="text-sm font-mono break-all">
+              {loading ? "DECRYPTING..." : storedEmail ?? "Not stored yet - it is saved on your next password login"}
+            </p>
+          </div>
+          <Button variant="outline" onClick={onChangeEmail} className="w-full font-bold">
+            CHANGE EMAIL
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { SecureInputWrapper as Input } from "@/components/SecureInputWrapper";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+import { isValidPin } from "@/lib/pinUnlock";
+
+interface AutoLockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AUTO_LOCK_CHOICES = [
+  { minutes: 0, label: "Never" },
+  { minutes: 1, label: "1 minute" },
+  { minutes: 5, label: "5 minutes" },
+  { minutes: 15, label: "15 minutes" },
+  { minutes: 60, label: "1 hour" },
+];
+
+export const AutoLockDialog = ({ open, onOpenChange }: AutoLockDialogProps) => {
+  const { toast } = useToast();
+  const { autoLockMinutes, setAutoLockMinutes, pinAttemptsLeft, setUnlockPin, clearUnlockPin, lock } = useEncryption();
+  const [password, setPassword] = useState("");
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const reset = () => {
+    setPassword("");
+    setPin("");
+    setConfirmPin("");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleSetPin = async () => {
+    if (!isValidPin(pin)) {
+      toast({ title: "Validation Error", description: "PIN must be 4 to 8 digits", variant: "destructive" });
+      return;
+    }
+    if (pin !== confirmPin) {
+      toast({ title: "Validation Error", description: "PINs do not match", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setUnlockPin(password, pin);
+      reset();
+      toast({ title: "PIN Set", description: "Use it to unlock until you log out or refresh" });
+    } catch (error) {
+      toast({
+        title: "PIN Setup Failed",
+        description: error instanceof Error ? error.message : "Could not set the PIN",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Auto-Lock</DialogTitle>
+          <DialogDescription>
+            When locked, your encryption key is removed from memory. You stay signed in and unlock with your password or a PIN.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div>
+            <Label htmlFor="autoLockMinutes">Lock after inactivity</Label>
+            <Select
+              value={autoLockMinutes.toString()}
+              onValueChange={(value) => setAutoLockMinutes(parseInt(value))}
+            >
+              <SelectTrigger id="autoLockMinutes">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_LOCK_CHOICES.map(({ minutes, label }) => (
+                  <SelectItem key={minutes} value={minutes.toString()}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {pinAttemptsLeft !== null ? (
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">PIN unlock is on for this session.</p>
+              <Button variant="outline" onClick={clearUnlockPin} className="font-bold">
+                REMOVE PIN
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="pinPassword">Password</Label>
+                <Input
+                  id="pinPassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={saving}
+                  className="font-mono"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="pin">PIN</Label>
+                  <Input
+                    id="pin"
+                    type="password"
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value)}
+                    disabled={saving}
+                    className="font-mono"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="confirmPin">Confirm PIN</Label>
+                  <Input
+                    id="confirmPin"
+                    type="password"
+                    value={confirmPin}
+                    onChange={(e) => setConfirmPin(e.target.value)}
+                    disabled={saving}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+              <Button onClick={handleSetPin} disabled={saving || !password} className="w-full font-bold">
+                {saving ? "SETTING PIN..." : "SET PIN"}
+              </Button>
+            </div>
+          )}
+
+          <Button
+            variant="ghost"
+            onClick={() => {
+              handleOpenChange(false);
+              lock();
+            }}
+            className="w-full"
+          >
+            Lock now
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
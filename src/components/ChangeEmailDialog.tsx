@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SecureInputWrapper as Input } from "@/components/SecureInputWrapper";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { RecoveryCodePanel } from "@/components/RecoveryKitDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+import { authSchema } from "@/lib/validation";
+import { getTotpFactor } from "@/lib/twoFactor";
+import { requestEmailChange } from "@/lib/keyManagement";
+
+interface ChangeEmailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// details: new address and password; code: the code sent to the new address; kit: the new recovery code
+type ChangeEmailStep = "details" | "code" | "kit";
+
+const EMAIL_CODE_LENGTH = 6;
+
+export const ChangeEmailDialog = ({ open, onOpenChange }: ChangeEmailDialogProps) => {
+  const { toast } = useToast();
+  const { email, changeEmail } = useEncryption();
+  const [step, setStep] = useState<ChangeEmailStep>("details");
+  const [newEmail, setNewEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [emailCode, setEmailCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [hasTotp, setHasTotp] = useState(false);
+  const [totpCode, setTotpCode] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    getTotpFactor()
+      .then((factor) => setHasTotp(factor !== null))
+      .catch(() => setHasTotp(false));
+  }, [open]);
+
+  const reset = () => {
+    setStep("details");
+    setNewEmail("");
+    setPassword("");
+    setEmailCode("");
+    setRecoveryCode(null);
+    setTotpCode("");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (saving) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleSendCode = async () => {
+    const validation = authSchema.shape.email.safeParse(newEmail);
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.issues[0]?.message || "Invalid email address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await requestEmailChange(validation.data);
+      setNewEmail(validation.data);
+      setStep("code");
+    } catch (error) {
+      toast({
+        title: "Email Change Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      const code = await changeEmail(newEmail, password, emailCode, hasTotp ? totpCode : undefined);
+      setPassword("");
+      setRecoveryCode(code);
+      setStep("kit");
+      toast({
+        title: "Email Changed",
+        description: "Sign in with your new email from now on.",
+      });
+    } catch (error) {
+      setEmailCode("");
+      setTotpCode("");
+      toast({
+        title: "Email Change Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderOtp = (value: string, onChange: (value: string) => void, length: number) => (
+    <InputOTP maxLength={length} pattern={REGEXP_ONLY_DIGITS} value={value} onChange={onChange} disabled={saving}>
+      <InputOTPGroup>
+        {Array.from({ length }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{step === "kit" ? "New Recovery Kit" : "Change Email"}</DialogTitle>
+          <DialogDescription>
+            {step === "details" && "Your data key is re-wrapped for the new address; no data is re-encrypted."}
+            {step === "code" && `Enter the code sent to ${newEmail}. Nothing changes until it is confirmed.`}
+            {step === "kit" && "Your email has changed. Store this recovery code - it replaces your old kit."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "kit" && recoveryCode && (
+          <RecoveryCodePanel email={newEmail} recoveryCode={recoveryCode} onDone={() => handleOpenChange(false)} />
+        )}
+
+        {step === "details" && (
+          <div className="space-y-4">
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Your recovery kit will stop working</AlertTitle>
+              <AlertDescription>
+                The recovery code is tied to your email. A new one is issued with the change and shown once - have
+                somewhere ready to store it.
+              </AlertDescription>
+            </Alert>
+            {email && <p className="text-sm text-muted-foreground font-mono break-all">{email}</p>}
+            <div>
+              <Label htmlFor="newEmail">New Email</Label>
+              <Input
+                id="newEmail"
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                disabled={saving}
+                className="font-mono"
+              />
+            </div>
+            <div>
+              <Label htmlFor="emailChangePassword">Password</Label>
+              <Input
+                id="emailChangePassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={saving}
+                className="font-mono"
+              />
+            </div>
+            <Button onClick={handleSendCode} disabled={saving || !newEmail || !password} className="w-full font-bold">
+              {saving ? "SENDING..." : "SEND CODE TO NEW EMAIL"}
+            </Button>
+          </div>
+        )}
+
+        {step === "code" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Code From Your New Email</Label>
+              {renderOtp(emailCode, setEmailCode, EMAIL_CODE_LENGTH)}
+            </div>
+            {hasTotp && (
+              <div className="space-y-2">
+                <Label>Authenticator Code</Label>
+                {renderOtp(totpCode, setTotpCode, 6)}
+              </div>
+            )}
+            <Button
+              onClick={handleConfirm}
+              disabled={saving || emailCode.length !== EMAIL_CODE_LENGTH || (hasTotp && totpCode.length !== 6)}
+              className="w-full font-bold"
+            >
+              {saving ? "CHANGING..." : "CHANGE EMAIL"}
+            </Button>
+            <Button variant="ghost" onClick={() => setStep("details")} disabled={saving} className="w-full">
+              Back
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
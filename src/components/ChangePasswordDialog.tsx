@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { SecureInputWrapper as Input } from "@/components/SecureInputWrapper";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+import { authSchema } from "@/lib/validation";
+import { RotationProgress } from "@/lib/keyManagement";
+import { assertPasswordAllowed } from "@/lib/passwordStrength";
+import { PasswordStrengthMeter } from "@/components/PasswordStrengthMeter";
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ChangePasswordDialog = ({ open, onOpenChange }: ChangePasswordDialogProps) => {
+  const { toast } = useToast();
+  const { changePassword, email } = useEncryption();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [progress, setProgress] = useState<RotationProgress | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const reset = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setProgress(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Re-encryption must not be abandoned from the UI
+    if (saving) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async () => {
+    const validation = authSchema.shape.password.safeParse(newPassword);
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.issues[0]?.message || "Invalid password",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Validation Error",
+        description: "New passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Checked before any key is derived from the new password
+      await assertPasswordAllowed(validation.data, email ? [email] : []);
+      let unreadable = 0;
+      await changePassword(currentPassword, validation.data, (next) => {
+        unreadable = next.unreadable ?? 0;
+        setProgress(next);
+      });
+      toast({
+        title: "Password Changed",
+        description: unreadable > 0
+          ? `${unreadable} item${unreadable === 1 ? "" : "s"} could not be read with your key and stayed as they were - see Quarantine`
+          : "Your data has been re-encrypted under the new password",
+      });
+      setSaving(false);
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      setSaving(false);
+      toast({
+        title: "Password Change Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change Password</DialogTitle>
+          <DialogDescription>
+            All of your encrypted data is moved to a new key. If this is interrupted, it resumes on your next login.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="currentPassword">Current Password</Label>
+            <Input
+              id="currentPassword"
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              disabled={saving}
+              className="font-mono"
+            />
+          </div>
+          <div>
+            <Label htmlFor="newPassword">New Password</Label>
+            <Input
+              id="newPassword"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              disabled={saving}
+              minLength={6}
+              className="font-mono"
+            />
+            <PasswordStrengthMeter password={newPassword} email={email ?? undefined} />
+          </div>
+          <div>
+            <Label htmlFor="confirmPassword">Confirm New Password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              disabled={saving}
+              minLength={6}
+              className="font-mono"
+            />
+          </div>
+
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={percent} className="h-2" />
+              <p className="text-sm text-muted-foreground text-center">
+                Re-encrypting {progress.done} / {progress.total} records
+              </p>
+            </div>
+          )}
+
+          <Button onClick={handleSubmit} disabled={saving} className="w-full font-bold">
+            {saving ? "RE-ENCRYPTING..." : "CHANGE PASSWORD"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { SecureInputWrapper as Input } from "@/components/SecureInputWrapper";
+import { Input as FileInput } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+import { exportArchive, importArchive, isEncryptedArchive, readArchive } from "@/lib/accountArchive";
+
+interface DataArchiveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const DataArchiveDialog = ({ open, onOpenChange }: DataArchiveDialogProps) => {
+  const { toast } = useToast();
+  const { pseudonymId } = useEncryption();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [plaintext, setPlaintext] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [archiveText, setArchiveText] = useState<string | null>(null);
+  const [archiveEncrypted, setArchiveEncrypted] = useState(false);
+  const [importPassphrase, setImportPassphrase] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setPlaintext(false);
+    setArchiveText(null);
+    setArchiveEncrypted(false);
+    setImportPassphrase("");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleExport = async () => {
+    if (!pseudonymId) return;
+    if (!plaintext) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        toast({
+          title: "Validation Error",
+          description: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        toast({ title: "Validation Error", description: "Passphrases do not match", variant: "destructive" });
+        return;
+      }
+    }
+
+    setExporting(true);
+    try {
+      const { file, items, skipped } = await exportArchive(pseudonymId, plaintext ? null : passphrase);
+      const blob = new Blob([file], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `stand-export-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setPassphrase("");
+      setConfirmPassphrase("");
+      toast({
+        title: "Export Ready",
+        description: skipped > 0
+          ? `${items} items exported. ${skipped} could not be decrypted and were left out.`
+          : `${items} items exported`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Could not export your data",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setImportPassphrase("");
+    if (!file) {
+      setArchiveText(null);
+      return;
+    }
+
+    const text = await file.text();
+    try {
+      setArchiveEncrypted(isEncryptedArchive(text));
+      setArchiveText(text);
+    } catch (error) {
+      setArchiveText(null);
+      toast({
+        title: "Invalid File",
+        description: error instanceof Error ? error.message : "This file is not a STAND archive",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pseudonymId || !archiveText) return;
+
+    setImporting(true);
+    try {
+      const archive = await readArchive(archiveText, archiveEncrypted ? importPassphrase : null);
+      const { imported, duplicates } = await importArchive(pseudonymId, archive);
+      setImportPassphrase("");
+      toast({
+        title: "Import Complete",
+        description: `${imported} items imported${archive.accountEmail ? ` from ${archive.accountEmail}` : ""}, ${duplicates} already present. Refresh to see them.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not import the archive",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export & Import</DialogTitle>
+          <DialogDescription>
+            Download all chores, checklists, reminders and events as one file, or restore a file into this account.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-4">
+            {!plaintext && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="archivePassphrase">Passphrase</Label>
+                  <Input
+                    id="archivePassphrase"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    disabled={exporting}
+                    className="font-mono"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="confirmArchivePassphrase">Confirm</Label>
+                  <Input
+                    id="confirmArchivePassphrase"
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    disabled={exporting}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="archivePlaintext"
+                checked={plaintext}
+                onCheckedChange={(checked) => setPlaintext(checked === true)}
+                disabled={exporting}
+              />
+              <Label htmlFor="archivePlaintext" className="text-sm font-normal">
+                Export without encryption (anyone with the file can read it)
+              </Label>
+            </div>
+            <Button onClick={handleExport} disabled={exporting || !pseudonymId} className="w-full font-bold">
+              {exporting ? "EXPORTING..." : "EXPORT"}
+            </Button>
+          </div>
+
+          <div className="space-y-4 border-t pt-6">
+            <div>
+              <Label htmlFor="archiveFile">Archive file</Label>
+              <FileInput
+                id="archiveFile"
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFileChange}
+                disabled={importing}
+              />
+            </div>
+            {archiveText && archiveEncrypted && (
+              <div>
+                <Label htmlFor="importPassphrase">Archive passphrase</Label>
+                <Input
+                  id="importPassphrase"
+                  type="password"
+                  value={importPassphrase}
+                  onChange={(e) => setImportPassphrase(e.target.value)}
+                  disabled={importing}
+                  className="font-mono"
+                />
+              </div>
+            )}
+            <Button
+              variant="outline"
+              onClick={handleImport}
+              disabled={importing || !archiveText || (archiveEncrypted && !importPassphrase)}
+              className="w-full font-bold"
+            >
+              {importing ? "IMPORTING..." : "IMPORT"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Button } from "@/components/ui/button";
+import { SecureInputWrapper as Input } from "@/components/SecureInputWrapper";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+import {
+  DELETION_CONFIRMATION_PHRASE,
+  DeletionReceipt,
+  SignedDeletionReceipt,
+  deleteAccount,
+  parseDeletionReceipt,
+  verifyDeletionReceipt,
+} from "@/lib/accountDeletion";
+import { getTotpFactor } from "@/lib/twoFactor";
+
+interface DeleteAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDeleted: () => void; // Called once the receipt has been shown and the dialog closes
+}
+
+export const DeleteAccountDialog = ({ open, onOpenChange, onDeleted }: DeleteAccountDialogProps) => {
+  const { toast } = useToast();
+  const { email } = useEncryption();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [deleting, setDeleting] = useState(false);
+  const [signed, setSigned] = useState<SignedDeletionReceipt | null>(null);
+  const [receipt, setReceipt] = useState<DeletionReceipt | null>(null);
+  const [verified, setVerified] = useState<boolean | null>(null);
+  const [hasTotp, setHasTotp] = useState(false);
+  const [totpCode, setTotpCode] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    getTotpFactor()
+      .then((factor) => setHasTotp(factor !== null))
+      .catch(() => setHasTotp(false));
+  }, [open]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (deleting) return;
+    if (!nextOpen) {
+      setPassword("");
+      setConfirmation("");
+      setTotpCode("");
+      if (signed) {
+        onDeleted();
+        return;
+      }
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleDelete = async () => {
+    if (!email || confirmation !== DELETION_CONFIRMATION_PHRASE) return;
+
+    setDeleting(true);
+    try {
+      const result = await deleteAccount(email, password, hasTotp ? totpCode : undefined);
+      setPassword("");
+      setSigned(result);
+      setReceipt(parseDeletionReceipt(result));
+      setVerified(await verifyDeletionReceipt(result));
+    } catch (error) {
+      toast({
+        title: "Deletion Failed",
+        description: error instanceof Error ? error.message : "Could not delete your account",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!signed || !receipt) return;
+    const blob = new Blob([JSON.stringify(signed, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `stand-deletion-receipt-${receipt.deletedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const totalDeleted = receipt ? Object.values(receipt.deleted).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete Account</DialogTitle>
+          <DialogDescription>
+            {receipt
+              ? "Your account has been deleted. Download the signed receipt before closing."
+              : "Permanently deletes your account and every encrypted row it owns. This cannot be undone."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {receipt ? (
+          <div className="space-y-4">
+            <div className="p-4 bg-muted/50 rounded space-y-1 text-sm">
+              <p className="font-bold">{totalDeleted} rows deleted · 0 remaining</p>
+              <p className="text-muted-foreground">{new Date(receipt.deletedAt).toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground font-mono break-all">{receipt.subject}</p>
+              <p className="text-xs text-muted-foreground">
+                {verified
+                  ? "Signature verified"
+                  : "Signature could not be verified in this browser"}
+              </p>
+            </div>
+            <Button onClick={handleDownload} className="w-full font-bold">
+              DOWNLOAD RECEIPT
+            </Button>
+            <Button variant="outline" onClick={() => handleOpenChange(false)} className="w-full">
+              Done
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="deletePassword">Password</Label>
+              <Input
+                id="deletePassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={deleting}
+                className="font-mono"
+              />
+            </div>
+            <div>
+              <Label htmlFor="deleteConfirmation">Type {DELETION_CONFIRMATION_PHRASE} to confirm</Label>
+              <Input
+                id="deleteConfirmation"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                disabled={deleting}
+                className="font-mono"
+              />
+            </div>
+            {hasTotp && (
+              <div className="space-y-2">
+                <Label>Authenticator Code</Label>
+                <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={totpCode} onChange={setTotpCode} disabled={deleting}>
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            )}
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleting || !password || confirmation !== DELETION_CONFIRMATION_PHRASE || (hasTotp && totpCode.length !== 6)}
+              className="w-full font-bold"
+            >
+              {deleting ? "DELETING..." : "DELETE ACCOUNT"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { SecureInputWrapper as Input } from "@/components/SecureInputWrapper";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+import { isPasskeySupported } from "@/lib/passkeyUnlock";
+
+interface LockScreenProps {
+  onLogout: () => void;
+}
+
+export const LockScreen = ({ onLogout }: LockScreenProps) => {
+  const { toast } = useToast();
+  const { unlockWithPassword, unlockWithPin, unlockWithPasskey, pinAttemptsLeft, email, status, error } = useEncryption();
+  const [usePassword, setUsePassword] = useState(false);
+  const [secret, setSecret] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+
+  const pinAvailable = pinAttemptsLeft !== null && !usePassword;
+
+  const handlePasskey = async () => {
+    setUnlocking(true);
+    try {
+      await unlockWithPasskey();
+    } catch (error) {
+      toast({
+        title: "Unlock Failed",
+        description: error instanceof Error ? error.message : "Could not unlock with a passkey",
+        variant: "destructive",
+      });
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    try {
+      if (pinAvailable) {
+        await unlockWithPin(secret);
+      } else {
+        await unlockWithPassword(secret);
+      }
+    } catch (error) {
+      toast({
+        title: "Unlock Failed",
+        description: error instanceof Error ? error.message : "Could not unlock",
+        variant: "destructive",
+      });
+    } finally {
+      setSecret("");
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md p-8">
+        <div className="mb-8 text-center">
+          <h1 className="text-4xl font-bold mb-2">LOCKED</h1>
+          <p className="text-muted-foreground text-xs tracking-widest uppercase">
+            {email ?? "Session locked after inactivity"}
+          </p>
+          {status === "error" && error && (
+            <p className="text-destructive text-sm mt-4">{error.message}</p>
+          )}
+        </div>
+
+        <form onSubmit={handleUnlock} className="space-y-4">
+          <div>
+            <Label htmlFor="unlockSecret">{pinAvailable ? "PIN" : "Password"}</Label>
+            <Input
+              id="unlockSecret"
+              type="password"
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              autoFocus
+              required
+              className="font-mono"
+            />
+            {pinAvailable && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {pinAttemptsLeft} attempt{pinAttemptsLeft === 1 ? "" : "s"} before the password is required
+              </p>
+            )}
+          </div>
+
+          <Button type="submit" className="w-full font-bold" disabled={unlocking || !secret}>
+            {unlocking ? "UNLOCKING..." : "UNLOCK"}
+          </Button>
+          {isPasskeySupported() && (
+            <Button type="button" variant="outline" onClick={handlePasskey} disabled={unlocking} className="w-full font-bold">
+              UNLOCK WITH PASSKEY
+            </Button>
+          )}
+        </form>
+
+        <div className="mt-6 text-center space-y-2">
+          {pinAttemptsLeft !== null && (
+            <button
+              type="button"
+              onClick={() => {
+                setUsePassword(!usePassword);
+                setSecret("");
+              }}
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {usePassword ? "Unlock with PIN" : "Use password instead"}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onLogout}
+            className="block w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Logout
+          </button>
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { SecureInputWrapper as Input } from "@/components/SecureInputWrapper";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+import { supabase } from "@/integrations/supabase/client";
+import { isPasskeySupported, listPasskeys, PasskeySummary, removePasskey } from "@/lib/passkeyUnlock";
+
+interface PasskeyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const PasskeyDialog = ({ open, onOpenChange }: PasskeyDialogProps) => {
+  const { toast } = useToast();
+  const { registerPasskey } = useEncryption();
+  const [passkeys, setPasskeys] = useState<PasskeySummary[]>([]);
+  const [label, setLabel] = useState("");
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadPasskeys = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+    try {
+      setPasskeys(await listPasskeys(session.user.id));
+    } catch (error) {
+      setPasskeys([]);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadPasskeys();
+  }, [open]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setLabel("");
+      setPassword("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleRegister = async () => {
+    setSaving(true);
+    try {
+      await registerPasskey(password, label.trim() || "Passkey");
+      setLabel("");
+      setPassword("");
+      await loadPasskeys();
+      toast({ title: "Passkey Added", description: "You can now unlock with this passkey" });
+    } catch (error) {
+      toast({
+        title: "Passkey Setup Failed",
+        description: error instanceof Error ? error.message : "Could not register the passkey",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await removePasskey(id);
+      setPasskeys(passkeys.filter((passkey) => passkey.id !== id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not remove the passkey",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Passkeys</DialogTitle>
+          <DialogDescription>
+            Unlock your encrypted data with a passkey instead of your password. The passkey's secret never leaves this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isPasskeySupported() ? (
+          <p className="text-sm text-muted-foreground">Passkeys are not supported in this browser.</p>
+        ) : (
+          <div className="space-y-6">
+            {passkeys.length > 0 && (
+              <ul className="space-y-2">
+                {passkeys.map((passkey) => (
+                  <li key={passkey.id} className="flex items-center justify-between gap-4 p-2 bg-muted/50 rounded">
+                    <div>
+                      <p className="text-sm font-bold">{passkey.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Added {new Date(passkey.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(passkey.id)}>
+                      Remove
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="passkeyLabel">Name</Label>
+                <Input
+                  id="passkeyLabel"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="e.g. Laptop"
+                  disabled={saving}
+                />
+              </div>
+              <div>
+                <Label htmlFor="passkeyPassword">Password</Label>
+                <Input
+                  id="passkeyPassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={saving}
+                  className="font-mono"
+                />
+              </div>
+              <Button onClick={handleRegister} disabled={saving || !password} className="w-full font-bold">
+                {saving ? "WAITING FOR PASSKEY..." : "ADD PASSKEY"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
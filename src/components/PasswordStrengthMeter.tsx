@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { Progress } from "@/components/ui/progress";
+import { DEFAULT_PASSWORD_POLICY, estimatePasswordStrength, SCORE_LABELS } from "@/lib/passwordStrength";
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  email?: string; // Passwords built from the email are easy to guess
+}
+
+export const PasswordStrengthMeter = ({ password, email }: PasswordStrengthMeterProps) => {
+  const strength = useMemo(() => estimatePasswordStrength(password, email ? [email] : []), [password, email]);
+
+  if (!password) return null;
+
+  const acceptable = strength.score >= DEFAULT_PASSWORD_POLICY.minScore;
+
+  return (
+    <div className="space-y-1 mt-2">
+      <Progress value={(strength.score + 1) * 20} className="h-2" />
+      <p className={`text-xs ${acceptable ? "text-muted-foreground" : "text-destructive"}`}>
+        {SCORE_LABELS[strength.score]}
+        {!acceptable && strength.warning && ` - ${strength.warning}`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+import { RotationProgress } from "@/lib/keyManagement";
+
+interface PseudonymDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const PseudonymDialog = ({ open, onOpenChange }: PseudonymDialogProps) => {
+  const { toast } = useToast();
+  const { pseudonymId, rotatePseudonym } = useEncryption();
+  const [rotating, setRotating] = useState(false);
+  const [progress, setProgress] = useState<RotationProgress | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (rotating) return;
+    if (!nextOpen) setProgress(null);
+    onOpenChange(nextOpen);
+  };
+
+  const handleRotate = async () => {
+    setRotating(true);
+    try {
+      await rotatePseudonym(setProgress);
+      toast({ title: "Pseudonym Rotated", description: "Your rows now belong to a new pseudonym" });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Rotation Failed",
+        description: error instanceof Error ? error.message : "Could not rotate the pseudonym",
+        variant: "destructive",
+      });
+    } finally {
+      setRotating(false);
+      setProgress(null);
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pseudonym</DialogTitle>
+          <DialogDescription>
+            Every row is stored under this pseudonym. Rotating it re-encrypts your data under a new one, so rows
+            written before the rotation no longer link to your account on the server.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground font-mono break-all">{pseudonymId}</p>
+          <p className="text-sm text-muted-foreground">
+            Other signed-in devices need to reload afterwards.
+          </p>
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={percent} className="h-2" />
+              <p className="text-xs text-muted-foreground text-center">
+                Re-encrypting {progress.done} / {progress.total} records
+              </p>
+            </div>
+          )}
+          <Button onClick={handleRotate} disabled={rotating || !pseudonymId} className="w-full font-bold">
+            {rotating ? "ROTATING..." : "ROTATE PSEUDONYM"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
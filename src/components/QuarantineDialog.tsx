@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { SecureInputWrapper as Input } from "@/components/SecureInputWrapper";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+import { canDeleteQuarantined, DECRYPT_FAILURE_LABELS, QuarantinedRow } from "@/lib/quarantine";
+import { EncryptedTable } from "@/lib/encryptedTables";
+
+interface QuarantineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TABLE_LABELS: Record<EncryptedTable, string> = {
+  chores: "Chore",
+  calendar_events: "Event",
+  checklists: "Checklist",
+  checklist_reminders: "Reminder",
+  focus_monitoring: "Focus entry",
+  device_sessions: "Device",
+  profiles: "Account profile",
+};
+
+export const QuarantineDialog = ({ open, onOpenChange }: QuarantineDialogProps) => {
+  const { toast } = useToast();
+  const { quarantined, retryQuarantined, deleteQuarantined } = useEncryption();
+  const [password, setPassword] = useState("");
+  const [retrying, setRetrying] = useState(false);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setPassword("");
+      setConfirmingId(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      const repaired = await retryQuarantined(password);
+      setPassword("");
+      toast({
+        title: repaired > 0 ? "Rows Repaired" : "Nothing Repaired",
+        description: repaired > 0
+          ? `${repaired} row${repaired === 1 ? "" : "s"} re-encrypted with your current key. Refresh to see them.`
+          : "No quarantined row decrypts with that password",
+        variant: repaired > 0 ? "default" : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Retry Failed",
+        description: error instanceof Error ? error.message : "Could not retry the quarantined rows",
+        variant: "destructive",
+      });
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleDelete = async (row: QuarantinedRow) => {
+    if (confirmingId !== row.id) {
+      setConfirmingId(row.id);
+      return;
+    }
+
+    try {
+      await deleteQuarantined(row);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not delete the row",
+        variant: "destructive",
+      });
+    } finally {
+      setConfirmingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Quarantine</DialogTitle>
+          <DialogDescription>
+            These rows could not be decrypted with your current key. Retry them with an old password, or delete them permanently.
+          </DialogDescription>
+        </DialogHeader>
+
+        {quarantined.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rows are quarantined.</p>
+        ) : (
+          <div className="space-y-6">
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {quarantined.map((row) => (
+                <li key={`${row.table}:${row.id}`} className="flex items-center justify-between gap-4 p-2 bg-muted/50 rounded">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold">
+                      {TABLE_LABELS[row.table]} · {DECRYPT_FAILURE_LABELS[row.failure]}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{row.id}</p>
+                  </div>
+                  {canDeleteQuarantined(row) ? (
+                    <Button
+                      variant={confirmingId === row.id ? "destructive" : "ghost"}
+                      size="sm"
+                      onClick={() => handleDelete(row)}
+                    >
+                      {confirmingId === row.id ? "Confirm" : "Delete"}
+                    </Button>
+                  ) : (
+                    // Deleting the profile would lose the account's key wraps
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => document.getElementById("quarantinePassword")?.focus()}
+                    >
+                      Retry with older password
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="quarantinePassword">Old password</Label>
+                <Input
+                  id="quarantinePassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={retrying}
+                  className="font-mono"
+                />
+              </div>
+              <Button onClick={handleRetry} disabled={retrying || !password} className="w-full font-bold">
+                {retrying ? "RETRYING..." : "RETRY WITH PASSWORD"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
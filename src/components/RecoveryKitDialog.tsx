@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { SecureInputWrapper as Input } from "@/components/SecureInputWrapper";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useEncryption } from "@/contexts/EncryptionContext";
+
+interface RecoveryKitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const buildKitText = (email: string | null, recoveryCode: string) =>
+  [
+    "STAND - in the door",
+    "OFFLINE RECOVERY KIT",
+    "",
+    `Account: ${email ?? ""}`,
+    `Created: ${new Date().toISOString().split("T")[0]}`,
+    "",
+    `Recovery code: ${recoveryCode}`,
+    "",
+    "This code can set a new password without losing your encrypted data.",
+    "Anyone holding it can take over your account. Store it offline.",
+  ].join("\n");
+
+interface RecoveryCodePanelProps {
+  email: string | null;
+  recoveryCode: string;
+  onDone: () => void;
+}
+
+/**
+ * Shows a freshly issued recovery code once, with print and download
+ */
+export const RecoveryCodePanel = ({ email, recoveryCode, onDone }: RecoveryCodePanelProps) => {
+  const handlePrint = () => {
+    const printWindow = window.open("", "_blank", "width=600,height=400");
+    if (!printWindow) return;
+    const pre = printWindow.document.createElement("pre");
+    pre.style.fontFamily = "monospace";
+    pre.textContent = buildKitText(email, recoveryCode);
+    printWindow.document.body.appendChild(pre);
+    printWindow.print();
+    printWindow.close();
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([buildKitText(email, recoveryCode)], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "stand-recovery-kit.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-muted/50 rounded text-center font-mono font-bold break-all">
+        {recoveryCode}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        This code is shown once. Any earlier recovery code no longer works.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" onClick={handlePrint} className="font-bold">
+          PRINT
+        </Button>
+        <Button variant="outline" onClick={handleDownload} className="font-bold">
+          DOWNLOAD
+        </Button>
+      </div>
+      <Button onClick={onDone} className="w-full font-bold">
+        I HAVE STORED MY CODE
+      </Button>
+    </div>
+  );
+};
+
+export const RecoveryKitDialog = ({ open, onOpenChange }: RecoveryKitDialogProps) => {
+  const { toast } = useToast();
+  const { createRecoveryKit, email } = useEncryption();
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [password, setPassword] = useState("");
+  const [generating, setGenerating] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setRecoveryCode(null);
+      setPassword("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      setRecoveryCode(await createRecoveryKit(password));
+      setPassword("");
+    } catch (error) {
+      toast({
+        title: "Recovery Kit Failed",
+        description: error instanceof Error ? error.message : "Could not create a recovery kit",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Offline Recovery Kit</DialogTitle>
+          <DialogDescription>
+            Your data is encrypted with a key only you hold. A recovery code is the only way to regain access if you forget your password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {recoveryCode ? (
+          <RecoveryCodePanel email={email} recoveryCode={recoveryCode} onDone={() => handleOpenChange(false)} />
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="recoveryKitPassword">Confirm Password</Label>
+              <Input
+                id="recoveryKitPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <Button onClick={handleGenerate} disabled={generating || !password} className="w-full font-bold">
+              {generating ? "GENERATING..." : "GENERATE RECOVERY CODE"}
+            </Button>
+            <Button variant="ghost" onClick={() => handleOpenChange(false)} className="w-full">
+              Skip for now
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { DeviceSession, listDeviceSessions, revokeDeviceSession, signOutEverywhere } from "@/lib/deviceSessions";
+
+interface SessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSignedOutEverywhere: () => void;
+}
+
+const formatLastSeen = (timestamp: string) => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 60) return "within the last hour";
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export const SessionsDialog = ({ open, onOpenChange, onSignedOutEverywhere }: SessionsDialogProps) => {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [signingOut, setSigningOut] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    setLoadError(null);
+    listDeviceSessions()
+      .then(setSessions)
+      .catch((error) => setLoadError(error instanceof Error ? error.message : "Could not load sessions"))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const handleRevoke = async (session: DeviceSession) => {
+    setRevokingId(session.id);
+    try {
+      await revokeDeviceSession(session.id);
+      setSessions((current) => current.filter((entry) => entry.id !== session.id));
+      toast({ title: "Session Ended", description: `${session.label} is signed out` });
+    } catch (error) {
+      toast({
+        title: "Could Not Sign Out Session",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setSigningOut(true);
+    try {
+      await signOutEverywhere();
+      onOpenChange(false);
+      onSignedOutEverywhere();
+    } catch (error) {
+      toast({
+        title: "Sign Out Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSigningOut(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !signingOut && onOpenChange(nextOpen)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sessions</DialogTitle>
+          <DialogDescription>
+            Everywhere you are logged in. Device names are encrypted with your data key. A signed-out device
+            can keep its current access for up to an hour.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">LOADING...</p>
+        ) : loadError ? (
+          <p className="text-sm text-destructive">{loadError}</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between gap-2 p-3 bg-muted/50 rounded">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold truncate">
+                    {session.label} {session.current && <Badge variant="secondary">THIS DEVICE</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Last seen {formatLastSeen(session.lastSeenAt)} · since{" "}
+                    {new Date(session.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(session)}
+                    disabled={revokingId !== null || signingOut}
+                    className="font-bold"
+                  >
+                    {revokingId === session.id ? "..." : "SIGN OUT"}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="destructive"
+          onClick={handleSignOutEverywhere}
+          disabled={loading || signingOut}
+          className="w-full font-bold"
+        >
+          {signingOut ? "SIGNING OUT..." : "SIGN OUT EVERYWHERE"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  confirmTotpEnrollment,
+  disableTotp,
+  getTotpFactor,
+  loadBackupCodes,
+  regenerateBackupCodes,
+  startTotpEnrollment,
+  TotpEnrollment,
+  TotpFactor,
+} from "@/lib/twoFactor";
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const buildCodesText = (codes: string[]) =>
+  [
+    "STAND - in the door",
+    "TWO-FACTOR BACKUP CODES",
+    "",
+    `Created: ${new Date().toISOString().split("T")[0]}`,
+    "",
+    ...codes,
+    "",
+    "Each code signs in once without your authenticator and turns two-factor off.",
+  ].join("\n");
+
+export const TwoFactorDialog = ({ open, onOpenChange }: TwoFactorDialogProps) => {
+  const { toast } = useToast();
+  const [factor, setFactor] = useState<TotpFactor | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const userId = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("Not signed in");
+    return session.user.id;
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    getTotpFactor()
+      .then(setFactor)
+      .catch(() => setFactor(null))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (saving) return;
+    if (!nextOpen) {
+      setEnrollment(null);
+      setCode("");
+      setBackupCodes(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const run = async (action: () => Promise<void>, failureTitle: string) => {
+    setSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStart = () =>
+    run(async () => {
+      setEnrollment(await startTotpEnrollment());
+    }, "Setup Failed");
+
+  const handleConfirm = () =>
+    run(async () => {
+      if (!enrollment) return;
+      setBackupCodes(await confirmTotpEnrollment(await userId(), enrollment.factorId, code));
+      setCode("");
+      setEnrollment(null);
+      setFactor(await getTotpFactor());
+      toast({ title: "Two-Factor On", description: "Store your backup codes before closing this dialog" });
+    }, "Setup Failed");
+
+  const handleShowCodes = () =>
+    run(async () => {
+      const codes = await loadBackupCodes(await userId());
+      if (!codes) throw new Error("No backup codes are stored - create new ones");
+      setBackupCodes(codes);
+    }, "Backup Codes Unavailable");
+
+  const handleRegenerate = () =>
+    run(async () => {
+      setBackupCodes(await regenerateBackupCodes(await userId()));
+      toast({ title: "Backup Codes Replaced", description: "Earlier backup codes no longer work" });
+    }, "Backup Codes Failed");
+
+  const handleDisable = () =>
+    run(async () => {
+      if (!factor) return;
+      await disableTotp(factor.id);
+      setFactor(null);
+      setBackupCodes(null);
+      toast({ title: "Two-Factor Off", description: "Logins only need your password again" });
+    }, "Could Not Turn Off");
+
+  const handleDownload = () => {
+    if (!backupCodes) return;
+    const blob = new Blob([buildCodesText(backupCodes)], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "stand-backup-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            Password logins also ask for a 6-digit code from an authenticator app. Backup codes are encrypted with
+            your data key.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">LOADING...</p>
+        ) : backupCodes ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 p-4 bg-muted/50 rounded font-mono font-bold text-center">
+              {backupCodes.map((backupCode) => (
+                <span key={backupCode}>{backupCode}</span>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Each code works once, in place of the authenticator, and turns two-factor off.
+            </p>
+            <Button variant="outline" onClick={handleDownload} className="w-full font-bold">
+              DOWNLOAD
+            </Button>
+            <Button onClick={() => setBackupCodes(null)} className="w-full font-bold">
+              I HAVE STORED MY CODES
+            </Button>
+          </div>
+        ) : enrollment ? (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <img src={enrollment.qrCode} alt="Authenticator QR code" className="w-48 h-48 bg-white p-2 rounded" />
+            </div>
+            <p className="text-xs text-muted-foreground font-mono break-all text-center">{enrollment.secret}</p>
+            <div className="space-y-2">
+              <Label>Code from your authenticator</Label>
+              <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={code} onChange={setCode} disabled={saving}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <Button onClick={handleConfirm} disabled={saving || code.length !== 6} className="w-full font-bold">
+              {saving ? "VERIFYING..." : "TURN ON"}
+            </Button>
+          </div>
+        ) : factor ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              On since {new Date(factor.createdAt).toLocaleDateString()}
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" onClick={handleShowCodes} disabled={saving} className="font-bold">
+                SHOW CODES
+              </Button>
+              <Button variant="outline" onClick={handleRegenerate} disabled={saving} className="font-bold">
+                NEW CODES
+              </Button>
+            </div>
+            <Button variant="destructive" onClick={handleDisable} disabled={saving} className="w-full font-bold">
+              TURN OFF
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={handleStart} disabled={saving} className="w-full font-bold">
+            {saving ? "STARTING..." : "SET UP AUTHENTICATOR"}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -12,6 +12,7 @@ import { ChevronLeft, ChevronRight } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { calendarEventSchema } from "@/lib/validation";
+import { clearedFieldColumns } from "@/lib/recordCodec";
 import { ColorPicker } from "@/components/ui/color-picker";
 import { RepeatDaysSelector } from "@/components/ui/repeat-days-selector";
 import { stripWatermarkChars } from "@/lib/utils";
@@ -31,7 +32,7 @@ type ViewType = "day" | "week" | "month" | "year";
 
 const CalendarSection = () => {
   const { toast } = useToast();
-  const { encrypt, decrypt, pseudonymId, isReady, keyReady } = useEncryption();
+  const { encryptRecord, decryptRecords, upgradeRow, pseudonymId, status } = useEncryption();
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -63,13 +64,13 @@ const CalendarSection = () => {
   const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
 
   useEffect(() => {
-    if (isReady && keyReady && pseudonymId) {
+    if (status === "ready" && pseudonymId) {
       loadEvents();
       cleanupOldEvents();
-    } else if (isReady && !keyReady) {
+    } else if (status !== "unlocking") {
       setLoading(false);
     }
-  }, [isReady, keyReady, pseudonymId]);
+  }, [status, pseudonymId]);
   
   // Cleanup events before December if today is Dec 3rd or later
   const cleanupOldEvents = async () => {
@@ -131,42 +132,25 @@ const CalendarSection = () => {
       }
 
       if (eventsData) {
-        const decryptedEvents = await Promise.all(
-          eventsData.map(async (e: any) => {
-            try {
-              // Hash is no longer verified - AES-GCM provides authenticated encryption
-              const title = await decrypt(e.encrypted_title);
-              const date = await decrypt(e.encrypted_date);
-              const time = await decrypt(e.encrypted_time);
-              const description = e.encrypted_description 
-                ? await decrypt(e.encrypted_description)
-                : undefined;
-              const endTime = e.encrypted_end_time
-                ? await decrypt(e.encrypted_end_time)
-                : undefined;
-              const repeatDaysStr = e.encrypted_repeat_days
-                ? await decrypt(e.encrypted_repeat_days)
-                : undefined;
-              const repeatDays = repeatDaysStr ? JSON.parse(repeatDaysStr) : undefined;
-              const color = e.encrypted_color
-                ? await decrypt(e.encrypted_color)
-                : undefined;
-
-              return {
-                id: e.id,
-                title,
-                date,
-                time,
-                endTime,
-                repeatDays,
-                color,
-                description,
-              };
-            } catch (error) {
-              return null;
-            }
-          })
-        );
+        // Decrypted in a worker - a year of generated chore events would otherwise freeze the UI
+        const records = await decryptRecords("calendar_events", eventsData);
+        const decryptedEvents = eventsData.map((e, index) => {
+          const record = records[index];
+          if (!record) return null;
+          upgradeRow("calendar_events", e);
+
+          const { title, date, time, description, endTime, repeatDays, color } = record;
+          return {
+            id: e.id,
+            title,
+            date,
+            time,
+            endTime,
+            repeatDays,
+            color,
+            description,
+          };
+        });
 
         const validEvents = decryptedEvents.filter((e) => e !== null) as CalendarEvent[];
         
@@ -221,33 +205,25 @@ const CalendarSection = () => {
       const now = new Date().toISOString();
       // Use validated and sanitized data
       const { title, description, date, time } = validation.data;
-      const { encrypted: encTitle } = await encrypt(newEvent.title);
-      const { encrypted: encDate } = await encrypt(newEvent.date);
-      const { encrypted: encTime } = await encrypt(newEvent.time);
-      const { encrypted: encDesc } = await encrypt(newEvent.description || "");
-      const { encrypted: encCreated } = await encrypt(now);
-      const { encrypted: encEndTime } = newEvent.endTime 
-        ? await encrypt(newEvent.endTime) 
-        : { encrypted: null };
-      const { encrypted: encRepeatDays } = newEvent.repeatDays.length > 0 
-        ? await encrypt(JSON.stringify(newEvent.repeatDays)) 
-        : { encrypted: null };
-      const { encrypted: encColor } = newEvent.color 
-        ? await encrypt(newEvent.color) 
-        : { encrypted: null };
+      // The id is chosen here because it is bound into the ciphertext
+      const id = crypto.randomUUID();
+      const encryptedPayload = await encryptRecord("calendar_events", id, {
+        title: newEvent.title,
+        date: newEvent.date,
+        time: newEvent.time,
+        description: newEvent.description || "",
+        endTime: newEvent.endTime || undefined,
+        repeatDays: newEvent.repeatDays.length > 0 ? newEvent.repeatDays : undefined,
+        color: newEvent.color || undefined,
+        createdAt: now,
+      });
 
       const { data, error } = await supabase
         .from("calendar_events")
         .insert({
+          id,
           pseudonym_id: pseudonymId,
-          encrypted_title: encTitle,
-          encrypted_date: encDate,
-          encrypted_time: encTime,
-          encrypted_description: encDesc,
-          encrypted_created_at: encCreated,
-          encrypted_end_time: encEndTime,
-          encrypted_repeat_days: encRepeatDays,
-          encrypted_color: encColor,
+          encrypted_payload: encryptedPayload,
         })
         .select()
         .single();
@@ -315,32 +291,22 @@ const CalendarSection = () => {
       const now = new Date().toISOString();
       // Use validated and sanitized data
       const { title, description, date, time } = validation.data;
-      const { encrypted: encTitle } = await encrypt(title);
-      const { encrypted: encDate } = await encrypt(date);
-      const { encrypted: encTime } = await encrypt(time);
-      const { encrypted: encDesc } = description ? await encrypt(description) : { encrypted: "" };
-      const { encrypted: encCreated } = await encrypt(now);
-      const { encrypted: encEndTime } = newEvent.endTime 
-        ? await encrypt(newEvent.endTime) 
-        : { encrypted: null };
-      const { encrypted: encRepeatDays } = newEvent.repeatDays.length > 0 
-        ? await encrypt(JSON.stringify(newEvent.repeatDays)) 
-        : { encrypted: null };
-      const { encrypted: encColor } = newEvent.color 
-        ? await encrypt(newEvent.color) 
-        : { encrypted: null };
+      const encryptedPayload = await encryptRecord("calendar_events", editingEvent.id, {
+        title,
+        date,
+        time,
+        description: description || undefined,
+        endTime: newEvent.endTime || undefined,
+        repeatDays: newEvent.repeatDays.length > 0 ? newEvent.repeatDays : undefined,
+        color: newEvent.color || undefined,
+        createdAt: now,
+      });
 
       const { error } = await supabase
         .from("calendar_events")
         .update({
-          encrypted_title: encTitle,
-          encrypted_date: encDate,
-          encrypted_time: encTime,
-          encrypted_description: encDesc,
-          encrypted_created_at: encCreated,
-          encrypted_end_time: encEndTime,
-          encrypted_repeat_days: encRepeatDays,
-          encrypted_color: encColor,
+          ...clearedFieldColumns("calendar_events"),
+          encrypted_payload: encryptedPayload,
         })
         .eq("id", editingEvent.id);
 
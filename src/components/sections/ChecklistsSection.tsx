@@ -9,6 +9,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useEncryption } from "@/contexts/EncryptionContext";
 import { Pencil, Check, X, Trash2 } from "lucide-react";
 import { checklistSchema, reminderSchema } from "@/lib/validation";
+import { bindFields } from "@/lib/encryptedTables";
+import { clearedFieldColumns } from "@/lib/recordCodec";
 import { getNextRepeatDate } from "@/components/ui/repeat-days-selector";
 import { stripWatermarkChars } from "@/lib/utils";
 import {
@@ -22,6 +24,7 @@ interface Reminder {
   id: string;
   text: string;
   completed: boolean;
+  createdAt?: string;
   isOneOff?: boolean;
   sourceType?: string; // 'chore' | 'event'
   sourceId?: string;
@@ -42,7 +45,7 @@ const TASK_COLOR = "#7d8c5c"; // Olive green for chores/tasks
 
 const ChecklistsSection = () => {
   const { toast } = useToast();
-  const { encrypt, decrypt, pseudonymId, isReady } = useEncryption();
+  const { encryptField, encryptRecord, decryptFields, decryptRecords, upgradeRow, pseudonymId, status } = useEncryption();
   const [checklists, setChecklists] = useState<Checklist[]>([]);
   const [newChecklistName, setNewChecklistName] = useState("");
   const [newReminderText, setNewReminderText] = useState("");
@@ -58,18 +61,18 @@ const ChecklistsSection = () => {
   const [hasAutoPopulated, setHasAutoPopulated] = useState(false);
 
   useEffect(() => {
-    if (isReady && pseudonymId) {
+    if (status === "ready" && pseudonymId) {
       loadChecklists();
     }
-  }, [isReady, pseudonymId]);
+  }, [status, pseudonymId]);
 
   // Auto-populate reminders on sign-in
   useEffect(() => {
-    if (isReady && pseudonymId && !loading && !hasAutoPopulated) {
+    if (status === "ready" && pseudonymId && !loading && !hasAutoPopulated) {
       autoPopulateReminders();
       setHasAutoPopulated(true);
     }
-  }, [isReady, pseudonymId, loading, hasAutoPopulated]);
+  }, [status, pseudonymId, loading, hasAutoPopulated]);
 
   const autoPopulateReminders = async () => {
     try {
@@ -91,14 +94,18 @@ const ChecklistsSection = () => {
         .select("*")
         .eq("pseudonym_id", pseudonymId);
       
+      const choreRecords = await decryptRecords("chores", choresData ?? []);
+      const eventRecords = await decryptRecords("calendar_events", eventsData ?? []);
+      
       const newReminders: { text: string; sourceType: string; sourceId: string; sourceDate: string; color?: string; repeatDays?: string[] }[] = [];
       
       // Process chores - add for each day from start of month to today
       if (choresData) {
-        for (const chore of choresData) {
+        for (const [index, chore] of choresData.entries()) {
           try {
-            const name = await decrypt(chore.encrypted_name);
-            const period = parseInt(await decrypt(chore.encrypted_period));
+            const record = choreRecords[index];
+            if (!record) continue;
+            const { name, period } = record;
             
             // Calculate which days this chore should appear
             let currentDate = new Date(startOfMonth);
@@ -128,33 +135,13 @@ const ChecklistsSection = () => {
       
       // Process calendar events
       if (eventsData) {
-        for (const event of eventsData) {
+        for (const [index, event] of eventsData.entries()) {
           try {
-            const title = await decrypt(event.encrypted_title);
-            const eventDate = await decrypt(event.encrypted_date);
+            const record = eventRecords[index];
+            if (!record) continue;
+            const { title, date: eventDate, repeatDays = [], color } = record;
             const eventDateTime = new Date(eventDate);
             
-            // Decrypt repeat days if present
-            let repeatDays: string[] = [];
-            if (event.encrypted_repeat_days) {
-              try {
-                const repeatDaysStr = await decrypt(event.encrypted_repeat_days);
-                repeatDays = JSON.parse(repeatDaysStr);
-              } catch (e) {
-                // No repeat days
-              }
-            }
-            
-            // Decrypt color if present
-            let color: string | undefined;
-            if (event.encrypted_color) {
-              try {
-                color = await decrypt(event.encrypted_color);
-              } catch (e) {
-                // No color
-              }
-            }
-            
             // Add events that fall within start of month to today
             if (eventDateTime >= startOfMonth && eventDateTime <= today) {
               const dateStr = eventDate;
@@ -217,16 +204,19 @@ const ChecklistsSection = () => {
   const addAutoPopulatedReminders = async (reminders: { text: string; sourceType: string; sourceId: string; sourceDate: string; color?: string; repeatDays?: string[] }[]) => {
     try {
       const now = new Date().toISOString();
-      const { encrypted: encryptedName } = await encrypt("_simple_reminders");
-      const { encrypted: encryptedCreatedAt } = await encrypt(now);
       
       // Get or create simple reminders checklist
       let simpleChecklistId = checklists.find(c => c.name === "_simple_reminders")?.id;
       
       if (!simpleChecklistId) {
+        const id = crypto.randomUUID();
+        const checklistField = bindFields("checklists", id);
+        const encryptedName = await encryptField("_simple_reminders", checklistField("encrypted_name"));
+        const encryptedCreatedAt = await encryptField(now, checklistField("encrypted_created_at"));
         const { data: checklistData, error: checklistError } = await supabase
           .from("checklists")
           .insert({
+            id,
             pseudonym_id: pseudonymId,
             encrypted_name: encryptedName,
             encrypted_created_at: encryptedCreatedAt,
@@ -241,16 +231,19 @@ const ChecklistsSection = () => {
       const newReminderItems: Reminder[] = [];
       
       for (const reminder of reminders) {
-        const { encrypted: encryptedText } = await encrypt(reminder.text);
-        const { encrypted: encryptedCompleted } = await encrypt("false");
+        const id = crypto.randomUUID();
+        const encryptedPayload = await encryptRecord("checklist_reminders", id, {
+          text: reminder.text,
+          completed: false,
+          createdAt: now,
+        });
         
         const { data, error } = await supabase
           .from("checklist_reminders")
           .insert({
+            id,
             checklist_id: simpleChecklistId,
-            encrypted_text: encryptedText,
-            encrypted_completed: encryptedCompleted,
-            encrypted_created_at: encryptedCreatedAt,
+            encrypted_payload: encryptedPayload,
             source_type: reminder.sourceType,
             source_id: reminder.sourceId,
             source_date: reminder.sourceDate,
@@ -263,6 +256,7 @@ const ChecklistsSection = () => {
             id: data.id,
             text: reminder.text,
             completed: false,
+            createdAt: now,
             isOneOff: true,
             sourceType: reminder.sourceType,
             sourceId: reminder.sourceId,
@@ -298,38 +292,39 @@ const ChecklistsSection = () => {
       }
 
       if (checklistsData) {
-        const decryptedChecklists = await Promise.all(
-          checklistsData.map(async (c) => {
-            try {
-              const name = await decrypt(c.encrypted_name);
-              const reminders = await Promise.all(
-                c.checklist_reminders.map(async (r: any) => {
-                  try {
-                    const text = await decrypt(r.encrypted_text);
-                    const completedStr = await decrypt(r.encrypted_completed);
-                    return {
-                      id: r.id,
-                      text,
-                      completed: completedStr === "true",
-                      isOneOff: false,
-                    };
-                  } catch (error) {
-                    return null;
-                  }
-                })
-              );
-              const validReminders = reminders.filter((r) => r !== null) as Reminder[];
-              return {
-                id: c.id,
-                name,
-                reminders: validReminders,
-                isComplete: validReminders.length > 0 && validReminders.every(r => r.completed),
-              };
-            } catch (error) {
-              return null;
-            }
-          })
+        // Every checklist name and reminder is decrypted in the worker in one pass
+        const names = await decryptFields(
+          checklistsData.map((c) => ({ value: c.encrypted_name, field: bindFields("checklists", c.id)("encrypted_name") }))
         );
+        const reminderRows = checklistsData.flatMap((c) => c.checklist_reminders);
+        const reminderRecords = await decryptRecords("checklist_reminders", reminderRows);
+        const remindersById = new Map(reminderRows.map((r, index) => [r.id, reminderRecords[index]]));
+
+        const decryptedChecklists = checklistsData.map((c, index) => {
+          const name = names[index];
+          if (name === null) return null;
+          upgradeRow("checklists", c);
+
+          const validReminders: Reminder[] = [];
+          for (const r of c.checklist_reminders) {
+            const record = remindersById.get(r.id);
+            if (!record) continue;
+            upgradeRow("checklist_reminders", r);
+            validReminders.push({
+              id: r.id,
+              text: record.text,
+              completed: record.completed,
+              createdAt: record.createdAt,
+              isOneOff: false,
+            });
+          }
+          return {
+            id: c.id,
+            name,
+            reminders: validReminders,
+            isComplete: validReminders.length > 0 && validReminders.every(r => r.completed),
+          };
+        });
 
         const validChecklists = decryptedChecklists.filter((c) => c !== null) as Checklist[];
         
@@ -381,12 +376,16 @@ const ChecklistsSection = () => {
       const now = new Date().toISOString();
       // Use validated and sanitized data
       const { name } = validation.data;
-      const { encrypted: encryptedName } = await encrypt(name);
-      const { encrypted: encryptedCreatedAt } = await encrypt(now);
+      // The id is chosen here because it is bound into each ciphertext
+      const id = crypto.randomUUID();
+      const field = bindFields("checklists", id);
+      const encryptedName = await encryptField(name, field("encrypted_name"));
+      const encryptedCreatedAt = await encryptField(now, field("encrypted_created_at"));
 
       const { data, error } = await supabase
         .from("checklists")
         .insert({
+          id,
           pseudonym_id: pseudonymId,
           encrypted_name: encryptedName,
           encrypted_created_at: encryptedCreatedAt,
@@ -438,17 +437,15 @@ const ChecklistsSection = () => {
       const now = new Date().toISOString();
       // Use validated and sanitized data
       const { text } = validation.data;
-      const { encrypted: encryptedText } = await encrypt(text);
-      const { encrypted: encryptedCompleted } = await encrypt("false");
-      const { encrypted: encryptedCreatedAt } = await encrypt(now);
+      const id = crypto.randomUUID();
+      const encryptedPayload = await encryptRecord("checklist_reminders", id, { text, completed: false, createdAt: now });
 
       const { data, error } = await supabase
         .from("checklist_reminders")
         .insert({
+          id,
           checklist_id: checklistId,
-          encrypted_text: encryptedText,
-          encrypted_completed: encryptedCompleted,
-          encrypted_created_at: encryptedCreatedAt,
+          encrypted_payload: encryptedPayload,
         })
         .select()
         .single();
@@ -463,6 +460,7 @@ const ChecklistsSection = () => {
               id: data.id,
               text: newReminderText,
               completed: false,
+              createdAt: now,
               isOneOff,
             }
           ];
@@ -489,6 +487,16 @@ const ChecklistsSection = () => {
     }
   };
 
+  // Reminders are stored as one bundle, so any change re-encrypts the whole record
+  const reminderUpdate = async (reminder: Reminder) => ({
+    ...clearedFieldColumns("checklist_reminders"),
+    encrypted_payload: await encryptRecord("checklist_reminders", reminder.id, {
+      text: reminder.text,
+      completed: reminder.completed,
+      createdAt: reminder.createdAt ?? "",
+    }),
+  });
+
   const toggleReminder = async (checklistId: string, reminderId: string) => {
     const checklist = checklists.find(c => c.id === checklistId);
     const reminder = checklist?.reminders.find(r => r.id === reminderId);
@@ -497,13 +505,10 @@ const ChecklistsSection = () => {
 
     try {
       const newCompleted = !reminder.completed;
-      const { encrypted: encryptedCompleted } = await encrypt(newCompleted.toString());
       
       const { error } = await supabase
         .from("checklist_reminders")
-        .update({ 
-          encrypted_completed: encryptedCompleted
-        })
+        .update(await reminderUpdate({ ...reminder, completed: newCompleted }))
         .eq("id", reminderId);
 
       if (error) throw error;
@@ -533,16 +538,12 @@ const ChecklistsSection = () => {
     if (!checklist) return;
 
     try {
-      const { encrypted: encryptedCompleted } = await encrypt("false");
-      
-      // Reset all reminders to incomplete
+      // Reset all reminders to incomplete - each row gets its own bound ciphertext
       await Promise.all(
-        checklist.reminders.map(reminder =>
+        checklist.reminders.map(async reminder =>
           supabase
             .from("checklist_reminders")
-            .update({ 
-              encrypted_completed: encryptedCompleted
-            })
+            .update(await reminderUpdate({ ...reminder, completed: false }))
             .eq("id", reminder.id)
         )
       );
@@ -610,14 +611,13 @@ const ChecklistsSection = () => {
       return;
     }
 
+    const reminder = checklists.find(c => c.id === checklistId)?.reminders.find(r => r.id === reminderId);
+    if (!reminder) return;
+
     try {
-      const { encrypted: encryptedText } = await encrypt(editText);
-      
       const { error } = await supabase
         .from("checklist_reminders")
-        .update({ 
-          encrypted_text: encryptedText
-        })
+        .update(await reminderUpdate({ ...reminder, text: editText }))
         .eq("id", reminderId);
 
       if (error) throw error;
@@ -696,7 +696,10 @@ const ChecklistsSection = () => {
     }
 
     try {
-      const { encrypted: encryptedName } = await encrypt(validation.data.name);
+      const encryptedName = await encryptField(
+        validation.data.name,
+        bindFields("checklists", checklistId)("encrypted_name")
+      );
       const { error } = await supabase
         .from("checklists")
         .update({ encrypted_name: encryptedName })
@@ -737,21 +740,28 @@ const ChecklistsSection = () => {
 
     try {
       const now = new Date().toISOString();
-      const { encrypted: encryptedText } = await encrypt(validation.data.text);
-      const { encrypted: encryptedCompleted } = await encrypt("false");
-      const { encrypted: encryptedCreatedAt } = await encrypt(now);
-      const { encrypted: encryptedName } = await encrypt("_simple_reminders");
+      const id = crypto.randomUUID();
+      const encryptedPayload = await encryptRecord("checklist_reminders", id, {
+        text: validation.data.text,
+        completed: false,
+        createdAt: now,
+      });
 
       // Create a special checklist for simple reminders if it doesn't exist
       let simpleChecklistId = checklists.find(c => c.name === "_simple_reminders")?.id;
       
       if (!simpleChecklistId) {
+        const checklistId = crypto.randomUUID();
+        const checklistField = bindFields("checklists", checklistId);
+        const encryptedName = await encryptField("_simple_reminders", checklistField("encrypted_name"));
+        const checklistCreatedAt = await encryptField(now, checklistField("encrypted_created_at"));
         const { data: checklistData, error: checklistError } = await supabase
           .from("checklists")
           .insert({
+            id: checklistId,
             pseudonym_id: pseudonymId,
             encrypted_name: encryptedName,
-            encrypted_created_at: encryptedCreatedAt,
+            encrypted_created_at: checklistCreatedAt,
           })
           .select()
           .single();
@@ -763,10 +773,9 @@ const ChecklistsSection = () => {
       const { data, error } = await supabase
         .from("checklist_reminders")
         .insert({
+          id,
           checklist_id: simpleChecklistId,
-          encrypted_text: encryptedText,
-          encrypted_completed: encryptedCompleted,
-          encrypted_created_at: encryptedCreatedAt,
+          encrypted_payload: encryptedPayload,
         })
         .select()
         .single();
@@ -777,6 +786,7 @@ const ChecklistsSection = () => {
         id: data.id,
         text: validation.data.text,
         completed: false,
+        createdAt: now,
         isOneOff: true,
       }]);
       setNewSimpleReminderText("");
@@ -803,11 +813,10 @@ const ChecklistsSection = () => {
             const newText = `${baseText} - ${dateStr}`;
             
             // Update the reminder with new date
-            const { encrypted: encryptedText } = await encrypt(newText);
             await supabase
               .from("checklist_reminders")
               .update({ 
-                encrypted_text: encryptedText,
+                ...(await reminderUpdate({ ...reminder, text: newText })),
                 source_date: dateStr 
               })
               .eq("id", reminderId);
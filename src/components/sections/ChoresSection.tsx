@@ -18,7 +18,7 @@ interface Chore {
 
 const ChoresSection = () => {
   const { toast } = useToast();
-  const { encrypt, decrypt, pseudonymId, isReady } = useEncryption();
+  const { encryptRecord, decryptRecords, upgradeRow, pseudonymId, status } = useEncryption();
   const [chores, setChores] = useState<Chore[]>([]);
   const [newChoreName, setNewChoreName] = useState("");
   const [newChorePeriod, setNewChorePeriod] = useState("");
@@ -28,10 +28,10 @@ const ChoresSection = () => {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (isReady && pseudonymId) {
+    if (status === "ready" && pseudonymId) {
       loadChores();
     }
-  }, [isReady, pseudonymId]);
+  }, [status, pseudonymId]);
 
   const loadChores = async () => {
     if (!pseudonymId) {
@@ -50,21 +50,17 @@ const ChoresSection = () => {
       }
 
       if (choresData) {
-        const decryptedChores = await Promise.all(
-          choresData.map(async (c) => {
-            try {
-              const name = await decrypt(c.encrypted_name);
-              const period = parseInt(await decrypt(c.encrypted_period));
-              return {
-                id: c.id,
-                name,
-                period,
-              };
-            } catch (error) {
-              return null;
-            }
-          })
-        );
+        const records = await decryptRecords("chores", choresData);
+        const decryptedChores = choresData.map((c, index) => {
+          const record = records[index];
+          if (!record) return null;
+          upgradeRow("chores", c);
+          return {
+            id: c.id,
+            name: record.name,
+            period: record.period,
+          };
+        });
 
         const validChores = decryptedChores.filter((c) => c !== null) as Chore[];
         setChores(validChores);
@@ -110,19 +106,21 @@ const ChoresSection = () => {
       // Use validated and sanitized data
       const { name, period } = validation.data;
       const now = new Date().toISOString();
-      const { encrypted: encryptedName } = await encrypt(name);
-      const { encrypted: encryptedPeriod } = await encrypt(period.toString());
-      const { encrypted: encryptedCreatedAt } = await encrypt(now);
-      const { encrypted: encryptedUpdatedAt } = await encrypt(now);
+      // The id is chosen here because it is bound into the ciphertext
+      const id = crypto.randomUUID();
+      const encryptedPayload = await encryptRecord("chores", id, {
+        name,
+        period,
+        createdAt: now,
+        updatedAt: now,
+      });
 
       const { data, error } = await supabase
         .from("chores")
         .insert({
+          id,
           pseudonym_id: pseudonymId,
-          encrypted_name: encryptedName,
-          encrypted_period: encryptedPeriod,
-          encrypted_created_at: encryptedCreatedAt,
-          encrypted_updated_at: encryptedUpdatedAt,
+          encrypted_payload: encryptedPayload,
         })
         .select()
         .single();
@@ -243,19 +241,19 @@ const ChoresSection = () => {
           const eventDate = currentDate.toISOString().split('T')[0];
           const eventTime = "09:00";
           
-          const { encrypted: encTitle } = await encrypt(chore.name);
-          const { encrypted: encDate } = await encrypt(eventDate);
-          const { encrypted: encTime } = await encrypt(eventTime);
-          const { encrypted: encDesc } = await encrypt(`Recurring chore (every ${chore.period} days)`);
-          const { encrypted: encCreated } = await encrypt(new Date().toISOString());
+          const id = crypto.randomUUID();
+          const encryptedPayload = await encryptRecord("calendar_events", id, {
+            title: chore.name,
+            date: eventDate,
+            time: eventTime,
+            description: `Recurring chore (every ${chore.period} days)`,
+            createdAt: new Date().toISOString(),
+          });
           
           calendarEvents.push({
+            id,
             pseudonym_id: pseudonymId,
-            encrypted_title: encTitle,
-            encrypted_date: encDate,
-            encrypted_time: encTime,
-            encrypted_description: encDesc,
-            encrypted_created_at: encCreated,
+            encrypted_payload: encryptedPayload,
           });
           
           currentDate = new Date(currentDate.getTime() + chore.period * 24 * 60 * 60 * 1000);
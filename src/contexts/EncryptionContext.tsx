@@ -1,41 +1,101 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useRef, useSyncExternalStore, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { EncryptionService } from "@/lib/encryption";
+import { createRecoveryKit as createAccountRecoveryKit } from "@/lib/recoveryKit";
+import { loadAccountKeys, changePassword as changeAccountPassword, changeEmail as changeAccountEmail, deriveAlternateKeys, registerSrpVerifier, rotateDataKey, upgradeKdfParams, RotationProgress } from "@/lib/keyManagement";
+import { needsKdfUpgrade } from "@/lib/kdf";
+import { cryptoService, CryptoLifecycleListener, CryptoStatus } from "@/lib/cryptoService";
+import { deleteQuarantinedRow, quarantine, QuarantinedRow } from "@/lib/quarantine";
+import { EncryptedTable, FieldBinding } from "@/lib/encryptedTables";
+import { RecordTable, RecordTypes } from "@/lib/recordCodec";
+import { createPinWrap, MAX_PIN_ATTEMPTS, PinWrap, unwrapWithPin } from "@/lib/pinUnlock";
+import { useAutoLock } from "@/hooks/useAutoLock";
+import { registerPasskey as registerAccountPasskey, removeAllPasskeys, unlockWithPasskey as unwrapWithPasskey } from "@/lib/passkeyUnlock";
+import { rotatePseudonym as rotateAccountPseudonym } from "@/lib/pseudonymRotation";
+import { loadAccountEmail, storeAccountEmail } from "@/lib/accountEmail";
+import { recordCurrentDevice } from "@/lib/deviceSessions";
+import { completeEnvelopeMigration } from "@/lib/envelopeMigrator";
 
 interface EncryptionContextType {
-  encryptionKey: CryptoKey | null;
+  status: CryptoStatus; // locked | unlocking | ready | error
+  error: Error | null; // Why the last unlock failed, while status is "error"
+  subscribe: (listener: CryptoLifecycleListener) => () => void; // Lifecycle events for loading and lock UI
   pseudonymId: string | null;
   email: string | null;
-  isReady: boolean;
-  keyReady: boolean; // Separate flag for key availability
-  encrypt: (data: string) => Promise<{ encrypted: string; hash: string }>;
-  decrypt: (encryptedData: string, expectedHash?: string) => Promise<string>;
-  initializeEncryption: (email: string, password: string) => Promise<void>;
+  encryptField: (value: string, field: FieldBinding) => Promise<string>;
+  decryptField: (value: string, field: FieldBinding) => Promise<string>;
+  encryptRecord: <T extends RecordTable>(table: T, rowId: string, record: RecordTypes[T]) => Promise<string>; // Value for encrypted_payload
+  decryptRecord: <T extends RecordTable>(table: T, row: { id: string }) => Promise<RecordTypes[T]>;
+  // Bulk variants run in a worker; results keep input order and are null where decryption failed
+  decryptFields: (items: { value: string; field: FieldBinding }[]) => Promise<(string | null)[]>;
+  decryptRecords: <T extends RecordTable>(table: T, rows: { id: string }[]) => Promise<(RecordTypes[T] | null)[]>;
+  upgradeRow: (table: EncryptedTable, row: { id: string }) => void; // Queue a read row for lazy envelope migration
+  // Rows that failed to decrypt in this session, instead of being dropped
+  quarantined: QuarantinedRow[];
+  retryQuarantined: (password: string) => Promise<number>; // Tries keys from an old password; returns rows repaired
+  deleteQuarantined: (row: QuarantinedRow) => Promise<void>;
+  initializeEncryption: (email: string, password: string, options?: InitializeOptions) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string, onProgress?: (progress: RotationProgress) => void) => Promise<void>;
+  // Re-wraps the data key for the new address once it confirmed emailCode; returns the new recovery code
+  changeEmail: (newEmail: string, password: string, emailCode: string, totpCode?: string) => Promise<string>;
+  rotationProgress: RotationProgress | null; // Set while an interrupted re-encryption is resumed
+  // Moves every row to a new pseudonym_id, unlinking history from the account on the server
+  rotatePseudonym: (onProgress?: (progress: RotationProgress) => void) => Promise<void>;
+  needsRecoveryKit: boolean; // Data key was just created - offer the recovery kit
+  createRecoveryKit: (password: string) => Promise<string>; // Password unlocks a wrappable copy of the data key
+  // Auto-lock: the key is dropped from memory while the Supabase session stays signed in
+  lock: () => void;
+  unlockWithPassword: (password: string) => Promise<void>;
+  unlockWithPin: (pin: string) => Promise<void>;
+  pinAttemptsLeft: number | null; // null when no PIN is set up
+  setUnlockPin: (password: string, pin: string) => Promise<void>;
+  clearUnlockPin: () => void;
+  // Password-less unlock with a passkey that supports the WebAuthn PRF extension
+  unlockWithPasskey: () => Promise<void>;
+  registerPasskey: (password: string, label: string) => Promise<void>;
+  autoLockMinutes: number; // 0 disables auto-lock
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+export interface InitializeOptions {
+  // Keep the non-extractable key in IndexedDB for this long ("remember this device")
+  rememberDeviceMs?: number;
 }
 
 const EncryptionContext = createContext<EncryptionContextType | undefined>(undefined);
 
-// Store encryption key in memory for the session
-let sessionEncryptionKey: CryptoKey | null = null;
+const AUTO_LOCK_STORAGE_KEY = "stand-auto-lock-minutes";
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+// Set while locked so a remembered device key does not silently unlock on refresh
+const LOCKED_STORAGE_KEY = "stand-locked-user";
 
-export const setSessionEncryptionKey = (key: CryptoKey) => {
-  sessionEncryptionKey = key;
+const loadAutoLockMinutes = (): number => {
+  const stored = parseInt(localStorage.getItem(AUTO_LOCK_STORAGE_KEY) ?? "");
+  return Number.isInteger(stored) && stored >= 0 ? stored : DEFAULT_AUTO_LOCK_MINUTES;
 };
 
-export const getSessionEncryptionKey = (): CryptoKey | null => {
-  return sessionEncryptionKey;
-};
-
-export const clearSessionEncryptionKey = () => {
-  sessionEncryptionKey = null;
-};
+const subscribeToStatus = (onChange: () => void) => cryptoService.subscribe(onChange);
 
 export const EncryptionProvider = ({ children }: { children: ReactNode }) => {
-  const [encryptionKey, setEncryptionKey] = useState<CryptoKey | null>(null);
-  const [pseudonymId, setPseudonymId] = useState<string | null>(null);
+  // The key itself lives in cryptoService; React only mirrors its status
+  const status = useSyncExternalStore(subscribeToStatus, () => cryptoService.getStatus());
+  const error = useSyncExternalStore(subscribeToStatus, () => cryptoService.getError());
+  const quarantined = useSyncExternalStore(quarantine.subscribe, quarantine.list);
+  const [pseudonymId, setPseudonymIdState] = useState<string | null>(null);
   const [email, setEmail] = useState<string | null>(null);
-  const [isReady, setIsReady] = useState(false);
-  const [keyReady, setKeyReady] = useState(false);
+  const [rotationProgress, setRotationProgress] = useState<RotationProgress | null>(null);
+  const [needsRecoveryKit, setNeedsRecoveryKit] = useState(false);
+  const [pinAttemptsLeft, setPinAttemptsLeft] = useState<number | null>(null);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(loadAutoLockMinutes);
+  // PIN-wrapped copy of the data key - memory only, never persisted
+  const pinWrapRef = useRef<PinWrap | null>(null);
+  // True while a password sign-in is unwrapping the key, so the session check does not show the lock screen
+  const initializingRef = useRef(false);
+
+  const setPseudonymId = (id: string | null) => {
+    cryptoService.setPseudonymId(id);
+    setPseudonymIdState(id);
+  };
 
   useEffect(() => {
     const checkSession = async () => {
@@ -43,42 +103,53 @@ export const EncryptionProvider = ({ children }: { children: ReactNode }) => {
         const { data: { session } } = await supabase.auth.getSession();
         
         if (!session) {
-          setIsReady(true);
-          setKeyReady(false);
+          cryptoService.lock();
           return;
         }
         
         const { data: profile, error } = await supabase
           .from("profiles")
-          .select("pseudonym_id")
+          .select("pseudonym_id, data_key_id, pending_data_key_id, envelope_min_version")
           .eq("user_id", session.user.id)
           .maybeSingle();
 
         if (error) {
-          setIsReady(true);
-          setKeyReady(false);
+          cryptoService.fail(new Error("Could not load your profile"));
           return;
         }
 
         if (profile) {
           setPseudonymId(profile.pseudonym_id);
+          cryptoService.setEnvelopeMinVersion(profile.envelope_min_version);
           
-          // Check memory-only session storage
-          const key = getSessionEncryptionKey();
-          if (key) {
-            setEncryptionKey(key);
-            setKeyReady(true);
-          } else {
-            setKeyReady(false);
+          // Check session memory, then a key remembered on this device
+          const hasKey = cryptoService.hasKey();
+          const lockedHere = localStorage.getItem(LOCKED_STORAGE_KEY) === session.user.id;
+          const remembered = hasKey || lockedHere ? null : await EncryptionService.retrieveKey(session.user.id);
+          if (hasKey) {
+            return;
+          }
+          if (
+            remembered &&
+            remembered.keyId === (profile.data_key_id ?? "") &&
+            !profile.pending_data_key_id
+          ) {
+            setEmail(remembered.email);
+            cryptoService.unlock(remembered.key, remembered.keyId);
+            return;
+          }
+          if (remembered) {
+            // A remembered key from before a password change no longer matches the account
+            await EncryptionService.clearKey(session.user.id);
           }
-        } else {
-          setKeyReady(false);
         }
-        
-        setIsReady(true);
+
+        // Signed in without a key (refresh, or locked): unlock with password, PIN or passkey
+        if (!initializingRef.current && !cryptoService.hasKey()) {
+          cryptoService.lock();
+        }
       } catch (error) {
-        setIsReady(true);
-        setKeyReady(false);
+        cryptoService.fail(error);
       }
     };
 
@@ -86,11 +157,14 @@ export const EncryptionProvider = ({ children }: { children: ReactNode }) => {
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       if (event === 'SIGNED_OUT') {
-        setEncryptionKey(null);
+        cryptoService.lock();
         setPseudonymId(null);
+        cryptoService.setEnvelopeMinVersion(null);
         setEmail(null);
-        setKeyReady(false);
-        clearSessionEncryptionKey();
+        setNeedsRecoveryKit(false);
+        pinWrapRef.current = null;
+        setPinAttemptsLeft(null);
+        localStorage.removeItem(LOCKED_STORAGE_KEY);
       } else if (event === 'SIGNED_IN' && session) {
         setTimeout(() => {
           checkSession();
@@ -103,51 +177,353 @@ export const EncryptionProvider = ({ children }: { children: ReactNode }) => {
     };
   }, []);
 
-  const initializeEncryption = async (userEmail: string, password: string) => {
+  // Unlocks that did not type the email (passkey, PIN) recover it from profiles.encrypted_email
+  useEffect(() => {
+    if (status !== "ready" || email) return;
+    let cancelled = false;
+    void supabase.auth.getSession().then(async ({ data: { session } }) => {
+      if (!session) return;
+      const storedEmail = await loadAccountEmail(session.user.id).catch(() => null);
+      if (!cancelled && storedEmail) setEmail(storedEmail);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [status, email]);
+
+  // Starts rejecting unbound values once lazy migration has re-bound all of them; retried each unlock
+  useEffect(() => {
+    if (status !== "ready") return;
+    void completeEnvelopeMigration()
+      .then((version) => cryptoService.setEnvelopeMinVersion(version))
+      .catch(() => undefined);
+  }, [status]);
+
+  // Labels this session for the session list; a failure only leaves it listed as an unknown device
+  useEffect(() => {
+    if (status !== "ready" || !pseudonymId) return;
+    void recordCurrentDevice(pseudonymId).catch(() => undefined);
+  }, [status, pseudonymId]);
+
+  const initializeEncryption = async (userEmail: string, password: string, options: InitializeOptions = {}) => {
+    initializingRef.current = true;
+    cryptoService.beginUnlock();
     try {
-      const salt = await EncryptionService.deriveSalt(userEmail);
-      const key = await EncryptionService.deriveKey(password, salt);
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('No active session');
+      }
+
+      // Unwrap the account data key with the password-derived key
+      const keys = await loadAccountKeys(session.user.id, userEmail, password);
+      let key = keys.dataKey;
+      let keyId = keys.dataKeyId;
+
+      // Finish an interrupted password change before any rows are read
+      if (keys.pendingDataKey) {
+        try {
+          await rotateDataKey(session.user.id, keys.dataKey, keys.pendingDataKey, keys.pendingDataKeyId ?? "", setRotationProgress);
+        } finally {
+          setRotationProgress(null);
+        }
+        key = keys.pendingDataKey;
+        keyId = keys.pendingDataKeyId ?? "";
+      }
+
+      // Move the account to Argon2id calibrated for this device (first login, or params below the floor)
+      if (needsKdfUpgrade(keys.kdfParams)) {
+        try {
+          await upgradeKdfParams(session.user.id, userEmail, password);
+        } catch (upgradeError) {
+          // Current parameters still work - the upgrade is retried on the next login
+        }
+      }
+
+      // Accounts that signed in with the derived password move to SRP for later logins
+      try {
+        await registerSrpVerifier(session.user.id, userEmail, password);
+      } catch (verifierError) {
+        // The password path keeps working - registration is retried on the next unlock
+      }
       
-      const isValid = await EncryptionService.validateKey(key);
+      // The session only ever holds a non-extractable copy of the data key
+      const sessionKey = await EncryptionService.toSessionKey(key);
+      const isValid = await EncryptionService.validateKey(sessionKey);
       if (!isValid) {
         throw new Error('Generated key failed validation');
       }
+
+      try {
+        if (options.rememberDeviceMs) {
+          await EncryptionService.storeKey(session.user.id, sessionKey, {
+            keyId,
+            email: userEmail,
+            expiresAt: Date.now() + options.rememberDeviceMs,
+          });
+        } else {
+          await EncryptionService.clearKey(session.user.id);
+        }
+      } catch (storeError) {
+        // Remembering is best effort - the session still works from memory
+      }
       
-      setEncryptionKey(key);
       setEmail(userEmail);
-      setSessionEncryptionKey(key);
-      setKeyReady(true);
+      setNeedsRecoveryKit(keys.created);
+      localStorage.removeItem(LOCKED_STORAGE_KEY);
+      cryptoService.unlock(sessionKey, keyId);
+
+      // Encrypted copy of the email for unlocks without it; retried on the next login if this fails
+      void storeAccountEmail(session.user.id, userEmail).catch(() => undefined);
     } catch (error) {
-      setKeyReady(false);
+      cryptoService.fail(error);
       throw error;
+    } finally {
+      initializingRef.current = false;
     }
   };
 
-  const encrypt = async (data: string): Promise<{ encrypted: string; hash: string }> => {
-    const key = encryptionKey || getSessionEncryptionKey();
-    if (!key) {
-      throw new Error("Encryption key not available. Please log out and log back in.");
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string,
+    onProgress?: (progress: RotationProgress) => void
+  ) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session || !email) {
+      throw new Error("Session expired. Please log out and log back in.");
     }
-    return EncryptionService.encrypt(data, key);
+
+    const { dataKey, dataKeyId } = await changeAccountPassword(session.user.id, email, currentPassword, newPassword, onProgress);
+    // The PIN and passkeys wrapped the old data key
+    pinWrapRef.current = null;
+    setPinAttemptsLeft(null);
+    await removeAllPasskeys(session.user.id);
+    const sessionKey = await EncryptionService.toSessionKey(dataKey);
+    cryptoService.unlock(sessionKey, dataKeyId);
+
+    // Keep a remembered device remembered, now with the new key
+    const remembered = await EncryptionService.retrieveKey(session.user.id);
+    if (remembered) {
+      await EncryptionService.storeKey(session.user.id, sessionKey, { ...remembered, keyId: dataKeyId });
+    }
+  };
+
+  const changeEmail = async (newEmail: string, password: string, emailCode: string, totpCode?: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session || !email) {
+      throw new Error("Session expired. Please log out and log back in.");
+    }
+
+    const recoveryCode = await changeAccountEmail(session.user.id, email, newEmail, password, emailCode, totpCode);
+    const normalizedEmail = newEmail.toLowerCase().trim();
+    setEmail(normalizedEmail);
+    await supabase.auth.refreshSession();
+
+    const remembered = await EncryptionService.retrieveKey(session.user.id);
+    if (remembered) {
+      await EncryptionService.storeKey(session.user.id, remembered.key, { ...remembered, email: normalizedEmail });
+    }
+    return recoveryCode;
+  };
+
+  const rotatePseudonym = async (onProgress?: (progress: RotationProgress) => void) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error("Session expired. Please log out and log back in.");
+    }
+
+    const nextPseudonymId = await rotateAccountPseudonym(session.user.id, onProgress);
+    setPseudonymId(nextPseudonymId);
   };
 
-  const decrypt = async (encryptedData: string, expectedHash?: string): Promise<string> => {
-    const key = encryptionKey || getSessionEncryptionKey();
-    if (!key) {
-      throw new Error("Encryption key not available. Please log out and log back in.");
+  const createRecoveryKit = async (password: string): Promise<string> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session || !email) {
+      throw new Error("Session expired. Please log out and log back in.");
     }
-    return EncryptionService.decrypt(encryptedData, key);
+
+    // The session key cannot be wrapped, so unwrap a transient copy with the password
+    const { dataKey } = await loadAccountKeys(session.user.id, email, password);
+    const recoveryCode = await createAccountRecoveryKit(session.user.id, email, dataKey);
+    setNeedsRecoveryKit(false);
+    return recoveryCode;
+  };
+
+  const lock = () => {
+    cryptoService.lock();
+    void supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session) localStorage.setItem(LOCKED_STORAGE_KEY, session.user.id);
+    });
+  };
+
+  useAutoLock(autoLockMinutes * 60 * 1000, status === "ready", lock);
+
+  // Moves the service through unlocking to ready, or to error when the unwrap fails
+  const runUnlock = async (unwrap: () => Promise<{ key: CryptoKey; keyId: string }>) => {
+    cryptoService.beginUnlock();
+    try {
+      const { key, keyId } = await unwrap();
+      localStorage.removeItem(LOCKED_STORAGE_KEY);
+      cryptoService.unlock(key, keyId);
+    } catch (error) {
+      cryptoService.fail(error);
+      throw error;
+    }
+  };
+
+  const unlockWithPassword = async (password: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const userEmail = email ?? session?.user.email ?? null;
+    if (!session || !userEmail) {
+      throw new Error("Session expired. Please log out and log back in.");
+    }
+
+    await runUnlock(async () => {
+      const keys = await loadAccountKeys(session.user.id, userEmail, password);
+      return { key: await EncryptionService.toSessionKey(keys.dataKey), keyId: keys.dataKeyId };
+    });
+    setEmail(userEmail);
+
+    // The password proves the user is present, so the PIN gets its attempts back
+    if (pinWrapRef.current) {
+      pinWrapRef.current.attemptsLeft = MAX_PIN_ATTEMPTS;
+      setPinAttemptsLeft(MAX_PIN_ATTEMPTS);
+    }
+  };
+
+  const unlockWithPin = async (pin: string) => {
+    const wrap = pinWrapRef.current;
+    if (!wrap) {
+      throw new Error("PIN unlock is not set up. Unlock with your password.");
+    }
+
+    await runUnlock(async () => {
+      // Count the attempt before deriving, so parallel attempts cannot exceed the limit
+      wrap.attemptsLeft -= 1;
+      setPinAttemptsLeft(wrap.attemptsLeft);
+      const key = await unwrapWithPin(wrap, pin);
+
+      if (!key) {
+        if (wrap.attemptsLeft <= 0) {
+          pinWrapRef.current = null;
+          setPinAttemptsLeft(null);
+          throw new Error("Too many wrong PINs. Unlock with your password.");
+        }
+        throw new Error(`Wrong PIN. ${wrap.attemptsLeft} attempt${wrap.attemptsLeft === 1 ? "" : "s"} left.`);
+      }
+
+      wrap.attemptsLeft = MAX_PIN_ATTEMPTS;
+      setPinAttemptsLeft(MAX_PIN_ATTEMPTS);
+      return { key, keyId: wrap.keyId };
+    });
+  };
+
+  const setUnlockPin = async (password: string, pin: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session || !email) {
+      throw new Error("Session expired. Please log out and log back in.");
+    }
+
+    const { dataKey, dataKeyId } = await loadAccountKeys(session.user.id, email, password);
+    pinWrapRef.current = await createPinWrap(dataKey, dataKeyId, pin);
+    setPinAttemptsLeft(MAX_PIN_ATTEMPTS);
+  };
+
+  const clearUnlockPin = () => {
+    pinWrapRef.current = null;
+    setPinAttemptsLeft(null);
+  };
+
+  const unlockWithPasskey = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error("Session expired. Please log out and log back in.");
+    }
+
+    await runUnlock(async () => {
+      const unlocked = await unwrapWithPasskey(session.user.id);
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("data_key_id, pending_data_key_id")
+        .eq("user_id", session.user.id)
+        .maybeSingle();
+
+      if (!profile || unlocked.keyId !== (profile.data_key_id ?? "") || profile.pending_data_key_id) {
+        throw new Error("This passkey predates your last password change. Unlock with your password and register it again.");
+      }
+      return unlocked;
+    });
+    setEmail(email ?? session.user.email ?? null);
+  };
+
+  const registerPasskey = async (password: string, label: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session || !email) {
+      throw new Error("Session expired. Please log out and log back in.");
+    }
+
+    const { dataKey, dataKeyId } = await loadAccountKeys(session.user.id, email, password);
+    await registerAccountPasskey(session.user.id, email, dataKey, dataKeyId, label);
+  };
+
+  const setAutoLockMinutes = (minutes: number) => {
+    localStorage.setItem(AUTO_LOCK_STORAGE_KEY, minutes.toString());
+    setAutoLockMinutesState(minutes);
+  };
+
+  const encryptField = (value: string, field: FieldBinding) => cryptoService.encryptField(value, field);
+  const decryptField = (value: string, field: FieldBinding) => cryptoService.decryptField(value, field);
+  const encryptRecord = <T extends RecordTable>(table: T, rowId: string, record: RecordTypes[T]) =>
+    cryptoService.encryptRecord(table, rowId, record);
+  const decryptRecord = <T extends RecordTable>(table: T, row: { id: string }) => cryptoService.decryptRecord(table, row);
+  const decryptFields = (items: { value: string; field: FieldBinding }[]) => cryptoService.decryptFields(items);
+  const decryptRecords = <T extends RecordTable>(table: T, rows: { id: string }[]) => cryptoService.decryptRecords(table, rows);
+  const upgradeRow = (table: EncryptedTable, row: { id: string }) => cryptoService.upgradeRow(table, row);
+  const subscribe = (listener: CryptoLifecycleListener) => cryptoService.subscribe(listener);
+
+  const retryQuarantined = async (password: string): Promise<number> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const userEmail = email ?? session?.user.email ?? null;
+    if (!session || !userEmail) {
+      throw new Error("Session expired. Please log out and log back in.");
+    }
+
+    const keys = await deriveAlternateKeys(session.user.id, userEmail, password);
+    return cryptoService.repairQuarantined(keys);
   };
 
   const value = {
-    encryptionKey,
+    status,
+    error,
+    subscribe,
     pseudonymId,
     email,
-    isReady,
-    keyReady,
-    encrypt,
-    decrypt,
+    encryptField,
+    decryptField,
+    encryptRecord,
+    decryptRecord,
+    decryptFields,
+    decryptRecords,
+    upgradeRow,
+    quarantined,
+    retryQuarantined,
+    deleteQuarantined: deleteQuarantinedRow,
     initializeEncryption,
+    changePassword,
+    changeEmail,
+    rotationProgress,
+    rotatePseudonym,
+    needsRecoveryKit,
+    createRecoveryKit,
+    lock,
+    unlockWithPassword,
+    unlockWithPin,
+    pinAttemptsLeft,
+    setUnlockPin,
+    clearUnlockPin,
+    unlockWithPasskey,
+    registerPasskey,
+    autoLockMinutes,
+    setAutoLockMinutes,
   };
 
   return (
@@ -0,0 +1,62 @@
+import { useEffect, useRef } from "react";
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "touchstart", "scroll"] as const;
+// Activity only restarts the timer this often, so mousemove does not reschedule constantly
+const ACTIVITY_THROTTLE_MS = 1000;
+
+/**
+ * Calls onLock after timeoutMs without user activity, or when the tab comes back
+ * after being hidden for at least timeoutMs (timers are throttled in hidden tabs)
+ * Disabled while timeoutMs is 0 or enabled is false
+ */
+export const useAutoLock = (timeoutMs: number, enabled: boolean, onLock: () => void) => {
+  const onLockRef = useRef(onLock);
+  onLockRef.current = onLock;
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let lastActivity = Date.now();
+    let hiddenAt: number | null = null;
+
+    const restart = () => {
+      lastActivity = Date.now();
+      clearTimeout(timer);
+      timer = setTimeout(() => onLockRef.current(), timeoutMs);
+    };
+
+    const handleActivity = () => {
+      if (Date.now() - lastActivity >= ACTIVITY_THROTTLE_MS) {
+        restart();
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") {
+        hiddenAt = Date.now();
+        return;
+      }
+      if (hiddenAt !== null && Date.now() - hiddenAt >= timeoutMs) {
+        onLockRef.current();
+      } else {
+        restart();
+      }
+      hiddenAt = null;
+    };
+
+    restart();
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, handleActivity, { passive: true });
+    }
+    document.addEventListener("visibilitychange", handleVisibility);
+
+    return () => {
+      clearTimeout(timer);
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, handleActivity);
+      }
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [timeoutMs, enabled]);
+};
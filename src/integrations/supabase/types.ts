@@ -47,37 +47,40 @@ export type Database = {
       calendar_events: {
         Row: {
           encrypted_color: string | null
-          encrypted_created_at: string
-          encrypted_date: string
+          encrypted_created_at: string | null
+          encrypted_date: string | null
           encrypted_description: string | null
           encrypted_end_time: string | null
+          encrypted_payload: string | null
           encrypted_repeat_days: string | null
-          encrypted_time: string
-          encrypted_title: string
+          encrypted_time: string | null
+          encrypted_title: string | null
           id: string
           pseudonym_id: string
         }
         Insert: {
           encrypted_color?: string | null
-          encrypted_created_at: string
-          encrypted_date: string
+          encrypted_created_at?: string | null
+          encrypted_date?: string | null
           encrypted_description?: string | null
           encrypted_end_time?: string | null
+          encrypted_payload?: string | null
           encrypted_repeat_days?: string | null
-          encrypted_time: string
-          encrypted_title: string
+          encrypted_time?: string | null
+          encrypted_title?: string | null
           id?: string
           pseudonym_id: string
         }
         Update: {
           encrypted_color?: string | null
-          encrypted_created_at?: string
-          encrypted_date?: string
+          encrypted_created_at?: string | null
+          encrypted_date?: string | null
           encrypted_description?: string | null
           encrypted_end_time?: string | null
+          encrypted_payload?: string | null
           encrypted_repeat_days?: string | null
-          encrypted_time?: string
-          encrypted_title?: string
+          encrypted_time?: string | null
+          encrypted_title?: string | null
           id?: string
           pseudonym_id?: string
         }
@@ -94,9 +97,10 @@ export type Database = {
       checklist_reminders: {
         Row: {
           checklist_id: string
-          encrypted_completed: string
-          encrypted_created_at: string
-          encrypted_text: string
+          encrypted_completed: string | null
+          encrypted_created_at: string | null
+          encrypted_payload: string | null
+          encrypted_text: string | null
           id: string
           source_date: string | null
           source_id: string | null
@@ -104,9 +108,10 @@ export type Database = {
         }
         Insert: {
           checklist_id: string
-          encrypted_completed: string
-          encrypted_created_at: string
-          encrypted_text: string
+          encrypted_completed?: string | null
+          encrypted_created_at?: string | null
+          encrypted_payload?: string | null
+          encrypted_text?: string | null
           id?: string
           source_date?: string | null
           source_id?: string | null
@@ -114,9 +119,10 @@ export type Database = {
         }
         Update: {
           checklist_id?: string
-          encrypted_completed?: string
-          encrypted_created_at?: string
-          encrypted_text?: string
+          encrypted_completed?: string | null
+          encrypted_created_at?: string | null
+          encrypted_payload?: string | null
+          encrypted_text?: string | null
           id?: string
           source_date?: string | null
           source_id?: string | null
@@ -163,26 +169,29 @@ export type Database = {
       }
       chores: {
         Row: {
-          encrypted_created_at: string
-          encrypted_name: string
-          encrypted_period: string
-          encrypted_updated_at: string
+          encrypted_created_at: string | null
+          encrypted_name: string | null
+          encrypted_payload: string | null
+          encrypted_period: string | null
+          encrypted_updated_at: string | null
           id: string
           pseudonym_id: string
         }
         Insert: {
-          encrypted_created_at: string
-          encrypted_name: string
-          encrypted_period: string
-          encrypted_updated_at: string
+          encrypted_created_at?: string | null
+          encrypted_name?: string | null
+          encrypted_payload?: string | null
+          encrypted_period?: string | null
+          encrypted_updated_at?: string | null
           id?: string
           pseudonym_id: string
         }
         Update: {
-          encrypted_created_at?: string
-          encrypted_name?: string
-          encrypted_period?: string
-          encrypted_updated_at?: string
+          encrypted_created_at?: string | null
+          encrypted_name?: string | null
+          encrypted_payload?: string | null
+          encrypted_period?: string | null
+          encrypted_updated_at?: string | null
           id?: string
           pseudonym_id?: string
         }
@@ -196,6 +205,56 @@ export type Database = {
           },
         ]
       }
+      credential_changes: {
+        Row: {
+          credential_fingerprint: string
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          credential_fingerprint: string
+          started_at?: string
+          user_id: string
+        }
+        Update: {
+          credential_fingerprint?: string
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      device_sessions: {
+        Row: {
+          created_at: string
+          encrypted_label: string
+          id: string
+          pseudonym_id: string
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          encrypted_label: string
+          id?: string
+          pseudonym_id: string
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          encrypted_label?: string
+          id?: string
+          pseudonym_id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_sessions_pseudonym_id_fkey"
+            columns: ["pseudonym_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["pseudonym_id"]
+          },
+        ]
+      }
       failed_auth_attempts: {
         Row: {
           attempt_time: string
@@ -274,6 +333,7 @@ export type Database = {
           operation: string
           previous_hash: string | null
           record_id: string | null
+          redacted_at: string | null
           session_id: string | null
           table_name: string
         }
@@ -289,6 +349,7 @@ export type Database = {
           operation: string
           previous_hash?: string | null
           record_id?: string | null
+          redacted_at?: string | null
           session_id?: string | null
           table_name: string
         }
@@ -304,35 +365,138 @@ export type Database = {
           operation?: string
           previous_hash?: string | null
           record_id?: string | null
+          redacted_at?: string | null
           session_id?: string | null
           table_name?: string
         }
         Relationships: []
       }
+      mfa_backup_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      passkey_wraps: {
+        Row: {
+          created_at: string
+          credential_id: string
+          data_key_id: string
+          id: string
+          label: string
+          prf_salt: string
+          user_id: string
+          wrapped_data_key: string
+        }
+        Insert: {
+          created_at?: string
+          credential_id: string
+          data_key_id: string
+          id?: string
+          label: string
+          prf_salt: string
+          user_id: string
+          wrapped_data_key: string
+        }
+        Update: {
+          created_at?: string
+          credential_id?: string
+          data_key_id?: string
+          id?: string
+          label?: string
+          prf_salt?: string
+          user_id?: string
+          wrapped_data_key?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
+          data_key_id: string | null
           encrypted_email: string | null
+          encrypted_mfa_backup_codes: string | null
+          envelope_min_version: string | null
           id: string
+          kdf_params: Json
+          legacy_derived_key: boolean
+          pending_data_key_id: string | null
+          pending_wrapped_data_key: string | null
+          previous_wrapped_data_key: string | null
+          previous_kdf_params: Json | null
           pseudonym_id: string
+          recovery_key_escrow: string | null
+          recovery_pending_wrapped_data_key: string | null
+          recovery_verifier: string | null
+          recovery_wrapped_data_key: string | null
+          srp_salt: string | null
+          srp_verifier: string | null
           updated_at: string
           user_id: string
+          wrapped_data_key: string | null
         }
         Insert: {
           created_at?: string
+          data_key_id?: string | null
           encrypted_email?: string | null
+          encrypted_mfa_backup_codes?: string | null
+          envelope_min_version?: string | null
           id?: string
+          kdf_params?: Json
+          legacy_derived_key?: boolean
+          pending_data_key_id?: string | null
+          pending_wrapped_data_key?: string | null
+          previous_wrapped_data_key?: string | null
+          previous_kdf_params?: Json | null
           pseudonym_id?: string
+          recovery_key_escrow?: string | null
+          recovery_pending_wrapped_data_key?: string | null
+          recovery_verifier?: string | null
+          recovery_wrapped_data_key?: string | null
+          srp_salt?: string | null
+          srp_verifier?: string | null
           updated_at?: string
           user_id: string
+          wrapped_data_key?: string | null
         }
         Update: {
           created_at?: string
+          data_key_id?: string | null
           encrypted_email?: string | null
+          encrypted_mfa_backup_codes?: string | null
+          envelope_min_version?: string | null
           id?: string
+          kdf_params?: Json
+          legacy_derived_key?: boolean
+          pending_data_key_id?: string | null
+          pending_wrapped_data_key?: string | null
+          previous_wrapped_data_key?: string | null
+          previous_kdf_params?: Json | null
           pseudonym_id?: string
+          recovery_key_escrow?: string | null
+          recovery_pending_wrapped_data_key?: string | null
+          recovery_verifier?: string | null
+          recovery_wrapped_data_key?: string | null
+          srp_salt?: string | null
+          srp_verifier?: string | null
           updated_at?: string
           user_id?: string
+          wrapped_data_key?: string | null
         }
         Relationships: []
       }
@@ -414,6 +578,60 @@ export type Database = {
         }
         Relationships: []
       }
+      server_secrets: {
+        Row: {
+          created_at: string
+          name: string
+          value: string
+        }
+        Insert: {
+          created_at?: string
+          name: string
+          value: string
+        }
+        Update: {
+          created_at?: string
+          name?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      srp_sessions: {
+        Row: {
+          client_public: string
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          purpose: string
+          server_public: string
+          server_secret: string
+          user_id: string | null
+        }
+        Insert: {
+          client_public: string
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          purpose?: string
+          server_public: string
+          server_secret: string
+          user_id?: string | null
+        }
+        Update: {
+          client_public?: string
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          purpose?: string
+          server_public?: string
+          server_secret?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -456,6 +674,7 @@ export type Database = {
         }
         Returns: string
       }
+      begin_credential_change: { Args: never; Returns: undefined }
       check_bulk_operation_alert: {
         Args: never
         Returns: {
@@ -466,6 +685,7 @@ export type Database = {
           time_window_seconds: number
         }[]
       }
+      complete_envelope_migration: { Args: never; Returns: string }
       compute_audit_hash: {
         Args: {
           p_chain_position: number
@@ -480,6 +700,12 @@ export type Database = {
         }
         Returns: string
       }
+      count_account_audit_entries: { Args: { p_email: string }; Returns: number }
+      credential_change_status: { Args: never; Returns: string }
+      delete_account_auth_attempts: { Args: { p_email: string }; Returns: number }
+      end_credential_change: { Args: never; Returns: undefined }
+      get_kdf_params: { Args: { p_email: string }; Returns: Json }
+      get_user_id_by_email: { Args: { p_email: string }; Returns: string }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -487,6 +713,25 @@ export type Database = {
         }
         Returns: boolean
       }
+      list_sessions: {
+        Args: never
+        Returns: {
+          aal: string
+          created_at: string
+          id: string
+          last_seen_at: string
+        }[]
+      }
+      mfa_satisfied: { Args: never; Returns: boolean }
+      revoke_session: { Args: { p_session_id: string }; Returns: boolean }
+      rotate_pseudonym: {
+        Args: { p_new_pseudonym_id: string; p_rows: Json }
+        Returns: undefined
+      }
+      set_mfa_backup_codes: {
+        Args: { p_code_hashes: string[]; p_encrypted_codes: string }
+        Returns: undefined
+      }
       verify_audit_chain_integrity: {
         Args: never
         Returns: {
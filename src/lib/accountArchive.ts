@@ -0,0 +1,479 @@
+// Full-account export and import
+// An archive is one versioned JSON file with every chore, calendar event, checklist and
+// reminder in plaintext form, optionally encrypted with a passphrase (Argon2id + AES-GCM)
+// It never contains the account data key: an import re-encrypts everything under the
+// importing account's key and skips items that already exist, matched by content hash,
+// so an interrupted import can simply be run again
+
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { EncryptionService } from "@/lib/encryption";
+import { bindFields } from "@/lib/encryptedTables";
+import { calibrateArgon2id, KdfParams, parseKdfParams } from "@/lib/kdf";
+import { cryptoService } from "@/lib/cryptoService";
+import { emailField } from "@/lib/accountEmail";
+import { CalendarEventRecord, ChoreRecord, parseRecord, ReminderRecord } from "@/lib/recordCodec";
+
+const ARCHIVE_FORMAT = "stand-archive";
+// 2: the passphrase is NFKC-normalized before derivation; version 1 files used it as typed
+const ARCHIVE_VERSION = 2;
+const ARCHIVE_ALG = "A256GCM";
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const IMPORT_BATCH_SIZE = 200;
+// Left out of content hashes - copies of the same item differ only in these
+const TIMESTAMP_FIELDS = ["createdAt", "updatedAt"];
+
+// Original ids are kept so imported reminders can point at their chore or event again
+export interface ArchivedChore extends ChoreRecord {
+  id: string;
+}
+
+export interface ArchivedEvent extends CalendarEventRecord {
+  id: string;
+}
+
+export interface ArchivedReminder extends ReminderRecord {
+  source: { type: string | null; id: string | null; date: string | null } | null;
+}
+
+export interface ArchivedChecklist {
+  id: string;
+  name: string;
+  createdAt: string;
+  reminders: ArchivedReminder[];
+}
+
+export interface ArchiveData {
+  accountEmail?: string | null; // Email of the exporting account, from profiles.encrypted_email
+  chores: ArchivedChore[];
+  calendarEvents: ArchivedEvent[];
+  checklists: ArchivedChecklist[];
+}
+
+export interface ExportResult {
+  file: string;
+  items: number;
+  skipped: number; // Rows that could not be decrypted - they are in the quarantine, not the archive
+}
+
+export interface ImportResult {
+  imported: number;
+  duplicates: number;
+}
+
+const encryptionHeaderSchema = z.object({
+  alg: z.string(),
+  kdf: z.unknown(),
+  salt: z.string(),
+  iv: z.string(),
+});
+
+const archiveFileSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  encryption: encryptionHeaderSchema.nullable(),
+  data: z.unknown().optional(), // Plaintext archives
+  payload: z.string().optional(), // Encrypted archives: AES-GCM ciphertext of the data JSON
+});
+
+const withId = z.object({ id: z.string() }).passthrough();
+
+const archiveDataSchema = z.object({
+  accountEmail: z.string().nullable().optional(),
+  chores: z.array(withId),
+  calendarEvents: z.array(withId),
+  checklists: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      createdAt: z.string(),
+      reminders: z.array(
+        z.object({
+          source: z
+            .object({ type: z.string().nullable(), id: z.string().nullable(), date: z.string().nullable() })
+            .nullable(),
+        }).passthrough()
+      ),
+    })
+  ),
+});
+
+type ArchiveHeader = Pick<z.infer<typeof archiveFileSchema>, "format" | "version" | "exportedAt" | "encryption">;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Chunked, so large archives do not overflow the argument limit of fromCharCode
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// JSON with sorted keys, so equal content always serializes (and hashes) the same way
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function contentHash(item: object, ignore: string[] = []): Promise<string> {
+  const content = Object.fromEntries(
+    Object.entries(item).filter(([key]) => !TIMESTAMP_FIELDS.includes(key) && !ignore.includes(key))
+  );
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(canonicalJson(content)));
+  return toBase64(new Uint8Array(digest));
+}
+
+// The whole header is authenticated, so its KDF parameters cannot be swapped
+const headerAssociatedData = (header: ArchiveHeader) => encoder.encode(canonicalJson(header));
+
+/**
+ * Reads and decrypts every item of the account
+ * Rows that fail to decrypt are left out - the crypto service quarantines them
+ */
+async function readAccountData(pseudonymId: string): Promise<{ data: ArchiveData; skipped: number }> {
+  const [chores, events, checklists, profile] = await Promise.all([
+    supabase.from("chores").select("*").eq("pseudonym_id", pseudonymId),
+    supabase.from("calendar_events").select("*").eq("pseudonym_id", pseudonymId),
+    supabase.from("checklists").select("*, checklist_reminders(*)").eq("pseudonym_id", pseudonymId),
+    supabase.from("profiles").select("id, encrypted_email").eq("pseudonym_id", pseudonymId).single(),
+  ]);
+
+  if (chores.error || events.error || checklists.error || profile.error) {
+    throw new Error("Could not load your data");
+  }
+
+  const accountEmail = profile.data.encrypted_email
+    ? await cryptoService.decryptField(profile.data.encrypted_email, emailField(profile.data.id)).catch(() => null)
+    : null;
+
+  const choreRecords = await cryptoService.decryptRecords("chores", chores.data);
+  const eventRecords = await cryptoService.decryptRecords("calendar_events", events.data);
+  const checklistFields = await cryptoService.decryptFields(
+    checklists.data.flatMap((c) => {
+      const field = bindFields("checklists", c.id);
+      return [
+        { value: c.encrypted_name, field: field("encrypted_name") },
+        { value: c.encrypted_created_at, field: field("encrypted_created_at") },
+      ];
+    })
+  );
+  const reminderRows = checklists.data.flatMap((c) => c.checklist_reminders);
+  const reminderRecords = await cryptoService.decryptRecords("checklist_reminders", reminderRows);
+  const remindersById = new Map(reminderRows.map((r, index) => [r.id, reminderRecords[index]]));
+
+  let skipped = 0;
+  const data: ArchiveData = { accountEmail, chores: [], calendarEvents: [], checklists: [] };
+
+  chores.data.forEach((c, index) => {
+    const record = choreRecords[index];
+    if (record) data.chores.push({ ...record, id: c.id });
+    else skipped++;
+  });
+
+  events.data.forEach((e, index) => {
+    const record = eventRecords[index];
+    if (record) data.calendarEvents.push({ ...record, id: e.id });
+    else skipped++;
+  });
+
+  checklists.data.forEach((c, index) => {
+    const name = checklistFields[index * 2];
+    const createdAt = checklistFields[index * 2 + 1];
+    if (name === null || createdAt === null) {
+      skipped++;
+      return;
+    }
+
+    const reminders: ArchivedReminder[] = [];
+    for (const r of c.checklist_reminders) {
+      const record = remindersById.get(r.id);
+      if (!record) {
+        skipped++;
+        continue;
+      }
+      const source = r.source_type || r.source_id || r.source_date
+        ? { type: r.source_type, id: r.source_id, date: r.source_date }
+        : null;
+      reminders.push({ ...record, source });
+    }
+    data.checklists.push({ id: c.id, name, createdAt, reminders });
+  });
+
+  return { data, skipped };
+}
+
+const countItems = (data: ArchiveData) =>
+  data.chores.length +
+  data.calendarEvents.length +
+  data.checklists.reduce((total, checklist) => total + 1 + checklist.reminders.length, 0);
+
+/**
+ * Builds the archive file for the signed-in account
+ * With a passphrase the data is encrypted under a key derived with freshly calibrated Argon2id
+ */
+export async function exportArchive(pseudonymId: string, passphrase: string | null): Promise<ExportResult> {
+  const { data, skipped } = await readAccountData(pseudonymId);
+  const exportedAt = new Date().toISOString();
+
+  if (!passphrase) {
+    const file = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt, encryption: null, data };
+    return { file: JSON.stringify(file, null, 2), items: countItems(data), skipped };
+  }
+
+  const kdf: KdfParams = await calibrateArgon2id();
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const header: ArchiveHeader = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt,
+    encryption: { alg: ARCHIVE_ALG, kdf, salt, iv: toBase64(iv) },
+  };
+
+  const key = await EncryptionService.deriveKey(passphrase, salt, kdf);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: headerAssociatedData(header) },
+    key,
+    encoder.encode(JSON.stringify(data))
+  );
+
+  const file = { ...header, payload: toBase64(new Uint8Array(ciphertext)) };
+  return { file: JSON.stringify(file), items: countItems(data), skipped };
+}
+
+function parseArchiveFile(text: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error("This file is not a STAND archive");
+  }
+
+  const file = archiveFileSchema.safeParse(parsed);
+  if (!file.success) {
+    throw new Error("This file is not a STAND archive");
+  }
+  if (file.data.version > ARCHIVE_VERSION) {
+    throw new Error("This archive was made by a newer version of STAND");
+  }
+  return file.data;
+}
+
+/**
+ * True when the archive needs a passphrase to open
+ */
+export function isEncryptedArchive(text: string): boolean {
+  return parseArchiveFile(text).encryption !== null;
+}
+
+/**
+ * Opens an archive file and validates every item in it
+ */
+export async function readArchive(text: string, passphrase: string | null): Promise<ArchiveData> {
+  const file = parseArchiveFile(text);
+  let data = file.data;
+
+  if (file.encryption) {
+    if (!passphrase) {
+      throw new Error("This archive is encrypted. Enter its passphrase.");
+    }
+    if (file.encryption.alg !== ARCHIVE_ALG || !file.payload) {
+      throw new Error("Unsupported archive encryption");
+    }
+
+    const header: ArchiveHeader = {
+      format: file.format,
+      version: file.version,
+      exportedAt: file.exportedAt,
+      encryption: file.encryption,
+    };
+    const key = await EncryptionService.deriveKey(
+      passphrase,
+      file.encryption.salt,
+      parseKdfParams(file.encryption.kdf),
+      file.version >= 2
+    );
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(file.encryption.iv), additionalData: headerAssociatedData(header) },
+        key,
+        fromBase64(file.payload)
+      );
+      data = JSON.parse(decoder.decode(plaintext));
+    } catch (error) {
+      throw new Error("Wrong passphrase or damaged archive");
+    }
+  }
+
+  try {
+    const archive = archiveDataSchema.parse(data);
+    return {
+      accountEmail: archive.accountEmail ?? null,
+      chores: archive.chores.map((c) => ({ ...parseRecord("chores", c), id: c.id })),
+      calendarEvents: archive.calendarEvents.map((e) => ({ ...parseRecord("calendar_events", e), id: e.id })),
+      checklists: archive.checklists.map((c) => ({
+        id: c.id,
+        name: c.name,
+        createdAt: c.createdAt,
+        reminders: c.reminders.map((r) => ({
+          ...parseRecord("checklist_reminders", r),
+          source: r.source ? { type: r.source.type ?? null, id: r.source.id ?? null, date: r.source.date ?? null } : null,
+        })),
+      })),
+    };
+  } catch (error) {
+    throw new Error("The archive contents are invalid");
+  }
+}
+
+async function insertInBatches<T>(rows: T[], insert: (batch: T[]) => PromiseLike<{ error: unknown }>): Promise<void> {
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const { error } = await insert(rows.slice(i, i + IMPORT_BATCH_SIZE));
+    if (error) {
+      throw new Error("Could not import your data");
+    }
+  }
+}
+
+/**
+ * Restores an archive into the signed-in account, encrypted under its data key
+ * Items whose content already exists (here or earlier in the archive) are skipped;
+ * reminders keep their link to the imported chore or event
+ */
+export async function importArchive(pseudonymId: string, archive: ArchiveData): Promise<ImportResult> {
+  const { data: existing } = await readAccountData(pseudonymId);
+  let imported = 0;
+  let duplicates = 0;
+
+  // Original id -> id in this account, for reminder sources
+  const choreIds = new Map<string, string>();
+  const choreHashes = new Map<string, string>();
+  for (const chore of existing.chores) {
+    const { id, ...record } = chore;
+    choreHashes.set(await contentHash(record), id);
+  }
+  const choreRows = [];
+  for (const chore of archive.chores) {
+    const { id: archivedId, ...record } = chore;
+    const hash = await contentHash(record);
+    const existingId = choreHashes.get(hash);
+    if (existingId) {
+      choreIds.set(archivedId, existingId);
+      duplicates++;
+      continue;
+    }
+    const id = crypto.randomUUID();
+    choreIds.set(archivedId, id);
+    choreHashes.set(hash, id);
+    choreRows.push({ id, pseudonym_id: pseudonymId, encrypted_payload: await cryptoService.encryptRecord("chores", id, record) });
+  }
+  await insertInBatches(choreRows, (batch) => supabase.from("chores").insert(batch));
+  imported += choreRows.length;
+
+  const eventIds = new Map<string, string>();
+  const eventHashes = new Map<string, string>();
+  for (const event of existing.calendarEvents) {
+    const { id, ...record } = event;
+    eventHashes.set(await contentHash(record), id);
+  }
+  const eventRows = [];
+  for (const event of archive.calendarEvents) {
+    const { id: archivedId, ...record } = event;
+    const hash = await contentHash(record);
+    const existingId = eventHashes.get(hash);
+    if (existingId) {
+      eventIds.set(archivedId, existingId);
+      duplicates++;
+      continue;
+    }
+    const id = crypto.randomUUID();
+    eventIds.set(archivedId, id);
+    eventHashes.set(hash, id);
+    eventRows.push({
+      id,
+      pseudonym_id: pseudonymId,
+      encrypted_payload: await cryptoService.encryptRecord("calendar_events", id, record),
+    });
+  }
+  await insertInBatches(eventRows, (batch) => supabase.from("calendar_events").insert(batch));
+  imported += eventRows.length;
+
+  // Checklists match by name; their reminders match by text within the checklist
+  const checklistsByHash = new Map<string, { id: string; reminderHashes: Set<string> }>();
+  for (const checklist of existing.checklists) {
+    const reminderHashes = new Set<string>();
+    for (const reminder of checklist.reminders) {
+      reminderHashes.add(await contentHash(reminder, ["completed", "source"]));
+    }
+    checklistsByHash.set(await contentHash({ name: checklist.name }), { id: checklist.id, reminderHashes });
+  }
+
+  const checklistRows = [];
+  const reminderRows = [];
+  for (const checklist of archive.checklists) {
+    const hash = await contentHash({ name: checklist.name });
+    let target = checklistsByHash.get(hash);
+    if (target) {
+      duplicates++;
+    } else {
+      const id = crypto.randomUUID();
+      const field = bindFields("checklists", id);
+      checklistRows.push({
+        id,
+        pseudonym_id: pseudonymId,
+        encrypted_name: await cryptoService.encryptField(checklist.name, field("encrypted_name")),
+        encrypted_created_at: await cryptoService.encryptField(checklist.createdAt, field("encrypted_created_at")),
+      });
+      target = { id, reminderHashes: new Set() };
+      checklistsByHash.set(hash, target);
+    }
+
+    for (const reminder of checklist.reminders) {
+      const { source, ...record } = reminder;
+      const reminderHash = await contentHash(reminder, ["completed", "source"]);
+      if (target.reminderHashes.has(reminderHash)) {
+        duplicates++;
+        continue;
+      }
+      target.reminderHashes.add(reminderHash);
+
+      const sourceIds = source?.type === "chore" ? choreIds : eventIds;
+      const id = crypto.randomUUID();
+      reminderRows.push({
+        id,
+        checklist_id: target.id,
+        encrypted_payload: await cryptoService.encryptRecord("checklist_reminders", id, record),
+        source_type: source?.type ?? null,
+        source_id: source?.id ? sourceIds.get(source.id) ?? null : null,
+        source_date: source?.date ?? null,
+      });
+    }
+  }
+  await insertInBatches(checklistRows, (batch) => supabase.from("checklists").insert(batch));
+  await insertInBatches(reminderRows, (batch) => supabase.from("checklist_reminders").insert(batch));
+  imported += checklistRows.length + reminderRows.length;
+
+  return { imported, duplicates };
+}
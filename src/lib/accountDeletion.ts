@@ -0,0 +1,70 @@
+// Self-service account deletion - the delete-account edge function wipes every row tied to the
+// account, re-counts to confirm nothing is left, and returns an Ed25519-signed receipt
+
+import { supabase } from "@/integrations/supabase/client";
+import { reauthenticate } from "@/lib/keyManagement";
+
+// Must match CONFIRMATION_PHRASE in the edge function
+export const DELETION_CONFIRMATION_PHRASE = "DELETE MY ACCOUNT";
+
+export interface DeletionReceipt {
+  version: 1;
+  subject: string; // SHA-256 of the auth user id
+  deletedAt: string;
+  deleted: Record<string, number>; // Rows removed per table
+  remaining: Record<string, number>; // Re-counted after deletion - all zero
+}
+
+// What the user downloads: the receipt exactly as signed, plus what is needed to check it
+export interface SignedDeletionReceipt {
+  receipt: string;
+  signature: string;
+  algorithm: "Ed25519";
+  publicKey: string;
+}
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+/**
+ * Permanently deletes the signed-in account and all of its data
+ * The Supabase session is invalid afterwards; the caller signs out locally
+ */
+export async function deleteAccount(email: string, password: string, totpCode?: string): Promise<SignedDeletionReceipt> {
+  const passwordProof = await reauthenticate(email, password, totpCode);
+
+  const { data, error } = await supabase.functions.invoke("delete-account", {
+    body: { confirmation: DELETION_CONFIRMATION_PHRASE, passwordProof },
+  });
+
+  if (error || !data?.receipt || !data.signature) {
+    throw new Error("Account deletion failed. Check your password and try again.");
+  }
+
+  return data as SignedDeletionReceipt;
+}
+
+export function parseDeletionReceipt(signed: SignedDeletionReceipt): DeletionReceipt {
+  return JSON.parse(signed.receipt) as DeletionReceipt;
+}
+
+/**
+ * Checks the receipt signature against a public key
+ * Pass the published key rather than the one embedded in the receipt for an independent check
+ * Returns false when the browser has no Ed25519 support
+ */
+export async function verifyDeletionReceipt(
+  signed: SignedDeletionReceipt,
+  publicKey: string = signed.publicKey
+): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey("raw", fromBase64(publicKey), { name: "Ed25519" }, false, ["verify"]);
+    return await crypto.subtle.verify(
+      "Ed25519",
+      key,
+      fromBase64(signed.signature),
+      new TextEncoder().encode(signed.receipt)
+    );
+  } catch (error) {
+    return false;
+  }
+}
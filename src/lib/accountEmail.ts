@@ -0,0 +1,62 @@
+// The account email, encrypted under the data key in profiles.encrypted_email
+// Lets an unlock that did not type the email (passkey, PIN, remembered device) recover it,
+// without the server holding it anywhere but Supabase auth
+
+import { supabase } from "@/integrations/supabase/client";
+import { bindFields, FieldBinding } from "@/lib/encryptedTables";
+import { cryptoService } from "@/lib/cryptoService";
+
+export const emailField = (profileId: string): FieldBinding => bindFields("profiles", profileId)("encrypted_email");
+
+async function loadProfile(userId: string) {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("id, encrypted_email")
+    .eq("user_id", userId)
+    .single();
+
+  if (error) {
+    throw new Error("Profile not available");
+  }
+  return profile;
+}
+
+/**
+ * Decrypts the stored account email; null when none has been stored or it does not decrypt
+ */
+export async function loadAccountEmail(userId: string): Promise<string | null> {
+  const profile = await loadProfile(userId);
+  if (!profile.encrypted_email) return null;
+
+  try {
+    return await cryptoService.decryptField(profile.encrypted_email, emailField(profile.id));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Stores the email unless the profile already holds it - written on the first login after unlock
+ */
+export async function storeAccountEmail(userId: string, email: string): Promise<void> {
+  const normalizedEmail = email.toLowerCase().trim();
+  const profile = await loadProfile(userId);
+
+  if (profile.encrypted_email) {
+    try {
+      const stored = await cryptoService.decryptField(profile.encrypted_email, emailField(profile.id));
+      if (stored === normalizedEmail) return;
+    } catch (error) {
+      // Unreadable (written under a key this session does not hold) - replace it
+    }
+  }
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({ encrypted_email: await cryptoService.encryptField(normalizedEmail, emailField(profile.id)) })
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error("Could not store the encrypted email");
+  }
+}
@@ -0,0 +1,74 @@
+// Dedicated worker for bulk decryption, so loading a large history does not block the UI
+// The data key is sent once per session (CryptoKey is structured-cloneable, even when
+// non-extractable); requests then carry only ciphertexts and their bindings
+// There is no clear message: locking terminates the worker, which discards the key with it
+
+import { CiphertextBinding, EncryptionService } from "@/lib/encryption";
+import { decodeRecord, RecordTable, RecordTypes } from "@/lib/recordCodec";
+import { DecryptResult, settleDecrypt } from "@/lib/decryptResult";
+
+export interface FieldDecryptRequest {
+  value: string;
+  binding?: CiphertextBinding;
+}
+
+export type CryptoWorkerRequest =
+  | { type: "setKey"; key: CryptoKey }
+  | { type: "decryptFields"; requestId: number; items: FieldDecryptRequest[]; minVersion: string | null }
+  | {
+      type: "decryptRecords";
+      requestId: number;
+      table: RecordTable;
+      rows: { id: string }[];
+      pseudonymId: string;
+      minVersion: string | null;
+    };
+
+// Results are in request order, one outcome per value
+export interface CryptoWorkerResponse {
+  requestId: number;
+  results?: DecryptResult<string | RecordTypes[RecordTable]>[];
+  error?: string;
+}
+
+let key: CryptoKey | null = null;
+
+const handleRequest = async (request: CryptoWorkerRequest): Promise<CryptoWorkerResponse | null> => {
+  if (request.type === "setKey") {
+    key = request.key;
+    return null;
+  }
+
+  const dataKey = key;
+  if (!dataKey) {
+    return { requestId: request.requestId, error: "Encryption key not available" };
+  }
+
+  if (request.type === "decryptFields") {
+    const results = await Promise.all(
+      request.items.map(({ value, binding }) =>
+        settleDecrypt(() => EncryptionService.decrypt(value, dataKey, undefined, binding, request.minVersion))
+      )
+    );
+    return { requestId: request.requestId, results };
+  }
+
+  const { table, rows, pseudonymId, minVersion } = request;
+  const results = await Promise.all(
+    rows.map((row) =>
+      settleDecrypt(() =>
+        decodeRecord(table, row, (value, field) =>
+          EncryptionService.decrypt(value, dataKey, undefined, { ...field, pseudonymId }, minVersion)
+        )
+      )
+    )
+  );
+  return { requestId: request.requestId, results };
+};
+
+self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
+  const response = await handleRequest(event.data);
+  if (response) {
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,274 @@
+// Typed crypto service - the single owner of the session key
+// EncryptionContext drives the lifecycle (unlock, lock, sign-out); sections only see
+// encryptField/decryptField/encryptRecord/decryptRecord through useEncryption()
+//
+// Status:
+//   locked    - no key in memory (signed out, auto-locked, or refreshed without a remembered key)
+//   unlocking - a key is being derived or unwrapped (also the initial session check)
+//   ready     - the key is loaded; every operation works
+//   error     - the last unlock failed; the key is cleared and unlocking can be retried
+
+import { EncryptionService, CiphertextBinding } from "@/lib/encryption";
+import { EncryptedTable, FieldBinding } from "@/lib/encryptedTables";
+import { decodeRecord, encodeRecord, isRecordTable, PAYLOAD_COLUMN, RecordTable, RecordTypes } from "@/lib/recordCodec";
+import { clearWorkerKey, decryptFieldsInWorker, decryptRecordsInWorker, setWorkerKey } from "@/lib/cryptoWorker";
+import { scheduleEnvelopeUpgrade, clearEnvelopeUpgrades, rewriteRow } from "@/lib/envelopeMigrator";
+import { encryptedValues, quarantine, QuarantineCandidate, QuarantinedRow } from "@/lib/quarantine";
+
+export type CryptoStatus = "locked" | "unlocking" | "ready" | "error";
+
+export interface CryptoLifecycleEvent {
+  status: CryptoStatus;
+  previous: CryptoStatus;
+  error: Error | null; // Set when status is "error"
+}
+
+export type CryptoLifecycleListener = (event: CryptoLifecycleEvent) => void;
+
+const KEY_UNAVAILABLE = "Encryption key not available. Please log out and log back in.";
+const SESSION_DATA_MISSING = "Session data is missing. Please log out and log back in.";
+
+export class CryptoService {
+  private key: CryptoKey | null = null;
+  private keyId = "";
+  private pseudonymId: string | null = null;
+  private envelopeMinVersion: string | null = null;
+  private status: CryptoStatus = "unlocking";
+  private error: Error | null = null;
+  private listeners = new Set<CryptoLifecycleListener>();
+
+  getStatus(): CryptoStatus {
+    return this.status;
+  }
+
+  getError(): Error | null {
+    return this.error;
+  }
+
+  hasKey(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Subscribes to status changes; returns the unsubscribe function
+   */
+  subscribe(listener: CryptoLifecycleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Upgrades queued under another pseudonym would re-bind rows to it, so they are dropped
+   */
+  setPseudonymId(pseudonymId: string | null): void {
+    if (this.pseudonymId && this.pseudonymId !== pseudonymId) {
+      clearEnvelopeUpgrades();
+    }
+    this.pseudonymId = pseudonymId;
+  }
+
+  /**
+   * The account's envelope_min_version: once set, values older than it are rejected instead of decrypted
+   */
+  setEnvelopeMinVersion(version: string | null): void {
+    this.envelopeMinVersion = version;
+  }
+
+  beginUnlock(): void {
+    this.transition("unlocking", null);
+  }
+
+  /**
+   * Loads a non-extractable session key; the bulk decryption worker receives it here, once per key
+   * Upgrades queued under a previous key (password change) are dropped
+   */
+  unlock(key: CryptoKey, keyId: string): void {
+    if (this.key !== key) {
+      clearEnvelopeUpgrades();
+    }
+    this.key = key;
+    this.keyId = keyId;
+    setWorkerKey(key);
+    this.transition("ready", null);
+  }
+
+  fail(error: unknown): void {
+    this.clearKey();
+    this.transition("error", error instanceof Error ? error : new Error(String(error)));
+  }
+
+  lock(): void {
+    this.clearKey();
+    this.transition("locked", null);
+  }
+
+  async encryptField(value: string, field: FieldBinding): Promise<string> {
+    const { encrypted } = await EncryptionService.encrypt(value, this.requireKey(), this.keyId, this.toBinding(field));
+    return encrypted;
+  }
+
+  async decryptField(value: string, field: FieldBinding): Promise<string> {
+    return EncryptionService.decrypt(value, this.requireKey(), undefined, this.toBinding(field), this.envelopeMinVersion);
+  }
+
+  /**
+   * Re-encrypts a value for another pseudonym (pseudonym rotation), under the current key
+   */
+  async rebindField(value: string, field: FieldBinding, pseudonymId: string): Promise<string> {
+    const key = this.requireKey();
+    const plaintext = await EncryptionService.decrypt(value, key, undefined, this.toBinding(field), this.envelopeMinVersion);
+    const { encrypted } = await EncryptionService.encrypt(plaintext, key, this.keyId, { ...field, pseudonymId });
+    return encrypted;
+  }
+
+  /**
+   * Returns the value for the row's encrypted_payload column
+   */
+  async encryptRecord<T extends RecordTable>(table: T, rowId: string, record: RecordTypes[T]): Promise<string> {
+    return encodeRecord(table, rowId, record, (value, field) => this.encryptField(value, field));
+  }
+
+  async decryptRecord<T extends RecordTable>(table: T, row: { id: string }): Promise<RecordTypes[T]> {
+    return decodeRecord(table, row, (value, field) => this.decryptField(value, field));
+  }
+
+  /**
+   * Bulk variants run in the worker; results keep input order and are null where decryption
+   * failed - those rows are quarantined rather than dropped
+   */
+  async decryptFields(items: { value: string; field: FieldBinding }[]): Promise<(string | null)[]> {
+    this.requireKey();
+    const results = await decryptFieldsInWorker(
+      items.map(({ value, field }) => ({ value, binding: this.toBinding(field) })),
+      this.envelopeMinVersion
+    );
+
+    const failed = new Map<string, QuarantineCandidate>();
+    results.forEach((result, index) => {
+      if (result.status === "ok") return;
+      const { value, field } = items[index];
+      const key = `${field.table}:${field.rowId}`;
+      const candidate = failed.get(key) ?? { table: field.table, id: field.rowId, failure: result.failure, values: {} };
+      candidate.values[field.column] = value;
+      failed.set(key, candidate);
+    });
+    quarantine.add(Array.from(failed.values()), this.keyId);
+    for (const { field } of items) {
+      if (!failed.has(`${field.table}:${field.rowId}`)) {
+        quarantine.release(field.table, [field.rowId]);
+      }
+    }
+
+    return results.map((result) => (result.status === "ok" ? result.value : null));
+  }
+
+  async decryptRecords<T extends RecordTable>(table: T, rows: { id: string }[]): Promise<(RecordTypes[T] | null)[]> {
+    this.requireKey();
+    if (!this.pseudonymId) {
+      throw new Error(SESSION_DATA_MISSING);
+    }
+    const results = await decryptRecordsInWorker(table, rows, this.pseudonymId, this.envelopeMinVersion);
+
+    const failed: QuarantineCandidate[] = [];
+    const decrypted: string[] = [];
+    results.forEach((result, index) => {
+      const row = rows[index];
+      if (result.status === "ok") {
+        decrypted.push(row.id);
+      } else {
+        failed.push({ table, id: row.id, failure: result.failure, values: encryptedValues(table, row) });
+      }
+    });
+    quarantine.add(failed, this.keyId);
+    quarantine.release(table, decrypted);
+
+    return results.map((result) => (result.status === "ok" ? result.value : null));
+  }
+
+  /**
+   * Retries quarantined rows with alternate keys (e.g. derived from an old password)
+   * Rows that decrypt are re-encrypted under the current key and released; returns how many
+   */
+  async repairQuarantined(alternateKeys: CryptoKey[]): Promise<number> {
+    this.requireKey();
+    const encryptField = (value: string, field: FieldBinding) => this.encryptField(value, field);
+    let repaired = 0;
+
+    for (const row of quarantine.list()) {
+      const decryptField = await this.findDecryptor(row, alternateKeys);
+      if (!decryptField) continue;
+
+      const bundle = isRecordTable(row.table) && !row.values[PAYLOAD_COLUMN];
+      await rewriteRow(row.table, row.id, row.values, bundle, decryptField, encryptField);
+      quarantine.release(row.table, [row.id]);
+      repaired++;
+    }
+    return repaired;
+  }
+
+  /**
+   * Queues a read row for lazy envelope migration; a no-op while locked
+   */
+  upgradeRow(table: EncryptedTable, row: { id: string }): void {
+    if (!this.key || !this.pseudonymId) return;
+    scheduleEnvelopeUpgrade(table, row, this.key, this.keyId, this.pseudonymId, this.envelopeMinVersion);
+  }
+
+  private requireKey(): CryptoKey {
+    if (!this.key || this.status !== "ready") {
+      throw new Error(KEY_UNAVAILABLE);
+    }
+    return this.key;
+  }
+
+  // The decryptor for the first key that opens every value of the row (and yields a valid record)
+  private async findDecryptor(row: QuarantinedRow, keys: CryptoKey[]) {
+    for (const key of keys) {
+      const decryptField = (value: string, field: FieldBinding) =>
+        EncryptionService.decrypt(value, key, undefined, this.toBinding(field), this.envelopeMinVersion);
+      try {
+        if (isRecordTable(row.table)) {
+          await decodeRecord(row.table, { id: row.id, ...row.values }, decryptField);
+        } else {
+          for (const [column, value] of Object.entries(row.values)) {
+            await decryptField(value, { table: row.table, column, rowId: row.id } as FieldBinding);
+          }
+        }
+        return decryptField;
+      } catch (error) {
+        // Not this key
+      }
+    }
+    return null;
+  }
+
+  // Adds the account's pseudonym so the ciphertext is bound to its owner as well as its field
+  private toBinding(field: FieldBinding): CiphertextBinding {
+    if (!this.pseudonymId) {
+      throw new Error(SESSION_DATA_MISSING);
+    }
+    return { ...field, pseudonymId: this.pseudonymId };
+  }
+
+  private clearKey(): void {
+    this.key = null;
+    this.keyId = "";
+    clearWorkerKey();
+    clearEnvelopeUpgrades();
+    quarantine.clear();
+  }
+
+  private transition(status: CryptoStatus, error: Error | null): void {
+    const previous = this.status;
+    this.status = status;
+    this.error = error;
+    if (previous === status && !error) return;
+    for (const listener of this.listeners) {
+      listener({ status, previous, error });
+    }
+  }
+}
+
+export const cryptoService = new CryptoService();
@@ -0,0 +1,163 @@
+// Client for the bulk decryption worker (src/lib/crypto.worker.ts)
+// Large reads are split into batches so results stream back while the UI stays responsive
+// Falls back to the main thread where workers are unavailable
+
+import { EncryptionService } from "@/lib/encryption";
+import { decodeRecord, RecordTable, RecordTypes } from "@/lib/recordCodec";
+import { DecryptResult, settleDecrypt } from "@/lib/decryptResult";
+import type { CryptoWorkerRequest, CryptoWorkerResponse, FieldDecryptRequest } from "@/lib/crypto.worker";
+
+const WORKER_BATCH_SIZE = 100;
+
+interface PendingRequest {
+  resolve: (results: unknown[]) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerKey: CryptoKey | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+function rejectPending(message: string) {
+  for (const request of pending.values()) {
+    request.reject(new Error(message));
+  }
+  pending.clear();
+}
+
+function getWorker(): Worker | null {
+  if (worker) return worker;
+  if (typeof Worker === "undefined") return null;
+
+  try {
+    worker = new Worker(new URL("./crypto.worker.ts", import.meta.url), { type: "module" });
+  } catch (error) {
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => {
+    const { requestId, results, error } = event.data;
+    const request = pending.get(requestId);
+    if (!request) return;
+    pending.delete(requestId);
+    if (error) {
+      request.reject(new Error(error));
+    } else {
+      request.resolve(results ?? []);
+    }
+  };
+  worker.onerror = () => {
+    // A crashed worker is replaced on the next request
+    rejectPending("Decryption worker failed");
+    worker?.terminate();
+    worker = null;
+  };
+
+  if (workerKey) {
+    worker.postMessage({ type: "setKey", key: workerKey } satisfies CryptoWorkerRequest);
+  }
+  return worker;
+}
+
+/**
+ * Hands the session data key to the worker - call once whenever the key changes
+ */
+export function setWorkerKey(key: CryptoKey): void {
+  workerKey = key;
+  getWorker()?.postMessage({ type: "setKey", key } satisfies CryptoWorkerRequest);
+}
+
+/**
+ * Drops the key and stops the worker, so its copy of the key goes too - called by cryptoService on lock and sign-out
+ */
+export function clearWorkerKey(): void {
+  workerKey = null;
+  rejectPending("Encryption key cleared");
+  worker?.terminate();
+  worker = null;
+}
+
+type BatchRequest =
+  | { type: "decryptFields"; items: FieldDecryptRequest[]; minVersion: string | null }
+  | { type: "decryptRecords"; table: RecordTable; rows: { id: string }[]; pseudonymId: string; minVersion: string | null };
+
+function postBatch(activeWorker: Worker, request: BatchRequest): Promise<unknown[]> {
+  const requestId = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(requestId, { resolve, reject });
+    activeWorker.postMessage({ ...request, requestId } satisfies CryptoWorkerRequest);
+  });
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += WORKER_BATCH_SIZE) {
+    batches.push(items.slice(i, i + WORKER_BATCH_SIZE));
+  }
+  return batches;
+}
+
+/**
+ * Decrypts many values off the main thread; minVersion is the account's envelope_min_version
+ * Results are in input order, one outcome per value
+ */
+export async function decryptFieldsInWorker(
+  items: FieldDecryptRequest[],
+  minVersion: string | null
+): Promise<DecryptResult<string>[]> {
+  if (!workerKey) {
+    throw new Error("Encryption key not available. Please log out and log back in.");
+  }
+  if (items.length === 0) return [];
+
+  const activeWorker = getWorker();
+  if (!activeWorker) {
+    const key = workerKey;
+    return Promise.all(
+      items.map(({ value, binding }) => settleDecrypt(() => EncryptionService.decrypt(value, key, undefined, binding, minVersion)))
+    );
+  }
+
+  const batches = await Promise.all(
+    chunk(items).map((batch) => postBatch(activeWorker, { type: "decryptFields", items: batch, minVersion }))
+  );
+  return batches.flat() as DecryptResult<string>[];
+}
+
+/**
+ * Decrypts many rows of a bundled table into records off the main thread
+ * Results are in input order, one outcome per row
+ */
+export async function decryptRecordsInWorker<T extends RecordTable>(
+  table: T,
+  rows: { id: string }[],
+  pseudonymId: string,
+  minVersion: string | null
+): Promise<DecryptResult<RecordTypes[T]>[]> {
+  if (!workerKey) {
+    throw new Error("Encryption key not available. Please log out and log back in.");
+  }
+  if (rows.length === 0) return [];
+
+  const activeWorker = getWorker();
+  if (!activeWorker) {
+    const key = workerKey;
+    return Promise.all(
+      rows.map((row) =>
+        settleDecrypt(() =>
+          decodeRecord(table, row, (value, field) =>
+            EncryptionService.decrypt(value, key, undefined, { ...field, pseudonymId }, minVersion)
+          )
+        )
+      )
+    );
+  }
+
+  const batches = await Promise.all(
+    chunk(rows).map((batch) =>
+      postBatch(activeWorker, { type: "decryptRecords", table, rows: batch, pseudonymId, minVersion })
+    )
+  );
+  return batches.flat() as DecryptResult<RecordTypes[T]>[];
+}
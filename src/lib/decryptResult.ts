@@ -0,0 +1,29 @@
+// Per-item outcome of a bulk decryption, so one bad row is reported instead of failing
+// (or silently vanishing from) the whole read
+// Imported by the decryption worker too, so it depends only on @/lib/encryption, which the worker bundles anyway
+
+import { DecryptionError } from "@/lib/encryption";
+
+// unknown-key:    written under a data key this session does not hold (old password, another account)
+// authentication: the key, the row binding or the ciphertext is wrong
+// malformed:      not a ciphertext envelope this client can parse
+// invalid-record: decrypted, but the plaintext is not a valid record
+export type DecryptFailure = "unknown-key" | "authentication" | "malformed" | "invalid-record";
+
+export type DecryptResult<T> = { status: "ok"; value: T } | { status: "failed"; failure: DecryptFailure };
+
+export function classifyDecryptError(error: unknown): DecryptFailure {
+  if (error instanceof DecryptionError) {
+    return error.reason;
+  }
+  // JSON and schema errors come from a payload that did decrypt
+  return "invalid-record";
+}
+
+export async function settleDecrypt<T>(run: () => Promise<T>): Promise<DecryptResult<T>> {
+  try {
+    return { status: "ok", value: await run() };
+  } catch (error) {
+    return { status: "failed", failure: classifyDecryptError(error) };
+  }
+}
@@ -0,0 +1,182 @@
+// Active sessions and devices for the account
+// Supabase keeps the sessions (auth.sessions, read through list_sessions); each one gets a device
+// label built from the navigator fingerprint, stored encrypted in device_sessions.encrypted_label
+
+import { supabase } from "@/integrations/supabase/client";
+import { bindFields } from "@/lib/encryptedTables";
+import { cryptoService } from "@/lib/cryptoService";
+import { collectNavigatorFingerprint } from "@/lib/deviceFingerprint";
+
+const UNKNOWN_DEVICE = "Unknown device";
+
+export interface DeviceSession {
+  id: string; // auth.sessions id
+  label: string;
+  createdAt: string;
+  lastSeenAt: string; // Last token refresh - refreshes run about hourly while the app is open
+  current: boolean;
+}
+
+const labelField = (rowId: string) => bindFields("device_sessions", rowId)("encrypted_label");
+
+// The access token names the session it belongs to
+function sessionIdFromToken(accessToken: string): string | null {
+  try {
+    const payload = accessToken.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, "="))).session_id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function currentSessionId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error("Not signed in");
+  }
+  return sessionIdFromToken(session.access_token);
+}
+
+function browserName(userAgent: string): string {
+  if (/Edg\//.test(userAgent)) return "Edge";
+  if (/OPR\//.test(userAgent)) return "Opera";
+  if (/Firefox\/|FxiOS/.test(userAgent)) return "Firefox";
+  if (/Chrome\/|CriOS/.test(userAgent)) return "Chrome";
+  if (/Safari\//.test(userAgent)) return "Safari";
+  return "Browser";
+}
+
+// The navigator fingerprint fields a label is built from
+interface NavigatorSummary {
+  userAgent?: string;
+  platform?: string;
+  maxTouchPoints?: number;
+  clientHints?: { platform?: string };
+  screen?: { width?: number; height?: number };
+}
+
+function systemName(data: NavigatorSummary): string {
+  const userAgent = data.userAgent ?? "";
+  if (/iPad/.test(userAgent) || (data.platform === "MacIntel" && data.maxTouchPoints > 1)) return "iPad";
+  if (/iPhone|iPod/.test(userAgent)) return "iPhone";
+  if (/Android/i.test(userAgent)) return "Android";
+  const platform = data.clientHints?.platform || data.platform || "";
+  if (/Win/i.test(platform)) return "Windows";
+  if (/Mac/i.test(platform)) return "macOS";
+  if (/CrOS|Chrome OS/i.test(platform + userAgent)) return "ChromeOS";
+  if (/Linux/i.test(platform)) return "Linux";
+  return "Unknown system";
+}
+
+/**
+ * A readable label such as "Firefox on Windows (1920x1080)" - the full fingerprint is not stored
+ */
+export async function buildDeviceLabel(): Promise<string> {
+  const data: NavigatorSummary = await collectNavigatorFingerprint();
+  const screenSize = data.screen?.width ? ` (${data.screen.width}x${data.screen.height})` : "";
+  return `${browserName(data.userAgent ?? "")} on ${systemName(data)}${screenSize}`;
+}
+
+/**
+ * Stores the label for the current session once; needs the data key
+ */
+export async function recordCurrentDevice(pseudonymId: string): Promise<void> {
+  const sessionId = await currentSessionId();
+  if (!sessionId) return;
+
+  const { data: existing, error: lookupError } = await supabase
+    .from("device_sessions")
+    .select("id")
+    .eq("session_id", sessionId)
+    .maybeSingle();
+
+  if (lookupError) {
+    throw new Error("Could not load device sessions");
+  }
+  if (existing) return;
+
+  // The row id is bound into the ciphertext, so it is chosen before encrypting
+  const id = crypto.randomUUID();
+  const { error } = await supabase.from("device_sessions").insert({
+    id,
+    pseudonym_id: pseudonymId,
+    session_id: sessionId,
+    encrypted_label: await cryptoService.encryptField(await buildDeviceLabel(), labelField(id)),
+  });
+
+  if (error) {
+    throw new Error("Could not record this device");
+  }
+}
+
+/**
+ * The account's active sessions, most recently seen first. Labels of ended sessions are removed
+ */
+export async function listDeviceSessions(): Promise<DeviceSession[]> {
+  const sessionId = await currentSessionId();
+
+  const { data: sessions, error } = await supabase.rpc("list_sessions");
+  if (error) {
+    throw new Error("Could not load sessions");
+  }
+
+  const { data: labels, error: labelsError } = await supabase
+    .from("device_sessions")
+    .select("id, session_id, encrypted_label");
+
+  if (labelsError) {
+    throw new Error("Could not load device sessions");
+  }
+
+  const active = new Set(sessions.map((session) => session.id));
+  const stale = labels.filter((row) => !active.has(row.session_id)).map((row) => row.id);
+  if (stale.length > 0) {
+    // Best effort - the next listing tries again
+    await supabase.from("device_sessions").delete().in("id", stale);
+  }
+
+  const labelBySession = new Map<string, string>();
+  await Promise.all(
+    labels
+      .filter((row) => active.has(row.session_id))
+      .map(async (row) => {
+        try {
+          labelBySession.set(row.session_id, await cryptoService.decryptField(row.encrypted_label, labelField(row.id)));
+        } catch {
+          // Written under a key this session does not hold - shown as unknown
+        }
+      })
+  );
+
+  return sessions.map((session) => ({
+    id: session.id,
+    label: labelBySession.get(session.id) ?? UNKNOWN_DEVICE,
+    createdAt: session.created_at,
+    lastSeenAt: session.last_seen_at,
+    current: session.id === sessionId,
+  }));
+}
+
+/**
+ * Ends another session. Its refresh token stops working at once; an access token it already
+ * holds stays valid until it expires (at most an hour)
+ */
+export async function revokeDeviceSession(sessionId: string): Promise<void> {
+  const { data, error } = await supabase.rpc("revoke_session", { p_session_id: sessionId });
+  if (error) {
+    throw new Error("Could not sign out that session");
+  }
+  if (!data) {
+    throw new Error("That session has already ended");
+  }
+}
+
+/**
+ * Ends every session of the account, this one included
+ */
+export async function signOutEverywhere(): Promise<void> {
+  const { error } = await supabase.auth.signOut({ scope: "global" });
+  if (error) {
+    throw new Error("Could not sign out everywhere");
+  }
+}
@@ -0,0 +1,69 @@
+// Registry of every client-side encrypted column, used by bulk key operations
+// Keep in sync with supabase/migrations when encrypted_* columns are added
+
+export const ENCRYPTED_COLUMNS = {
+  chores: [
+    "encrypted_name",
+    "encrypted_period",
+    "encrypted_created_at",
+    "encrypted_updated_at",
+    "encrypted_payload",
+  ],
+  checklists: [
+    "encrypted_name",
+    "encrypted_created_at",
+  ],
+  checklist_reminders: [
+    "encrypted_text",
+    "encrypted_completed",
+    "encrypted_created_at",
+    "encrypted_payload",
+  ],
+  calendar_events: [
+    "encrypted_title",
+    "encrypted_description",
+    "encrypted_date",
+    "encrypted_time",
+    "encrypted_created_at",
+    "encrypted_end_time",
+    "encrypted_repeat_days",
+    "encrypted_color",
+    "encrypted_payload",
+  ],
+  focus_monitoring: [
+    "encrypted_field_name",
+    "encrypted_focus_duration",
+    "encrypted_timestamp",
+  ],
+  device_sessions: [
+    "encrypted_label",
+  ],
+  profiles: [
+    "encrypted_email",
+    "encrypted_mfa_backup_codes",
+  ],
+} as const;
+
+export type EncryptedTable = keyof typeof ENCRYPTED_COLUMNS;
+
+export const ENCRYPTED_TABLES = Object.keys(ENCRYPTED_COLUMNS) as EncryptedTable[];
+
+// A row as returned by a bulk select of id + encrypted columns
+export type EncryptedRow = { id: string } & Record<string, string | null>;
+
+export type EncryptedColumn<T extends EncryptedTable = EncryptedTable> = (typeof ENCRYPTED_COLUMNS)[T][number];
+
+// Where a ciphertext lives - bound into AES-GCM associated data so values cannot be moved between fields
+export interface FieldBinding<T extends EncryptedTable = EncryptedTable> {
+  table: T;
+  column: EncryptedColumn<T>;
+  rowId: string;
+}
+
+/**
+ * Returns a binder for the encrypted columns of one row
+ * e.g. const field = bindFields("chores", id); encrypt(name, field("encrypted_name"))
+ */
+export function bindFields<T extends EncryptedTable>(table: T, rowId: string) {
+  return (column: EncryptedColumn<T>): FieldBinding<T> => ({ table, column, rowId });
+}
@@ -2,9 +2,104 @@
 // Uses Web Crypto API for AES-256-GCM encryption with SHA3-512 integrity validation
 
 import { sha3_512 } from 'js-sha3';
+import { deriveArgon2idBytes, KdfParams, normalizePassword, PASSWORD_MIN_LENGTH, PBKDF2_PARAMS } from '@/lib/kdf';
+import { deleteRememberedKey, loadRememberedKey, RememberedKey, saveRememberedKey } from '@/lib/keyStore';
 
 const PBKDF2_ITERATIONS = 100000;
 const KEY_LENGTH = 256;
+const WRAPPING_SALT_PREFIX = 'stand-kek:';
+const RECOVERY_SALT_PREFIX = 'stand-recovery:';
+// Data keys can also wrap the recovery key (escrow used during key rotation)
+const DATA_KEY_USAGES: KeyUsage[] = ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey'];
+const WRAPPING_KEY_USAGES: KeyUsage[] = ['wrapKey', 'unwrapKey'];
+// The copy of the data key the app holds for a session can only encrypt and decrypt
+const SESSION_KEY_USAGES: KeyUsage[] = ['encrypt', 'decrypt'];
+
+// Ciphertext envelope: v3:<keyId>:<alg>:<payload>
+// v3 binds the value to its row as AES-GCM associated data; v2 has the same layout without
+// a binding; legacy values (v1) are bare base64 of IV || ciphertext with no header
+export const ENVELOPE_VERSION = 'v3';
+const UNBOUND_ENVELOPE_VERSION = 'v2';
+export const LEGACY_ENVELOPE_VERSION = 'v1';
+const ENVELOPE_SEPARATOR = ':';
+const AES_GCM_ALG = 'A256GCM';
+// AES-GCM over plaintext padded to a length bucket, so ciphertext length only reveals the bucket
+const AES_GCM_PADDED_ALG = 'A256GCM-P';
+
+// Padded plaintext sizes in bytes; longer values are padded to a multiple of the last bucket
+const PADDING_BUCKETS = [32, 64, 256];
+// ISO/IEC 7816-4 padding: a 0x80 marker byte followed by zeros
+const PADDING_MARKER = 0x80;
+
+// Identifies where a ciphertext belongs: decryption fails if it is moved to another
+// table, column, row or account
+export interface CiphertextBinding {
+  table: string;
+  column: string;
+  rowId: string;
+  pseudonymId: string;
+}
+
+// Why a stored value could not be decrypted: "malformed" values cannot be parsed at all,
+// "authentication" means the key, the binding or the ciphertext itself is wrong
+export type DecryptionFailureReason = 'malformed' | 'authentication';
+
+export class DecryptionError extends Error {
+  constructor(message: string, readonly reason: DecryptionFailureReason) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+export interface CiphertextEnvelope {
+  version: string;
+  keyId: string | null; // null for legacy values, which carry no key id
+  alg: string;
+  payload: string;
+}
+
+function paddedLength(length: number): number {
+  // Always room for the marker byte
+  const needed = length + 1;
+  const bucket = PADDING_BUCKETS.find(size => size >= needed);
+  if (bucket) return bucket;
+  const step = PADDING_BUCKETS[PADDING_BUCKETS.length - 1];
+  return Math.ceil(needed / step) * step;
+}
+
+function padPlaintext(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(paddedLength(data.length));
+  padded.set(data);
+  padded[data.length] = PADDING_MARKER;
+  return padded;
+}
+
+function unpadPlaintext(padded: ArrayBuffer): ArrayBuffer {
+  const bytes = new Uint8Array(padded);
+  let end = bytes.length - 1;
+  while (end >= 0 && bytes[end] === 0) end--;
+  if (end < 0 || bytes[end] !== PADDING_MARKER) {
+    throw new Error('Invalid padding');
+  }
+  return padded.slice(0, end);
+}
+
+const decryptAesGcm = (payload: Uint8Array, key: CryptoKey, additionalData?: Uint8Array) =>
+  crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: payload.slice(0, 12), ...(additionalData && { additionalData }) },
+    key,
+    payload.slice(12)
+  );
+
+// Payload decoders by algorithm id - add an entry here to introduce a new algorithm
+const PAYLOAD_DECRYPTORS: Record<
+  string,
+  (payload: Uint8Array, key: CryptoKey, additionalData?: Uint8Array) => Promise<ArrayBuffer>
+> = {
+  [AES_GCM_ALG]: decryptAesGcm,
+  [AES_GCM_PADDED_ALG]: async (payload, key, additionalData) =>
+    unpadPlaintext(await decryptAesGcm(payload, key, additionalData)),
+};
 
 export class EncryptionService {
   private static encoder = new TextEncoder();
@@ -20,16 +115,57 @@ export class EncryptionService {
       .join('');
   }
 
-  // Derive encryption key from password using PBKDF2
-  static async deriveKey(password: string, salt: string): Promise<CryptoKey> {
+  // Derive encryption key from password using PBKDF2 (or Argon2id when params say so)
+  // Accounts created before envelope encryption use the PBKDF2 key directly as their data key;
+  // it is extractable only so it can be wrapped - the session uses toSessionKey()
+  // normalize is false only for secrets derived before NFKC normalization (version 1 archives)
+  static async deriveKey(
+    password: string,
+    salt: string,
+    params: KdfParams = PBKDF2_PARAMS,
+    normalize = true
+  ): Promise<CryptoKey> {
+    return this.derivePasswordKey(normalize ? normalizePassword(password) : password, salt, DATA_KEY_USAGES, params, true);
+  }
+
+  // Derive the key-encryption key that wraps the account data key (never extractable)
+  // Uses a domain-separated salt so it never equals the legacy data key
+  static async deriveWrappingKey(password: string, salt: string, params: KdfParams = PBKDF2_PARAMS): Promise<CryptoKey> {
+    return this.derivePasswordKey(normalizePassword(password), `${WRAPPING_SALT_PREFIX}${salt}`, WRAPPING_KEY_USAGES, params, false);
+  }
+
+  // Derive the recovery key from a normalized recovery code (offline recovery kit)
+  // Extractable because the data key escrows it during key rotation
+  static async deriveRecoveryKey(recoveryCode: string, salt: string): Promise<CryptoKey> {
+    return this.derivePasswordKey(recoveryCode, `${RECOVERY_SALT_PREFIX}${salt}`, WRAPPING_KEY_USAGES, PBKDF2_PARAMS, true);
+  }
+
+  private static async derivePasswordKey(
+    password: string,
+    salt: string,
+    usages: KeyUsage[],
+    params: KdfParams,
+    extractable: boolean
+  ): Promise<CryptoKey> {
     try {
-      if (!password || password.length < 6) {
-        throw new Error('Password must be at least 6 characters');
+      if (!password || password.length < PASSWORD_MIN_LENGTH) {
+        throw new Error(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
       }
       
       if (!salt || salt.length === 0) {
         throw new Error('Encryption salt is required');
       }
+
+      if (params.algorithm === 'argon2id') {
+        const keyBytes = await deriveArgon2idBytes(password, salt, params, KEY_LENGTH / 8);
+        return await crypto.subtle.importKey(
+          'raw',
+          keyBytes,
+          { name: 'AES-GCM', length: KEY_LENGTH },
+          extractable,
+          usages
+        );
+      }
       
       const passwordKey = await crypto.subtle.importKey(
         'raw',
@@ -48,8 +184,8 @@ export class EncryptionService {
         },
         passwordKey,
         { name: 'AES-GCM', length: KEY_LENGTH },
-        true,
-        ['encrypt', 'decrypt']
+        extractable,
+        usages
       );
       
       return derivedKey;
@@ -58,50 +194,201 @@ export class EncryptionService {
     }
   }
 
+  // Generate a random per-account data key that encrypts every encrypted_* column
+  static async generateDataKey(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: KEY_LENGTH },
+      true,
+      DATA_KEY_USAGES
+    );
+  }
+
+  // Wrap a key with AES-GCM under the key-encryption key (base64 of IV || wrapped key)
+  static async wrapDataKey(dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+
+    const combined = new Uint8Array(iv.length + wrapped.byteLength);
+    combined.set(iv);
+    combined.set(new Uint8Array(wrapped), iv.length);
+
+    return btoa(String.fromCharCode(...combined));
+  }
+
+  // Unwrap the data key - fails if the key-encryption key (password) is wrong
+  static async unwrapDataKey(
+    wrappedKey: string,
+    wrappingKey: CryptoKey,
+    usages: KeyUsage[] = DATA_KEY_USAGES,
+    extractable = true
+  ): Promise<CryptoKey> {
+    try {
+      const combined = new Uint8Array(
+        atob(wrappedKey).split('').map(c => c.charCodeAt(0))
+      );
+
+      return await crypto.subtle.unwrapKey(
+        'raw',
+        combined.slice(12),
+        wrappingKey,
+        { name: 'AES-GCM', iv: combined.slice(0, 12) },
+        { name: 'AES-GCM', length: KEY_LENGTH },
+        extractable,
+        usages
+      );
+    } catch (error) {
+      throw new Error('Data key unwrap failed - invalid password or corrupted key');
+    }
+  }
+
+  // Unwrap a data key straight into a non-extractable session key
+  static async unwrapSessionKey(wrappedKey: string, wrappingKey: CryptoKey): Promise<CryptoKey> {
+    return this.unwrapDataKey(wrappedKey, wrappingKey, SESSION_KEY_USAGES, false);
+  }
+
+  // Non-extractable copy of a data key for the session - it can encrypt and decrypt
+  // but its bytes can never be read back, wrapped or exported
+  static async toSessionKey(dataKey: CryptoKey): Promise<CryptoKey> {
+    if (!dataKey.extractable) return dataKey;
+    const raw = await crypto.subtle.exportKey('raw', dataKey);
+    try {
+      return await crypto.subtle.importKey('raw', raw, { name: 'AES-GCM', length: KEY_LENGTH }, false, SESSION_KEY_USAGES);
+    } finally {
+      new Uint8Array(raw).fill(0);
+    }
+  }
+
+  // Random identifier recorded in every envelope written under a data key
+  static generateKeyId(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(8)))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  // Unwrap an escrowed key-encryption key (e.g. the recovery key wrapped by the data key)
+  static async unwrapWrappingKey(wrappedKey: string, wrappingKey: CryptoKey): Promise<CryptoKey> {
+    return this.unwrapDataKey(wrappedKey, wrappingKey, WRAPPING_KEY_USAGES);
+  }
+
   // Compute SHA3-512 hash for data integrity (deprecated - AES-GCM provides authentication)
   static computeHash(data: string): string {
     return sha3_512(data);
   }
 
   // Encrypt data with AES-256-GCM (authenticated encryption - no separate hash needed)
-  static async encrypt(data: string, key: CryptoKey): Promise<{ encrypted: string; hash: string }> {
+  // Output is an envelope tagged with the id of the data key that produced it; with a
+  // binding the header and the value's location are authenticated as associated data
+  // Plaintext is padded to a length bucket unless padding is turned off
+  static async encrypt(
+    data: string,
+    key: CryptoKey,
+    keyId = '',
+    binding?: CiphertextBinding,
+    padding = true
+  ): Promise<{ encrypted: string; hash: string }> {
+    const version = binding ? ENVELOPE_VERSION : UNBOUND_ENVELOPE_VERSION;
+    const header = [version, keyId, padding ? AES_GCM_PADDED_ALG : AES_GCM_ALG];
+    const plaintext = this.encoder.encode(data);
     const iv = crypto.getRandomValues(new Uint8Array(12));
     const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
+      {
+        name: 'AES-GCM',
+        iv,
+        ...(binding && { additionalData: this.encodeAssociatedData(header, binding) }),
+      },
       key,
-      this.encoder.encode(data)
+      padding ? padPlaintext(plaintext) : plaintext
     );
 
     const combined = new Uint8Array(iv.length + encrypted.byteLength);
     combined.set(iv);
     combined.set(new Uint8Array(encrypted), iv.length);
 
-    const encryptedString = btoa(String.fromCharCode(...combined));
+    const payload = btoa(String.fromCharCode(...combined));
+    const encryptedString = [...header, payload].join(ENVELOPE_SEPARATOR);
     const hash = this.computeHash(data);
 
     return { encrypted: encryptedString, hash };
   }
 
   // Decrypt data with AES-256-GCM (hash parameter ignored - AES-GCM provides authentication)
-  static async decrypt(encryptedData: string, key: CryptoKey, expectedHash?: string): Promise<string> {
+  // Accepts legacy bare base64 values as well as versioned envelopes; bound (v3) values
+  // only decrypt with the binding they were written with. With a binding and minVersion
+  // (the account's envelope_min_version), older unbound values are rejected as well
+  static async decrypt(
+    encryptedData: string,
+    key: CryptoKey,
+    expectedHash?: string,
+    binding?: CiphertextBinding,
+    minVersion?: string | null
+  ): Promise<string> {
+    const envelope = this.parseEnvelope(encryptedData);
+    const decryptPayload = PAYLOAD_DECRYPTORS[envelope.alg];
+    if (!decryptPayload) {
+      throw new DecryptionError(`Decryption failed - unsupported algorithm ${envelope.alg}`, 'malformed');
+    }
+
+    const isBound = this.versionNumber(envelope.version) >= this.versionNumber(ENVELOPE_VERSION);
+    if (isBound && !binding) {
+      throw new DecryptionError('Decryption failed - value is bound to a record but no binding was given', 'malformed');
+    }
+    if (binding && minVersion && this.versionNumber(envelope.version) < this.versionNumber(minVersion)) {
+      throw new DecryptionError('Decryption failed - unbound value where only bound values are accepted', 'authentication');
+    }
+
     try {
       const combined = new Uint8Array(
-        atob(encryptedData).split('').map(c => c.charCodeAt(0))
+        atob(envelope.payload).split('').map(c => c.charCodeAt(0))
       );
 
-      const iv = combined.slice(0, 12);
-      const data = combined.slice(12);
-
-      const decrypted = await crypto.subtle.decrypt(
-        { name: 'AES-GCM', iv },
-        key,
-        data
-      );
+      const additionalData = isBound && binding
+        ? this.encodeAssociatedData([envelope.version, envelope.keyId ?? '', envelope.alg], binding)
+        : undefined;
+      const decrypted = await decryptPayload(combined, key, additionalData);
 
       return this.decoder.decode(decrypted);
     } catch (error) {
-      throw new Error('Decryption failed - invalid key or corrupted data');
+      throw new DecryptionError(
+        'Decryption failed - invalid key, corrupted data or value moved from another record',
+        'authentication'
+      );
+    }
+  }
+
+  // Canonical associated data: envelope header plus binding, JSON-encoded so fields cannot run together
+  private static encodeAssociatedData(header: string[], binding: CiphertextBinding): Uint8Array {
+    return this.encoder.encode(
+      JSON.stringify([...header, binding.table, binding.column, binding.rowId, binding.pseudonymId])
+    );
+  }
+
+  private static versionNumber(version: string): number {
+    return parseInt(version.slice(1), 10);
+  }
+
+  // Split a stored value into its envelope fields
+  // Base64 never contains ':', so a value without a separator is a legacy v1 ciphertext
+  static parseEnvelope(encryptedData: string): CiphertextEnvelope {
+    if (!encryptedData.includes(ENVELOPE_SEPARATOR)) {
+      return { version: LEGACY_ENVELOPE_VERSION, keyId: null, alg: AES_GCM_ALG, payload: encryptedData };
+    }
+
+    const [version, keyId, alg, ...rest] = encryptedData.split(ENVELOPE_SEPARATOR);
+    if (!/^v\d+$/.test(version) || alg === undefined || rest.length === 0) {
+      throw new DecryptionError('Decryption failed - malformed ciphertext envelope', 'malformed');
     }
+
+    // Later versions may append fields; the payload is always the last one
+    return { version, keyId: keyId || null, alg, payload: rest[rest.length - 1] };
+  }
+
+  // True when a stored value predates the current envelope format (or is unpadded) and should
+  // be rewritten; values from a newer client are left alone rather than downgraded
+  static needsEnvelopeUpgrade(encryptedData: string): boolean {
+    const envelope = this.parseEnvelope(encryptedData);
+    const version = this.versionNumber(envelope.version);
+    const current = this.versionNumber(ENVELOPE_VERSION);
+    return version < current || (version === current && envelope.alg === AES_GCM_ALG);
   }
 
   // Export key for storage
@@ -110,7 +397,7 @@ export class EncryptionService {
     return btoa(String.fromCharCode(...new Uint8Array(exported)));
   }
 
-  // Import key from storage (MUST be extractable to match exportKey)
+  // Import a raw key as a non-extractable session key
   static async importKey(keyData: string): Promise<CryptoKey> {
     const keyBytes = new Uint8Array(
       atob(keyData).split('').map(c => c.charCodeAt(0))
@@ -119,8 +406,8 @@ export class EncryptionService {
       'raw',
       keyBytes,
       { name: 'AES-GCM', length: KEY_LENGTH },
-      true,
-      ['encrypt', 'decrypt']
+      false,
+      SESSION_KEY_USAGES
     );
   }
 
@@ -136,30 +423,38 @@ export class EncryptionService {
     }
   }
 
-  // Memory-only storage - keys never persisted to disk
-  // Keys are lost on page refresh for maximum security
-  static async storeKey(_userId: string, _key: CryptoKey, _email?: string): Promise<void> {
-    // No-op: Keys stored in memory only via EncryptionContext
-    // This ensures keys never touch localStorage/disk
+  // Keys live in session memory (EncryptionContext) unless the user opts in to
+  // "remember this device", which keeps the non-extractable key in IndexedDB until it expires
+  static async storeKey(
+    userId: string,
+    key: CryptoKey,
+    options: { keyId: string; email: string; expiresAt: number }
+  ): Promise<void> {
+    await saveRememberedKey(userId, { key, ...options });
   }
 
-  static async retrieveKey(_userId: string): Promise<CryptoKey | null> {
-    // Always return null - forces use of session memory storage
-    return null;
+  static async retrieveKey(userId: string): Promise<RememberedKey | null> {
+    try {
+      return await loadRememberedKey(userId);
+    } catch (error) {
+      // IndexedDB unavailable (e.g. private browsing) - fall back to signing in again
+      return null;
+    }
   }
 
-  static getStoredEmail(_userId: string): string | null {
-    // Always return null - email not persisted
-    return null;
+  static async getStoredEmail(userId: string): Promise<string | null> {
+    return (await this.retrieveKey(userId))?.email ?? null;
   }
 
-  static clearKey(_userId: string): void {
-    // No-op: Nothing to clear from localStorage
-    // Memory is cleared via EncryptionContext
+  static async clearKey(userId: string): Promise<void> {
+    try {
+      await deleteRememberedKey(userId);
+    } catch (error) {
+      // Nothing stored
+    }
   }
 
-  static hasKey(_userId: string): boolean {
-    // Always return false - check session memory instead
-    return false;
+  static async hasKey(userId: string): Promise<boolean> {
+    return (await this.retrieveKey(userId)) !== null;
   }
 }
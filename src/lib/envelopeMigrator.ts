@@ -0,0 +1,157 @@
+// Lazy ciphertext envelope migration
+// Rows read by the UI are queued and rewritten in the current envelope format when the
+// browser is idle, so legacy values disappear without a blocking bulk migration
+// Per-column rows of bundled tables are repacked into a single encrypted_payload
+
+import { supabase } from "@/integrations/supabase/client";
+import { EncryptionService } from "@/lib/encryption";
+import { ENCRYPTED_COLUMNS, EncryptedTable, FieldBinding } from "@/lib/encryptedTables";
+import { clearedFieldColumns, decodeRecord, encodeRecord, FieldDecryptor, FieldEncryptor, isRecordTable, PAYLOAD_COLUMN } from "@/lib/recordCodec";
+
+const UPGRADE_BATCH_SIZE = 20;
+const IDLE_FALLBACK_DELAY_MS = 1000;
+
+interface QueuedUpgrade {
+  table: EncryptedTable;
+  id: string;
+  values: Record<string, string>; // Column values to replace, as they were read
+  bundle: boolean; // Repack the per-column values into encrypted_payload
+  key: CryptoKey;
+  keyId: string;
+  pseudonymId: string;
+  minVersion: string | null; // Rows are only re-bound from values the account still accepts
+}
+
+const queue = new Map<string, QueuedUpgrade>();
+let flushScheduled = false;
+
+function isLegacyValue(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    return EncryptionService.needsEnvelopeUpgrade(value);
+  } catch (error) {
+    // Malformed values are left for the decryptor to report
+    return false;
+  }
+}
+
+function scheduleFlush() {
+  if (flushScheduled) return;
+  flushScheduled = true;
+
+  const run = () => {
+    flushScheduled = false;
+    void flushUpgrades();
+  };
+
+  if (typeof window.requestIdleCallback === "function") {
+    window.requestIdleCallback(run);
+  } else {
+    setTimeout(run, IDLE_FALLBACK_DELAY_MS);
+  }
+}
+
+/**
+ * Queues a row that was just read for a background envelope upgrade
+ * No-op when every encrypted column is already in the current format and, for
+ * bundled tables, the row already has an encrypted_payload
+ */
+export function scheduleEnvelopeUpgrade(
+  table: EncryptedTable,
+  row: { id: string },
+  key: CryptoKey,
+  keyId: string,
+  pseudonymId: string,
+  minVersion: string | null
+): void {
+  const record = row as unknown as Record<string, unknown>;
+  const values: Record<string, string> = {};
+  const bundle = isRecordTable(table) && !record[PAYLOAD_COLUMN];
+
+  for (const column of ENCRYPTED_COLUMNS[table]) {
+    const value = record[column];
+    if (bundle ? typeof value === "string" && value : isLegacyValue(value)) {
+      values[column] = value as string;
+    }
+  }
+
+  if (Object.keys(values).length === 0) return;
+
+  queue.set(`${table}:${row.id}`, { table, id: row.id, values, bundle, key, keyId, pseudonymId, minVersion });
+  scheduleFlush();
+}
+
+/**
+ * Drops queued upgrades - call on sign-out or key change so no row is written with a stale key
+ */
+export function clearEnvelopeUpgrades(): void {
+  queue.clear();
+}
+
+/**
+ * Raises the account's envelope_min_version once no unbound value is left on the server,
+ * so older values are rejected from then on; returns the account's version (null while
+ * unbound values remain)
+ */
+export async function completeEnvelopeMigration(): Promise<string | null> {
+  const { data, error } = await supabase.rpc("complete_envelope_migration");
+  if (error) throw error;
+  return data ?? null;
+}
+
+async function flushUpgrades(): Promise<void> {
+  const batch = Array.from(queue.entries()).slice(0, UPGRADE_BATCH_SIZE);
+
+  await Promise.all(
+    batch.map(async ([queueKey, upgrade]) => {
+      queue.delete(queueKey);
+      try {
+        await upgradeRow(upgrade);
+      } catch (error) {
+        // Left in the legacy format - the row is queued again the next time it is read
+      }
+    })
+  );
+
+  if (queue.size > 0) {
+    scheduleFlush();
+  }
+}
+
+async function upgradeRow({ table, id, values, bundle, key, keyId, pseudonymId, minVersion }: QueuedUpgrade): Promise<void> {
+  const decryptField = (value: string, field: FieldBinding) =>
+    EncryptionService.decrypt(value, key, undefined, { ...field, pseudonymId }, minVersion);
+  const encryptField = async (value: string, field: FieldBinding) =>
+    (await EncryptionService.encrypt(value, key, keyId, { ...field, pseudonymId })).encrypted;
+
+  await rewriteRow(table, id, values, bundle, decryptField, encryptField);
+}
+
+/**
+ * Decrypts the given column values and writes them back re-encrypted - with the same key
+ * for an envelope upgrade, or under the current key when repairing a quarantined row
+ * With bundle set, per-column values are repacked into encrypted_payload
+ */
+export async function rewriteRow(
+  table: EncryptedTable,
+  id: string,
+  values: Record<string, string>,
+  bundle: boolean,
+  decryptField: FieldDecryptor,
+  encryptField: FieldEncryptor
+): Promise<void> {
+  let update: Record<string, string | null> = {};
+  if (bundle && isRecordTable(table)) {
+    const record = await decodeRecord(table, { id, ...values }, decryptField);
+    update = { ...clearedFieldColumns(table), [PAYLOAD_COLUMN]: await encodeRecord(table, id, record, encryptField) };
+  } else {
+    for (const [column, value] of Object.entries(values)) {
+      const field = { table, column, rowId: id } as FieldBinding;
+      update[column] = await encryptField(await decryptField(value, field), field);
+    }
+  }
+
+  // Only overwrite values that are unchanged since they were read, so a concurrent edit wins
+  const { error } = await supabase.from(table).update(update).eq("id", id).match(values);
+  if (error) throw error;
+}
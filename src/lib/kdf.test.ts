@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { parseKdfParams, PBKDF2_PARAMS } from "@/lib/kdf";
+
+const argon2id = (overrides: Record<string, unknown> = {}) => ({
+  algorithm: "argon2id",
+  memoryKiB: 64 * 1024,
+  iterations: 3,
+  parallelism: 1,
+  ...overrides,
+});
+
+describe("parseKdfParams", () => {
+  it("treats missing parameters as PBKDF2", () => {
+    expect(parseKdfParams(null)).toBe(PBKDF2_PARAMS);
+    expect(parseKdfParams(undefined)).toBe(PBKDF2_PARAMS);
+    expect(parseKdfParams({ algorithm: "pbkdf2-sha256" })).toBe(PBKDF2_PARAMS);
+  });
+
+  it("accepts calibrated Argon2id parameters", () => {
+    expect(parseKdfParams(argon2id())).toEqual(argon2id());
+    expect(parseKdfParams(argon2id({ memoryKiB: 19 * 1024, iterations: 2 }))).toEqual(
+      argon2id({ memoryKiB: 19 * 1024, iterations: 2 })
+    );
+  });
+
+  it.each([
+    ["memory below the floor", { memoryKiB: 8 }],
+    ["iterations below the floor", { iterations: 1 }],
+    ["memory above the ceiling", { memoryKiB: 4 * 1024 * 1024 }],
+    ["iterations above the ceiling", { iterations: 1000 }],
+    ["no parallelism", { parallelism: 0 }],
+    ["parallelism above the ceiling", { parallelism: 64 }],
+    ["fractional costs", { memoryKiB: 20000.5 }],
+    ["costs as strings", { iterations: "3" }],
+  ])("rejects %s", (_, overrides) => {
+    expect(() => parseKdfParams(argon2id(overrides))).toThrow("Unsupported key derivation parameters");
+  });
+
+  it("rejects unknown algorithms", () => {
+    expect(() => parseKdfParams({ algorithm: "scrypt" })).toThrow("Unsupported key derivation parameters");
+  });
+});
@@ -0,0 +1,145 @@
+// Password key-derivation parameters (PBKDF2-SHA256 or Argon2id via WASM)
+// Parameters are stored per account in profiles.kdf_params so they can be raised over time
+
+import { argon2id } from "hash-wasm";
+
+// Historical PBKDF2 derivation - iteration counts are fixed per use (100k for keys, 50k for transmission)
+export interface Pbkdf2Params {
+  algorithm: "pbkdf2-sha256";
+}
+
+export interface Argon2idParams {
+  algorithm: "argon2id";
+  memoryKiB: number;
+  iterations: number;
+  parallelism: number;
+}
+
+export type KdfParams = Pbkdf2Params | Argon2idParams;
+
+export const PBKDF2_PARAMS: Pbkdf2Params = { algorithm: "pbkdf2-sha256" };
+
+// Floor below which stored parameters are re-calibrated on login (OWASP: 19 MiB, t=2)
+// Raise these to move every account to stronger parameters over time
+const ARGON2_MIN_MEMORY_KIB = 19 * 1024;
+const ARGON2_MIN_ITERATIONS = 2;
+const ARGON2_MAX_MEMORY_KIB = 64 * 1024;
+const ARGON2_MAX_ITERATIONS = 16;
+const CALIBRATION_TARGET_MS = 1000;
+
+// Bounds on Argon2id parameters read from the server or an archive. Weaker costs would let a
+// malicious server collect a barely-stretched transmission password; larger ones could hang or
+// crash the tab. The lower bounds stay at the original floor even if the upgrade floor rises,
+// so accounts calibrated under it still unlock and get upgraded
+const ARGON2_ACCEPTED_MIN_MEMORY_KIB = 19 * 1024;
+const ARGON2_ACCEPTED_MIN_ITERATIONS = 2;
+const ARGON2_ACCEPTED_MAX_MEMORY_KIB = 256 * 1024;
+const ARGON2_ACCEPTED_MAX_ITERATIONS = 64;
+const ARGON2_ACCEPTED_MAX_PARALLELISM = 4;
+
+const inRange = (value: number | undefined, min: number, max: number) =>
+  Number.isInteger(value) && value! >= min && value! <= max;
+
+/**
+ * Validates KDF parameters loaded from the database or an archive
+ * A missing value means the account predates stored parameters and uses PBKDF2.
+ * Argon2id costs outside the accepted bounds are rejected rather than derived with
+ */
+export function parseKdfParams(value: unknown): KdfParams {
+  if (value === null || value === undefined) return PBKDF2_PARAMS;
+
+  const params = value as { algorithm?: string; memoryKiB?: number; iterations?: number; parallelism?: number };
+  if (params.algorithm === "pbkdf2-sha256") return PBKDF2_PARAMS;
+
+  if (
+    params.algorithm === "argon2id" &&
+    inRange(params.memoryKiB, ARGON2_ACCEPTED_MIN_MEMORY_KIB, ARGON2_ACCEPTED_MAX_MEMORY_KIB) &&
+    inRange(params.iterations, ARGON2_ACCEPTED_MIN_ITERATIONS, ARGON2_ACCEPTED_MAX_ITERATIONS) &&
+    inRange(params.parallelism, 1, ARGON2_ACCEPTED_MAX_PARALLELISM)
+  ) {
+    return {
+      algorithm: "argon2id",
+      memoryKiB: params.memoryKiB!,
+      iterations: params.iterations!,
+      parallelism: params.parallelism!,
+    };
+  }
+
+  throw new Error("Unsupported key derivation parameters");
+}
+
+/**
+ * True when the account should be moved to freshly calibrated Argon2id parameters
+ */
+export function needsKdfUpgrade(params: KdfParams): boolean {
+  return (
+    params.algorithm !== "argon2id" ||
+    params.memoryKiB < ARGON2_MIN_MEMORY_KIB ||
+    params.iterations < ARGON2_MIN_ITERATIONS
+  );
+}
+
+/**
+ * NFKC form of a password, applied before every derivation so the same passphrase typed on
+ * different keyboards (composed or decomposed accents, full-width forms) gives the same bytes.
+ * ASCII is unchanged, so existing accounts derive exactly what they did before
+ */
+export function normalizePassword(password: string): string {
+  return password.normalize("NFKC");
+}
+
+// Password length limits, measured on the normalized form that every derivation receives
+export const PASSWORD_MIN_LENGTH = 6;
+export const PASSWORD_MAX_LENGTH = 128;
+
+/**
+ * Derives raw key bytes with Argon2id
+ */
+export async function deriveArgon2idBytes(
+  password: string,
+  salt: string | Uint8Array,
+  params: Argon2idParams,
+  length = 32
+): Promise<Uint8Array> {
+  return argon2id({
+    password,
+    salt,
+    iterations: params.iterations,
+    parallelism: params.parallelism,
+    memorySize: params.memoryKiB,
+    hashLength: length,
+    outputType: "binary",
+  });
+}
+
+async function timeArgon2id(params: Argon2idParams): Promise<number> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const start = performance.now();
+  await deriveArgon2idBytes("calibration", salt, params);
+  return performance.now() - start;
+}
+
+/**
+ * Picks Argon2id memory and iteration costs that take roughly one second on this device
+ * Starts at the memory ceiling and gives up memory only if the minimum iteration count
+ * would already exceed the target
+ */
+export async function calibrateArgon2id(): Promise<Argon2idParams> {
+  // Warm-up so WASM compilation is not counted
+  await timeArgon2id({ algorithm: "argon2id", memoryKiB: 1024, iterations: 1, parallelism: 1 });
+
+  let memoryKiB = ARGON2_MAX_MEMORY_KIB;
+  let elapsed = await timeArgon2id({ algorithm: "argon2id", memoryKiB, iterations: 1, parallelism: 1 });
+
+  while (elapsed * ARGON2_MIN_ITERATIONS > CALIBRATION_TARGET_MS && memoryKiB > ARGON2_MIN_MEMORY_KIB) {
+    memoryKiB = Math.max(ARGON2_MIN_MEMORY_KIB, Math.floor(memoryKiB / 2));
+    elapsed = await timeArgon2id({ algorithm: "argon2id", memoryKiB, iterations: 1, parallelism: 1 });
+  }
+
+  const iterations = Math.min(
+    ARGON2_MAX_ITERATIONS,
+    Math.max(ARGON2_MIN_ITERATIONS, Math.floor(CALIBRATION_TARGET_MS / Math.max(elapsed, 1)))
+  );
+
+  return { algorithm: "argon2id", memoryKiB, iterations, parallelism: 1 };
+}
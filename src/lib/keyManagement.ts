@@ -0,0 +1,779 @@
+// Account data key management (envelope encryption)
+// The random data key encrypts every encrypted_* column and is stored in profiles
+// only in wrapped form, so password changes re-wrap one value instead of every row
+
+import { supabase } from "@/integrations/supabase/client";
+import { Json, TablesUpdate } from "@/integrations/supabase/types";
+import { EncryptionService } from "@/lib/encryption";
+import { deriveTransmissionPassword, secureCredentials } from "@/lib/secureTransmission";
+import { createPasswordProof, PasswordProof, srpVerifierColumns } from "@/lib/srpLogin";
+import { getTotpFactor, verifyTotp } from "@/lib/twoFactor";
+import { bindFields, ENCRYPTED_COLUMNS, ENCRYPTED_TABLES, EncryptedRow, EncryptedTable } from "@/lib/encryptedTables";
+import { calibrateArgon2id, KdfParams, parseKdfParams } from "@/lib/kdf";
+import { classifyDecryptError, DecryptFailure } from "@/lib/decryptResult";
+import { quarantine, QuarantineCandidate } from "@/lib/quarantine";
+import { buildRecoveryKit } from "@/lib/recoveryKit";
+
+const ROTATION_PAGE_SIZE = 200;
+
+export interface AccountKeys {
+  dataKey: CryptoKey;
+  // Recorded in every ciphertext envelope written under dataKey
+  dataKeyId: string;
+  // Set while a data key rotation (password change) has not finished re-encrypting rows
+  pendingDataKey: CryptoKey | null;
+  pendingDataKeyId: string | null;
+  // True when this login created the data key (first login on a new account)
+  created: boolean;
+  // Parameters the password-derived keys were derived with
+  kdfParams: KdfParams;
+}
+
+export interface RotationProgress {
+  done: number;
+  total: number;
+  unreadable?: number; // Rows that decrypt under neither key - quarantined, not re-encrypted
+}
+
+export interface AccountKdfParams {
+  current: KdfParams;
+  // Set while a credential change has not yet been confirmed - sign-in may still need these
+  previous: KdfParams | null;
+}
+
+/**
+ * Fetches the KDF parameters needed to derive the sign-in credential for an email
+ * Unknown emails get stable decoy parameters, so the answer does not reveal whether an account exists
+ */
+export async function fetchKdfParams(email: string): Promise<AccountKdfParams> {
+  const { data, error } = await supabase.rpc("get_kdf_params", { p_email: email.toLowerCase().trim() });
+
+  if (error) {
+    throw new Error("Could not load key derivation parameters");
+  }
+
+  const params = data as { current?: Json; previous?: Json } | null;
+  return {
+    current: parseKdfParams(params?.current),
+    previous: params?.previous ? parseKdfParams(params.previous) : null,
+  };
+}
+
+/**
+ * Confirms the password for one destructive edge function call (email change, deletion)
+ * Returns an SRP proof for the request body rather than signing in again: a fresh sign-in
+ * is not proof of the password, since a login link produces one too
+ * Accounts with TOTP also confirm a current code
+ */
+export async function reauthenticate(email: string, password: string, totpCode?: string): Promise<PasswordProof> {
+  const factor = await getTotpFactor();
+  if (factor && !totpCode) {
+    throw new Error("Enter the code from your authenticator");
+  }
+
+  const kdfParams = await fetchKdfParams(email);
+  const { transmissionEmail, transmissionPassword } = await secureCredentials(email, password, kdfParams.current);
+  const proof = await createPasswordProof(transmissionEmail, transmissionPassword);
+
+  if (factor) {
+    await verifyTotp(factor.id, totpCode);
+  }
+  return proof;
+}
+
+/**
+ * Stores an SRP verifier for an account that still signs in with the derived password, so later
+ * logins use SRP. Runs after unlock rather than at sign-in: a TOTP account is only at aal2 by
+ * then, and profile updates need the second factor
+ */
+export async function registerSrpVerifier(userId: string, email: string, password: string): Promise<void> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("srp_verifier, previous_wrapped_data_key, kdf_params")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !profile) {
+    throw new Error("Profile not available for key setup");
+  }
+
+  // A credential change in progress writes the verifier for its new password itself
+  if (profile.srp_verifier || profile.previous_wrapped_data_key) return;
+
+  const { transmissionEmail, transmissionPassword } = await secureCredentials(email, password, parseKdfParams(profile.kdf_params));
+  const { error: updateError } = await supabase
+    .from("profiles")
+    .update(await srpVerifierColumns(transmissionEmail, transmissionPassword))
+    .eq("user_id", userId);
+
+  if (updateError) {
+    throw new Error("Could not store the login verifier");
+  }
+}
+
+/**
+ * Loads the account data keys for the signed-in user
+ * Unwraps profiles.wrapped_data_key with the password-derived key, or on first
+ * login creates and stores the wrapped key (adopting the legacy PBKDF2 key for
+ * accounts whose rows are already encrypted under it)
+ */
+export async function loadAccountKeys(userId: string, email: string, password: string): Promise<AccountKeys> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("wrapped_data_key, data_key_id, legacy_derived_key, pending_wrapped_data_key, pending_data_key_id, previous_wrapped_data_key, kdf_params, previous_kdf_params")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !profile) {
+    throw new Error("Profile not available for key setup");
+  }
+
+  const kdfParams = parseKdfParams(profile.kdf_params);
+  const salt = await EncryptionService.deriveSalt(email);
+  const wrappingKey = await EncryptionService.deriveWrappingKey(password, salt, kdfParams);
+
+  if (profile.wrapped_data_key) {
+    try {
+      const dataKey = await EncryptionService.unwrapDataKey(profile.wrapped_data_key, wrappingKey);
+      const pendingDataKey = profile.pending_wrapped_data_key
+        ? await EncryptionService.unwrapDataKey(profile.pending_wrapped_data_key, wrappingKey)
+        : null;
+      if (profile.previous_wrapped_data_key) {
+        await settleCredentialChange(userId, email, password, kdfParams);
+      }
+      return {
+        dataKey,
+        dataKeyId: profile.data_key_id ?? "",
+        pendingDataKey,
+        pendingDataKeyId: profile.pending_data_key_id,
+        created: false,
+        kdfParams,
+      };
+    } catch (unwrapError) {
+      if (!profile.previous_wrapped_data_key) {
+        throw unwrapError;
+      }
+
+      // A password change was interrupted: the old password may still open the previous wrap.
+      // Roll back only while the auth credential is provably the old one - once it has moved on,
+      // the old wraps would no longer match the credential or the verifier
+      const { data: status, error: statusError } = await supabase.rpc("credential_change_status");
+      if (statusError) {
+        throw new Error("Could not check the interrupted password change");
+      }
+      if (status !== "unfinished") {
+        if (status === "finished") {
+          await clearCredentialChange(userId);
+        }
+        throw unwrapError;
+      }
+
+      const previousKdfParams = profile.previous_kdf_params
+        ? parseKdfParams(profile.previous_kdf_params)
+        : kdfParams;
+      const previousWrappingKey = profile.previous_kdf_params
+        ? await EncryptionService.deriveWrappingKey(password, salt, previousKdfParams)
+        : wrappingKey;
+      const dataKey = await EncryptionService.unwrapDataKey(profile.previous_wrapped_data_key, previousWrappingKey);
+      const { error: rollbackError } = await supabase
+        .from("profiles")
+        .update({
+          wrapped_data_key: profile.previous_wrapped_data_key,
+          pending_wrapped_data_key: null,
+          pending_data_key_id: null,
+          previous_wrapped_data_key: null,
+          recovery_pending_wrapped_data_key: null,
+          kdf_params: previousKdfParams as unknown as Json,
+          previous_kdf_params: null,
+          // The verifier already belongs to the new password; registerSrpVerifier replaces it
+          srp_salt: null,
+          srp_verifier: null,
+        })
+        .eq("user_id", userId);
+
+      if (rollbackError) {
+        throw new Error("Could not roll back the interrupted password change");
+      }
+      await supabase.rpc("end_credential_change");
+
+      return {
+        dataKey,
+        dataKeyId: profile.data_key_id ?? "",
+        pendingDataKey: null,
+        pendingDataKeyId: null,
+        created: false,
+        kdfParams: previousKdfParams,
+      };
+    }
+  }
+
+  const dataKey = profile.legacy_derived_key
+    ? await EncryptionService.deriveKey(password, salt)
+    : await EncryptionService.generateDataKey();
+  const dataKeyId = EncryptionService.generateKeyId();
+  const wrappedDataKey = await EncryptionService.wrapDataKey(dataKey, wrappingKey);
+
+  // Only claim the slot if it is still empty - another device may have won the race
+  const { data: updated, error: updateError } = await supabase
+    .from("profiles")
+    .update({ wrapped_data_key: wrappedDataKey, data_key_id: dataKeyId })
+    .eq("user_id", userId)
+    .is("wrapped_data_key", null)
+    .select("wrapped_data_key");
+
+  if (updateError) {
+    throw new Error("Could not store the wrapped data key");
+  }
+
+  if (updated && updated.length > 0) {
+    return { dataKey, dataKeyId, pendingDataKey: null, pendingDataKeyId: null, created: true, kdfParams };
+  }
+
+  const { data: current, error: reloadError } = await supabase
+    .from("profiles")
+    .select("wrapped_data_key, data_key_id")
+    .eq("user_id", userId)
+    .single();
+
+  if (reloadError || !current?.wrapped_data_key) {
+    throw new Error("Could not load the wrapped data key");
+  }
+
+  return {
+    dataKey: await EncryptionService.unwrapDataKey(current.wrapped_data_key, wrappingKey),
+    dataKeyId: current.data_key_id ?? "",
+    pendingDataKey: null,
+    pendingDataKeyId: null,
+    created: false,
+    kdfParams,
+  };
+}
+
+/**
+ * Keys a password (usually an old one) can still produce, for retrying rows that failed
+ * to decrypt: the legacy PBKDF2 key, plus every wrap in the profile the password opens
+ */
+export async function deriveAlternateKeys(userId: string, email: string, password: string): Promise<CryptoKey[]> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("wrapped_data_key, pending_wrapped_data_key, previous_wrapped_data_key, kdf_params, previous_kdf_params")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !profile) {
+    throw new Error("Profile not available for key setup");
+  }
+
+  const salt = await EncryptionService.deriveSalt(email);
+  const keys = [await EncryptionService.deriveKey(password, salt)];
+  const wraps = [profile.wrapped_data_key, profile.pending_wrapped_data_key, profile.previous_wrapped_data_key]
+    .filter((wrap): wrap is string => Boolean(wrap));
+  const paramSets = [profile.kdf_params, profile.previous_kdf_params]
+    .filter(Boolean)
+    .map((params) => parseKdfParams(params));
+
+  for (const params of paramSets) {
+    const wrappingKey = await EncryptionService.deriveWrappingKey(password, salt, params);
+    for (const wrap of wraps) {
+      try {
+        keys.push(await EncryptionService.unwrapDataKey(wrap, wrappingKey));
+      } catch (unwrapError) {
+        // Not wrapped under this password
+      }
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Drops the rollback copy of a credential change that no credential can open any more
+ */
+async function clearCredentialChange(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from("profiles")
+    .update({ previous_wrapped_data_key: null, previous_kdf_params: null })
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error("Could not clear the interrupted password change");
+  }
+  await supabase.rpc("end_credential_change");
+}
+
+/**
+ * Settles a credential change the profile still records, once the current wrap has unlocked
+ * If the auth credential was never switched (the session came from a login link), it is
+ * switched now; either way the rollback copy is dropped
+ */
+async function settleCredentialChange(userId: string, email: string, password: string, kdfParams: KdfParams): Promise<void> {
+  const { data: status, error } = await supabase.rpc("credential_change_status");
+  if (error) {
+    throw new Error("Could not check the interrupted password change");
+  }
+
+  if (status === "unfinished") {
+    const { error: authError } = await supabase.auth.updateUser({
+      password: await deriveTransmissionPassword(password, email, kdfParams),
+    });
+    if (authError) {
+      throw new Error(`Password update failed: ${authError.message}`);
+    }
+  }
+
+  await clearCredentialChange(userId);
+}
+
+/**
+ * Stores new wraps, then switches the Supabase credential to the matching transmission password
+ * The previous wrap stays in the profile until the credential update succeeds, so an
+ * interruption in between can be rolled back on the next login with the old password.
+ * begin_credential_change() fingerprints the auth credential first, which is how that login
+ * tells an interruption before the credential update from one after it
+ * The SRP verifier is replaced in the same update; a restore clears it and the next login re-registers
+ */
+async function commitCredentialChange(
+  userId: string,
+  email: string,
+  update: TablesUpdate<"profiles">,
+  restore: TablesUpdate<"profiles">,
+  transmissionPassword: string
+): Promise<void> {
+  const { error: beginError } = await supabase.rpc("begin_credential_change");
+  if (beginError) {
+    throw new Error("Could not start the password change");
+  }
+
+  const { error: wrapError } = await supabase
+    .from("profiles")
+    .update({ ...update, ...(await srpVerifierColumns(email, transmissionPassword)) })
+    .eq("user_id", userId);
+
+  if (wrapError) {
+    await supabase.rpc("end_credential_change");
+    throw new Error("Could not store the re-wrapped data key");
+  }
+
+  const { error: authError } = await supabase.auth.updateUser({ password: transmissionPassword });
+
+  if (authError) {
+    await supabase
+      .from("profiles")
+      .update({
+        ...restore,
+        previous_wrapped_data_key: null,
+        previous_kdf_params: null,
+        srp_salt: null,
+        srp_verifier: null,
+      })
+      .eq("user_id", userId);
+    await supabase.rpc("end_credential_change");
+    throw new Error(`Password update failed: ${authError.message}`);
+  }
+
+  // The old credential can no longer sign in, so drop the rollback copy; if this fails the
+  // next unlock settles it
+  await clearCredentialChange(userId).catch(() => undefined);
+}
+
+/**
+ * Moves the account to Argon2id parameters calibrated for this device
+ * Only the data key wraps and the sign-in credential change - no rows are re-encrypted
+ */
+export async function upgradeKdfParams(userId: string, email: string, password: string): Promise<KdfParams> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("wrapped_data_key, pending_wrapped_data_key, kdf_params")
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !profile?.wrapped_data_key) {
+    throw new Error("Profile not available for key derivation upgrade");
+  }
+
+  const currentKdfParams = parseKdfParams(profile.kdf_params);
+  const nextKdfParams = await calibrateArgon2id();
+
+  const salt = await EncryptionService.deriveSalt(email);
+  const currentWrappingKey = await EncryptionService.deriveWrappingKey(password, salt, currentKdfParams);
+  const nextWrappingKey = await EncryptionService.deriveWrappingKey(password, salt, nextKdfParams);
+
+  const dataKey = await EncryptionService.unwrapDataKey(profile.wrapped_data_key, currentWrappingKey);
+  const pendingDataKey = profile.pending_wrapped_data_key
+    ? await EncryptionService.unwrapDataKey(profile.pending_wrapped_data_key, currentWrappingKey)
+    : null;
+
+  await commitCredentialChange(
+    userId,
+    email,
+    {
+      wrapped_data_key: await EncryptionService.wrapDataKey(dataKey, nextWrappingKey),
+      pending_wrapped_data_key: pendingDataKey
+        ? await EncryptionService.wrapDataKey(pendingDataKey, nextWrappingKey)
+        : null,
+      previous_wrapped_data_key: profile.wrapped_data_key,
+      kdf_params: nextKdfParams as unknown as Json,
+      previous_kdf_params: currentKdfParams as unknown as Json,
+    },
+    {
+      wrapped_data_key: profile.wrapped_data_key,
+      pending_wrapped_data_key: profile.pending_wrapped_data_key,
+      kdf_params: currentKdfParams as unknown as Json,
+    },
+    await deriveTransmissionPassword(password, email, nextKdfParams)
+  );
+
+  return nextKdfParams;
+}
+
+/**
+ * Changes the account password
+ * Re-wraps the data keys under the new password, updates the Supabase credential,
+ * then re-encrypts every row under a fresh data key. Returns the new data key and its id
+ */
+export async function changePassword(
+  userId: string,
+  email: string,
+  currentPassword: string,
+  newPassword: string,
+  onProgress?: (progress: RotationProgress) => void
+): Promise<Pick<AccountKeys, "dataKey" | "dataKeyId">> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("wrapped_data_key, pending_wrapped_data_key, pending_data_key_id, recovery_key_escrow, recovery_pending_wrapped_data_key, kdf_params")
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !profile?.wrapped_data_key) {
+    throw new Error("Profile not available for password change");
+  }
+
+  const kdfParams = parseKdfParams(profile.kdf_params);
+  const salt = await EncryptionService.deriveSalt(email);
+  const currentWrappingKey = await EncryptionService.deriveWrappingKey(currentPassword, salt, kdfParams);
+
+  let dataKey: CryptoKey;
+  try {
+    dataKey = await EncryptionService.unwrapDataKey(profile.wrapped_data_key, currentWrappingKey);
+  } catch (unwrapError) {
+    throw new Error("Current password is incorrect");
+  }
+
+  // Reuse the pending key if an earlier rotation was interrupted, so no row ends up under a third key
+  const nextDataKey = profile.pending_wrapped_data_key
+    ? await EncryptionService.unwrapDataKey(profile.pending_wrapped_data_key, currentWrappingKey)
+    : await EncryptionService.generateDataKey();
+  const nextDataKeyId = (profile.pending_wrapped_data_key && profile.pending_data_key_id)
+    || EncryptionService.generateKeyId();
+
+  // Keep the recovery kit able to open the pending key while rows move over
+  const recoveryPendingWrappedDataKey = profile.recovery_key_escrow
+    ? await EncryptionService.wrapDataKey(
+        nextDataKey,
+        await EncryptionService.unwrapWrappingKey(profile.recovery_key_escrow, dataKey)
+      )
+    : null;
+
+  const newWrappingKey = await EncryptionService.deriveWrappingKey(newPassword, salt, kdfParams);
+  await commitCredentialChange(
+    userId,
+    email,
+    {
+      wrapped_data_key: await EncryptionService.wrapDataKey(dataKey, newWrappingKey),
+      pending_wrapped_data_key: await EncryptionService.wrapDataKey(nextDataKey, newWrappingKey),
+      pending_data_key_id: nextDataKeyId,
+      previous_wrapped_data_key: profile.wrapped_data_key,
+      recovery_pending_wrapped_data_key: recoveryPendingWrappedDataKey,
+    },
+    {
+      wrapped_data_key: profile.wrapped_data_key,
+      pending_wrapped_data_key: profile.pending_wrapped_data_key,
+      pending_data_key_id: profile.pending_data_key_id,
+      recovery_pending_wrapped_data_key: profile.recovery_pending_wrapped_data_key,
+    },
+    await deriveTransmissionPassword(newPassword, email, kdfParams)
+  );
+
+  await rotateDataKey(userId, dataKey, nextDataKey, nextDataKeyId, onProgress);
+  return { dataKey: nextDataKey, dataKeyId: nextDataKeyId };
+}
+
+/**
+ * Re-encrypts every encrypted row from the current data key to the pending one,
+ * then promotes the pending key. Safe to re-run after an interruption: rows that
+ * are already tagged with (or decrypt under) the pending key are skipped
+ */
+export async function rotateDataKey(
+  userId: string,
+  currentKey: CryptoKey,
+  nextKey: CryptoKey,
+  nextKeyId: string,
+  onProgress?: (progress: RotationProgress) => void
+): Promise<void> {
+  const { data: owner, error: ownerError } = await supabase
+    .from("profiles")
+    .select("pseudonym_id, envelope_min_version")
+    .eq("user_id", userId)
+    .single();
+
+  if (ownerError) {
+    throw new Error("Profile not available for key rotation");
+  }
+
+  const counts = await Promise.all(
+    ENCRYPTED_TABLES.map(async (table) => {
+      // RLS limits every table to the signed-in user's rows
+      const { count, error } = await supabase
+        .from(table)
+        .select("id", { count: "exact", head: true });
+      if (error) throw error;
+      return count ?? 0;
+    })
+  );
+
+  const progress: RotationProgress = { done: 0, total: counts.reduce((a, b) => a + b, 0), unreadable: 0 };
+  onProgress?.({ ...progress });
+
+  const unreadable: QuarantineCandidate[] = [];
+  for (const table of ENCRYPTED_TABLES) {
+    await rotateTable(
+      table,
+      owner.pseudonym_id,
+      owner.envelope_min_version,
+      currentKey,
+      nextKey,
+      nextKeyId,
+      progress,
+      unreadable,
+      onProgress
+    );
+  }
+
+  // These rows were not under the current key before the rotation either (another key, or a
+  // broken binding), so promoting does not lose anything the current key could read. They are
+  // kept with the key id from their envelope so the quarantine can retry them with an old password
+  quarantine.add(unreadable, nextKeyId);
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("pending_wrapped_data_key, recovery_key_escrow, recovery_pending_wrapped_data_key")
+    .eq("user_id", userId)
+    .single();
+
+  if (error) {
+    throw new Error("Could not finish key rotation");
+  }
+
+  if (profile.pending_wrapped_data_key) {
+    const recoveryUpdate: Record<string, string | null> = {};
+    if (profile.recovery_key_escrow) {
+      // Re-escrow the recovery key under the new data key so the recovery kit keeps working
+      const recoveryKey = await EncryptionService.unwrapWrappingKey(profile.recovery_key_escrow, currentKey);
+      recoveryUpdate.recovery_wrapped_data_key = profile.recovery_pending_wrapped_data_key
+        ?? await EncryptionService.wrapDataKey(nextKey, recoveryKey);
+      recoveryUpdate.recovery_key_escrow = await EncryptionService.wrapDataKey(recoveryKey, nextKey);
+      recoveryUpdate.recovery_pending_wrapped_data_key = null;
+    }
+
+    const { error: commitError } = await supabase
+      .from("profiles")
+      .update({
+        wrapped_data_key: profile.pending_wrapped_data_key,
+        data_key_id: nextKeyId,
+        pending_wrapped_data_key: null,
+        pending_data_key_id: null,
+        legacy_derived_key: false,
+        ...recoveryUpdate,
+      })
+      .eq("user_id", userId);
+
+    if (commitError) {
+      throw new Error("Could not finish key rotation");
+    }
+  }
+}
+
+async function rotateTable(
+  table: EncryptedTable,
+  pseudonymId: string,
+  minVersion: string | null,
+  currentKey: CryptoKey,
+  nextKey: CryptoKey,
+  nextKeyId: string,
+  progress: RotationProgress,
+  unreadable: QuarantineCandidate[],
+  onProgress?: (progress: RotationProgress) => void
+): Promise<void> {
+  const columns: readonly string[] = ENCRYPTED_COLUMNS[table];
+
+  for (let offset = 0; ; offset += ROTATION_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(["id", ...columns].join(","))
+      .order("id")
+      .range(offset, offset + ROTATION_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as EncryptedRow[];
+
+    await Promise.all(
+      rows.map(async (row) => {
+        const outcome = await reencryptRow(table, pseudonymId, minVersion, row, columns, currentKey, nextKey, nextKeyId);
+        if (outcome.status === "update") {
+          const { error: updateError } = await supabase.from(table).update(outcome.update).eq("id", row.id);
+          if (updateError) throw updateError;
+        } else if (outcome.status === "unreadable") {
+          const values: Record<string, string> = {};
+          for (const column of columns) {
+            if (row[column]) values[column] = row[column];
+          }
+          unreadable.push({ table, id: row.id, failure: outcome.failure, values });
+          progress.unreadable = (progress.unreadable ?? 0) + 1;
+        }
+      })
+    );
+
+    progress.done += rows.length;
+    onProgress?.({ ...progress });
+
+    if (rows.length < ROTATION_PAGE_SIZE) break;
+  }
+}
+
+type ReencryptOutcome =
+  | { status: "update"; update: Record<string, string> }
+  | { status: "rotated" } // Already under the next key (an earlier, interrupted run)
+  | { status: "unreadable"; failure: DecryptFailure };
+
+// Values older than minVersion are unreadable rather than re-bound, so rotation cannot launder a planted one
+async function reencryptRow(
+  table: EncryptedTable,
+  pseudonymId: string,
+  minVersion: string | null,
+  row: EncryptedRow,
+  columns: readonly string[],
+  currentKey: CryptoKey,
+  nextKey: CryptoKey,
+  nextKeyId: string
+): Promise<ReencryptOutcome> {
+  const update: Record<string, string> = {};
+
+  for (const column of columns) {
+    const value = row[column];
+    if (!value) continue;
+
+    const binding = { table, column, rowId: row.id, pseudonymId };
+    let plaintext: string;
+    try {
+      if (nextKeyId && EncryptionService.parseEnvelope(value).keyId === nextKeyId) {
+        return { status: "rotated" };
+      }
+      plaintext = await EncryptionService.decrypt(value, currentKey, undefined, binding, minVersion);
+    } catch (error) {
+      // Rows are updated atomically, so one column under the next key means the whole row is.
+      // Legacy values carry no key id, so that is only known by trying the next key
+      try {
+        await EncryptionService.decrypt(value, nextKey, undefined, binding, minVersion);
+        return { status: "rotated" };
+      } catch (nextKeyError) {
+        return { status: "unreadable", failure: classifyDecryptError(error) };
+      }
+    }
+
+    const { encrypted } = await EncryptionService.encrypt(plaintext, nextKey, nextKeyId, binding);
+    update[column] = encrypted;
+  }
+
+  return Object.keys(update).length > 0 ? { status: "update", update } : { status: "rotated" };
+}
+
+/**
+ * Sends a confirmation code to the new address; nothing changes until changeEmail passes it back
+ */
+export async function requestEmailChange(newEmail: string): Promise<void> {
+  const { error } = await supabase.auth.updateUser({ email: newEmail.toLowerCase().trim() });
+  if (error?.status === 429) {
+    throw new Error("Too many codes requested. Try again later.");
+  }
+  if (error) {
+    throw new Error("Could not send a code to that address");
+  }
+}
+
+/**
+ * Changes the account email once the new address has confirmed emailCode (see requestEmailChange)
+ * The email salts the wrapping key, the sign-in credential and the recovery kit, so the data keys
+ * are re-wrapped for the new address, a new recovery kit is issued, and the change-email edge
+ * function swaps the wraps, the kit, the credential and the auth email together, undoing them if a
+ * step fails. Rows are not re-encrypted. Returns the new recovery code, which is shown once
+ */
+export async function changeEmail(
+  userId: string,
+  email: string,
+  newEmail: string,
+  password: string,
+  emailCode: string,
+  totpCode?: string
+): Promise<string> {
+  const passwordProof = await reauthenticate(email, password, totpCode);
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("id, pseudonym_id, wrapped_data_key, data_key_id, pending_wrapped_data_key, previous_wrapped_data_key, kdf_params")
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !profile?.wrapped_data_key) {
+    throw new Error("Profile not available for email change");
+  }
+  if (profile.previous_wrapped_data_key) {
+    throw new Error("Finish the password change before changing email");
+  }
+
+  const normalizedEmail = newEmail.toLowerCase().trim();
+  const kdfParams = parseKdfParams(profile.kdf_params);
+  const currentWrappingKey = await EncryptionService.deriveWrappingKey(
+    password,
+    await EncryptionService.deriveSalt(email),
+    kdfParams
+  );
+  const nextWrappingKey = await EncryptionService.deriveWrappingKey(
+    password,
+    await EncryptionService.deriveSalt(normalizedEmail),
+    kdfParams
+  );
+
+  const dataKey = await EncryptionService.unwrapDataKey(profile.wrapped_data_key, currentWrappingKey);
+  const pendingDataKey = profile.pending_wrapped_data_key
+    ? await EncryptionService.unwrapDataKey(profile.pending_wrapped_data_key, currentWrappingKey)
+    : null;
+
+  const transmissionPassword = await deriveTransmissionPassword(password, normalizedEmail, kdfParams);
+  const { srp_salt: srpSalt, srp_verifier: srpVerifier } = await srpVerifierColumns(normalizedEmail, transmissionPassword);
+  const { recoveryCode, wraps: recoveryKit } = await buildRecoveryKit(normalizedEmail, dataKey, pendingDataKey);
+  const { data, error: changeError } = await supabase.functions.invoke("change-email", {
+    body: {
+      passwordProof,
+      newEmail: normalizedEmail,
+      emailCode,
+      recoveryKit,
+      transmissionPassword,
+      srpSalt,
+      srpVerifier,
+      wrappedDataKey: await EncryptionService.wrapDataKey(dataKey, nextWrappingKey),
+      pendingWrappedDataKey: pendingDataKey
+        ? await EncryptionService.wrapDataKey(pendingDataKey, nextWrappingKey)
+        : null,
+      encryptedEmail: (await EncryptionService.encrypt(normalizedEmail, dataKey, profile.data_key_id ?? "", {
+        ...bindFields("profiles", profile.id)("encrypted_email"),
+        pseudonymId: profile.pseudonym_id,
+      })).encrypted,
+    },
+  });
+
+  if (changeError || !data?.success) {
+    throw new Error("Email change failed. Check the code and your password; your email is unchanged.");
+  }
+  return recoveryCode;
+}
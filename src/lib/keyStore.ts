@@ -0,0 +1,63 @@
+// Opt-in "remember this device" storage for the session data key
+// IndexedDB stores the CryptoKey object itself via structured clone: the key is
+// non-extractable, so its raw bytes cannot be read back by scripts or from the store
+
+const DB_NAME = "stand-keys";
+const DB_VERSION = 1;
+const STORE_NAME = "session-keys";
+
+export interface RememberedKey {
+  key: CryptoKey;
+  keyId: string;
+  email: string;
+  expiresAt: number; // Epoch ms - the record is discarded once this passes
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveRememberedKey(userId: string, remembered: RememberedKey): Promise<void> {
+  if (remembered.key.extractable) {
+    throw new Error("Only non-extractable keys can be remembered");
+  }
+  await withStore("readwrite", (store) => store.put(remembered, userId));
+}
+
+/**
+ * Returns the remembered key for a user, or null when none is stored or it has expired
+ */
+export async function loadRememberedKey(userId: string): Promise<RememberedKey | null> {
+  const remembered = await withStore<RememberedKey | undefined>("readonly", (store) => store.get(userId));
+  if (!remembered) return null;
+
+  if (remembered.expiresAt <= Date.now()) {
+    await deleteRememberedKey(userId);
+    return null;
+  }
+  return remembered;
+}
+
+export async function deleteRememberedKey(userId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(userId));
+}
@@ -0,0 +1,32 @@
+// Passwordless sign-in with an emailed link (Supabase OTP)
+// The link only proves control of the email. The data key still needs the password or a passkey,
+// which /auth asks for when the link lands there (the redirect carries MAGIC_LINK_PARAM)
+
+import { supabase } from "@/integrations/supabase/client";
+
+const MAGIC_LINK_PARAM = "link";
+
+/**
+ * Emails a login link. Unknown addresses do not get an account and are not reported,
+ * so the form cannot be used to probe which emails are registered
+ */
+export async function sendMagicLink(email: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.toLowerCase().trim(),
+    options: {
+      shouldCreateUser: false,
+      emailRedirectTo: `${window.location.origin}/auth?${MAGIC_LINK_PARAM}=1`,
+    },
+  });
+
+  if (error?.status === 429) {
+    throw new Error("Too many login links requested. Try again later.");
+  }
+}
+
+/**
+ * True when the page was opened from a login link
+ */
+export function isMagicLinkReturn(): boolean {
+  return new URLSearchParams(window.location.search).has(MAGIC_LINK_PARAM);
+}
@@ -0,0 +1,197 @@
+// Passkey unlock via the WebAuthn PRF extension
+// The authenticator evaluates a PRF over a per-passkey salt; the output is stretched with
+// HKDF into a key-encryption key that wraps the account data key. Only the wrap, the
+// credential id and the salt are stored (passkey_wraps) - the PRF output never leaves the
+// browser, so the server still cannot unwrap the data key
+//
+// This unlocks the encryption key for an existing Supabase session (lock screen, refresh);
+// it does not sign in to Supabase
+
+import { supabase } from "@/integrations/supabase/client";
+import { EncryptionService } from "@/lib/encryption";
+
+const PRF_SALT_BYTES = 32;
+const HKDF_INFO = "stand-passkey-kek";
+const RP_NAME = "STAND";
+
+export interface PasskeySummary {
+  id: string;
+  label: string;
+  createdAt: string;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  return btoa(String.fromCharCode(...array)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return new Uint8Array(atob(padded).split("").map(c => c.charCodeAt(0)));
+}
+
+/**
+ * True when the browser exposes WebAuthn - PRF support itself is only known after a ceremony
+ */
+export function isPasskeySupported(): boolean {
+  return typeof window !== "undefined" && typeof window.PublicKeyCredential === "function";
+}
+
+// PRF output -> non-extractable AES-GCM key-encryption key
+async function deriveKekFromPrf(prfOutput: BufferSource): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", prfOutput, "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: encoder.encode(HKDF_INFO) },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function evaluatePrf(
+  allowCredentials: Uint8Array[],
+  saltsByCredential: Record<string, Uint8Array>
+): Promise<{ credentialId: string; output: BufferSource }> {
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      rpId: window.location.hostname,
+      allowCredentials: allowCredentials.map((id) => ({ type: "public-key", id })),
+      userVerification: "required",
+      extensions: {
+        prf: {
+          evalByCredential: Object.fromEntries(
+            Object.entries(saltsByCredential).map(([id, salt]) => [id, { first: salt }])
+          ),
+        },
+      },
+    },
+  })) as PublicKeyCredential | null;
+
+  const output = assertion?.getClientExtensionResults().prf?.results?.first;
+  if (!assertion || !output) {
+    throw new Error("This passkey does not support unlocking encryption (PRF)");
+  }
+  return { credentialId: toBase64Url(assertion.rawId), output };
+}
+
+/**
+ * Registers a new passkey and stores the data key wrapped under its PRF output
+ * Needs an extractable data key (unwrapped with the password), not the session key
+ */
+export async function registerPasskey(
+  userId: string,
+  email: string,
+  dataKey: CryptoKey,
+  dataKeyId: string,
+  label: string
+): Promise<void> {
+  if (!isPasskeySupported()) {
+    throw new Error("Passkeys are not supported in this browser");
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(PRF_SALT_BYTES));
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      rp: { name: RP_NAME, id: window.location.hostname },
+      user: { id: encoder.encode(userId), name: email, displayName: email },
+      pubKeyCredParams: [
+        { type: "public-key", alg: -7 },
+        { type: "public-key", alg: -257 },
+      ],
+      authenticatorSelection: { residentKey: "preferred", userVerification: "required" },
+      extensions: { prf: { eval: { first: salt } } },
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("Passkey registration was cancelled");
+  }
+
+  const credentialId = toBase64Url(credential.rawId);
+  const prf = credential.getClientExtensionResults().prf;
+  if (prf?.enabled === false) {
+    throw new Error("This passkey does not support unlocking encryption (PRF)");
+  }
+
+  // Some authenticators only evaluate the PRF during an assertion, not at creation
+  const output = prf?.results?.first
+    ?? (await evaluatePrf([new Uint8Array(credential.rawId)], { [credentialId]: salt })).output;
+  const kek = await deriveKekFromPrf(output);
+
+  const { error } = await supabase.from("passkey_wraps").insert({
+    user_id: userId,
+    credential_id: credentialId,
+    prf_salt: toBase64Url(salt),
+    wrapped_data_key: await EncryptionService.wrapDataKey(dataKey, kek),
+    data_key_id: dataKeyId,
+    label,
+  });
+
+  if (error) {
+    throw new Error("Could not store the passkey");
+  }
+}
+
+/**
+ * Unlocks the session key with any registered passkey
+ * Returns a non-extractable key and the id of the data key it belongs to
+ */
+export async function unlockWithPasskey(userId: string): Promise<{ key: CryptoKey; keyId: string }> {
+  const { data: wraps, error } = await supabase
+    .from("passkey_wraps")
+    .select("credential_id, prf_salt, wrapped_data_key, data_key_id")
+    .eq("user_id", userId);
+
+  if (error || !wraps || wraps.length === 0) {
+    throw new Error("No passkey is registered for this account");
+  }
+
+  const { credentialId, output } = await evaluatePrf(
+    wraps.map((wrap) => fromBase64Url(wrap.credential_id)),
+    Object.fromEntries(wraps.map((wrap) => [wrap.credential_id, fromBase64Url(wrap.prf_salt)]))
+  );
+
+  const wrap = wraps.find((candidate) => candidate.credential_id === credentialId);
+  if (!wrap) {
+    throw new Error("Unknown passkey");
+  }
+
+  const kek = await deriveKekFromPrf(output);
+  return {
+    key: await EncryptionService.unwrapSessionKey(wrap.wrapped_data_key, kek),
+    keyId: wrap.data_key_id,
+  };
+}
+
+export async function listPasskeys(userId: string): Promise<PasskeySummary[]> {
+  const { data, error } = await supabase
+    .from("passkey_wraps")
+    .select("id, label, created_at")
+    .eq("user_id", userId)
+    .order("created_at");
+
+  if (error) {
+    throw new Error("Could not load passkeys");
+  }
+  return (data ?? []).map((row) => ({ id: row.id, label: row.label, createdAt: row.created_at }));
+}
+
+export async function removePasskey(id: string): Promise<void> {
+  const { error } = await supabase.from("passkey_wraps").delete().eq("id", id);
+  if (error) {
+    throw new Error("Could not remove the passkey");
+  }
+}
+
+/**
+ * Drops every passkey wrap - they wrap a data key that a password change has replaced
+ */
+export async function removeAllPasskeys(userId: string): Promise<void> {
+  await supabase.from("passkey_wraps").delete().eq("user_id", userId);
+}
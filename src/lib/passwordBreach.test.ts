@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { breachCount, createFixtureRangeProvider } from "@/lib/passwordBreach";
+
+// SHA-1("password") = 5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8
+const PASSWORD_PREFIX = "5BAA6";
+const PASSWORD_SUFFIX = "1E4C9B93F3F0682250B6CF8331B7EE68FD8";
+
+describe("createFixtureRangeProvider", () => {
+  it("answers a prefix with the suffixes and counts under it", async () => {
+    const provider = createFixtureRangeProvider({ password: 42 });
+    expect(await provider(PASSWORD_PREFIX)).toBe(`${PASSWORD_SUFFIX}:42`);
+    expect(await provider("00000")).toBe("");
+  });
+});
+
+describe("breachCount", () => {
+  it("returns the count of a listed password", async () => {
+    const provider = createFixtureRangeProvider({ password: 42, letmein: 7 });
+    expect(await breachCount("password", provider)).toBe(42);
+    expect(await breachCount("letmein", provider)).toBe(7);
+  });
+
+  it("returns 0 for a password the provider does not list", async () => {
+    const provider = createFixtureRangeProvider({ password: 42 });
+    expect(await breachCount("Zebulon-Frak-Quixle", provider)).toBe(0);
+  });
+
+  it("sends only the hash prefix", async () => {
+    const prefixes: string[] = [];
+    await breachCount("password", async (prefix) => {
+      prefixes.push(prefix);
+      return "";
+    });
+    expect(prefixes).toEqual([PASSWORD_PREFIX]);
+  });
+
+  it("ignores padding lines and matches suffixes case-insensitively", async () => {
+    const body = [
+      "0018A45C4D1DEF81644B54AB7F969B88D65:0",
+      ` ${PASSWORD_SUFFIX.toLowerCase()}:9 `,
+      "00D4F6E8FA6EECAD2A3AA415EEC418D38EC:0",
+    ].join("\r\n");
+    expect(await breachCount("password", async () => body)).toBe(9);
+  });
+});
@@ -0,0 +1,69 @@
+// Breached-password check with k-anonymity (Have I Been Pwned range API format)
+// Only the first 5 hex characters of the password's SHA-1 leave the browser; the provider answers
+// with every known suffix under that prefix and the match is made locally
+
+const encoder = new TextEncoder();
+
+const PREFIX_LENGTH = 5;
+const PWNED_PASSWORDS_RANGE_URL = "https://api.pwnedpasswords.com/range/";
+
+/**
+ * Returns the range body for a 5-character uppercase SHA-1 prefix:
+ * one "SUFFIX:COUNT" line per known hash (35-character uppercase suffix)
+ */
+export type RangeProvider = (prefix: string) => Promise<string>;
+
+async function sha1Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-1", encoder.encode(value));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+}
+
+/**
+ * The public Pwned Passwords range API. Padding makes every response a similar size,
+ * so the prefix cannot be inferred from the response length either
+ */
+export const pwnedPasswordsRangeProvider: RangeProvider = async (prefix) => {
+  const response = await fetch(`${PWNED_PASSWORDS_RANGE_URL}${prefix}`, {
+    headers: { "Add-Padding": "true" },
+  });
+  if (!response.ok) {
+    throw new Error(`Breach check unavailable (${response.status})`);
+  }
+  return response.text();
+};
+
+/**
+ * Answers from a fixed list of breached passwords instead of the network - for tests and offline builds
+ */
+export function createFixtureRangeProvider(breached: Record<string, number>): RangeProvider {
+  const hashes = Promise.all(
+    Object.entries(breached).map(async ([password, count]) => ({ hash: await sha1Hex(password), count }))
+  );
+
+  return async (prefix) =>
+    (await hashes)
+      .filter(({ hash }) => hash.startsWith(prefix))
+      .map(({ hash, count }) => `${hash.slice(PREFIX_LENGTH)}:${count}`)
+      .join("\r\n");
+}
+
+/**
+ * How often the password appears in known breaches; 0 when it does not.
+ * Padding lines carry a count of 0 and never match
+ */
+export async function breachCount(password: string, provider: RangeProvider): Promise<number> {
+  const hash = await sha1Hex(password);
+  const suffix = hash.slice(PREFIX_LENGTH);
+  const body = await provider(hash.slice(0, PREFIX_LENGTH));
+
+  for (const line of body.split(/\r?\n/)) {
+    const [lineSuffix, count] = line.trim().split(":");
+    if (lineSuffix?.toUpperCase() === suffix) {
+      return parseInt(count, 10) || 0;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { assertPasswordAllowed, estimatePasswordStrength, PasswordPolicy } from "@/lib/passwordStrength";
+import { createFixtureRangeProvider } from "@/lib/passwordBreach";
+
+// Random characters match no pattern, so each costs one brute-force digit of log10 guesses
+const RANDOM = "kq7vztmwx3rj";
+const STRONG_PASSWORD = "Zebulon-Frak-Quixle";
+
+const offline = (policy: Partial<PasswordPolicy> = {}): PasswordPolicy => ({
+  minScore: 3,
+  rangeProvider: null,
+  ...policy,
+});
+
+describe("estimatePasswordStrength", () => {
+  it("scores an empty password 0 without a warning", () => {
+    expect(estimatePasswordStrength("")).toEqual({ score: 0, guessesLog10: 0, warning: null });
+  });
+
+  it.each([
+    [2, 0],
+    [3, 1],
+    [5, 1],
+    [6, 2],
+    [7, 2],
+    [8, 3],
+    [9, 3],
+    [10, 4],
+  ])("scores %i random characters as %i", (length, score) => {
+    const strength = estimatePasswordStrength(RANDOM.slice(0, length));
+    expect(strength.guessesLog10).toBeCloseTo(length);
+    expect(strength.score).toBe(score);
+  });
+
+  it("asks for more words below the strong threshold only", () => {
+    expect(estimatePasswordStrength(RANDOM.slice(0, 7)).warning).toMatch(/another word/);
+    expect(estimatePasswordStrength(RANDOM.slice(0, 8)).warning).toBeNull();
+  });
+
+  it.each([
+    ["password", /most common passwords/],
+    ["P@ssw0rd", /most common passwords/],
+    ["qwertyuiop", /most common passwords/],
+    ["aaaaaaaa", /Repeats/],
+    ["abcdefgh1999", /Sequences/],
+  ])("finds the pattern in %s", (password, warning) => {
+    const strength = estimatePasswordStrength(password);
+    expect(strength.score).toBeLessThan(2);
+    expect(strength.warning).toMatch(warning);
+  });
+
+  it("counts email tokens against the password", () => {
+    const email = "zebulon.frak@example.com";
+    const alone = estimatePasswordStrength("zebulonfrak42");
+    const withEmail = estimatePasswordStrength("zebulonfrak42", [email]);
+
+    expect(alone.score).toBe(4);
+    expect(withEmail.score).toBe(0);
+    expect(withEmail.warning).toMatch(/your email/);
+    expect(estimatePasswordStrength(STRONG_PASSWORD, [email]).guessesLog10)
+      .toBeLessThan(estimatePasswordStrength(STRONG_PASSWORD).guessesLog10);
+  });
+});
+
+describe("assertPasswordAllowed", () => {
+  it("accepts a strong password", async () => {
+    await expect(assertPasswordAllowed(STRONG_PASSWORD, [], offline())).resolves.toBeUndefined();
+  });
+
+  it("rejects a password below the minimum score", async () => {
+    await expect(assertPasswordAllowed(RANDOM.slice(0, 7), [], offline())).rejects.toThrow(/too easy to guess/);
+    await expect(assertPasswordAllowed(RANDOM.slice(0, 7), [], offline({ minScore: 2 }))).resolves.toBeUndefined();
+  });
+
+  it("rejects a password built from the email", async () => {
+    await expect(assertPasswordAllowed("zebulonfrak42", ["zebulon.frak@example.com"], offline()))
+      .rejects.toThrow(/your email/);
+  });
+
+  it("rejects a strong password found in the breach fixture", async () => {
+    const rangeProvider = createFixtureRangeProvider({ [STRONG_PASSWORD]: 3 });
+    await expect(assertPasswordAllowed(STRONG_PASSWORD, [], offline({ rangeProvider })))
+      .rejects.toThrow(/data breach/);
+  });
+
+  it("checks the breach list with the normalized password", async () => {
+    // NFKC folds the fullwidth letter to the ASCII one
+    const rangeProvider = createFixtureRangeProvider({ [STRONG_PASSWORD]: 1 });
+    await expect(assertPasswordAllowed("Ｚebulon-Frak-Quixle", [], offline({ rangeProvider })))
+      .rejects.toThrow(/data breach/);
+  });
+
+  it("accepts a password the fixture does not list", async () => {
+    const rangeProvider = createFixtureRangeProvider({ "Another-Strong-Phrase": 12 });
+    await expect(assertPasswordAllowed(STRONG_PASSWORD, [], offline({ rangeProvider }))).resolves.toBeUndefined();
+  });
+
+  it("does not block when the breach provider is unreachable", async () => {
+    const rangeProvider = async () => {
+      throw new Error("Breach check unavailable (503)");
+    };
+    await expect(assertPasswordAllowed(STRONG_PASSWORD, [], offline({ rangeProvider }))).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,307 @@
+// Password strength estimate (zxcvbn-style) and the policy for new passwords
+// The password is the root of the data key, so a guessable one weakens every ciphertext.
+// The estimate finds the cheapest way to guess the password as a sequence of patterns
+// (common passwords, words, keyboard runs, sequences, repeats, years) and brute-forced characters
+
+import { breachCount, pwnedPasswordsRangeProvider, RangeProvider } from "@/lib/passwordBreach";
+import { normalizePassword } from "@/lib/kdf";
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordScore;
+  guessesLog10: number;
+  warning: string | null; // The weakest pattern found, if any
+}
+
+export interface PasswordPolicy {
+  minScore: PasswordScore;
+  rangeProvider: RangeProvider | null; // null turns the breach check off
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minScore: 3,
+  rangeProvider: pwnedPasswordsRangeProvider,
+};
+
+export const SCORE_LABELS: Record<PasswordScore, string> = {
+  0: "Very weak",
+  1: "Weak",
+  2: "Fair",
+  3: "Strong",
+  4: "Very strong",
+};
+
+// Guesses per unmatched character, as in zxcvbn
+const BRUTEFORCE_CARDINALITY = 10;
+const MIN_WORD_LENGTH = 3;
+// Upper bounds (log10 guesses) for scores 0-3; anything above scores 4
+const SCORE_THRESHOLDS = [3, 6, 8, 10];
+
+// Most common first - the rank is the number of guesses an attacker needs
+const COMMON_PASSWORDS = [
+  "123456", "password", "12345678", "qwerty", "123456789", "12345", "1234", "111111", "1234567",
+  "dragon", "123123", "baseball", "abc123", "football", "monkey", "letmein", "696969", "shadow",
+  "master", "666666", "qwertyuiop", "123321", "mustang", "1234567890", "michael", "654321", "superman",
+  "1qaz2wsx", "7777777", "121212", "000000", "qazwsx", "123qwe", "killer", "trustno1", "jordan",
+  "jennifer", "zxcvbnm", "asdfgh", "hunter", "buster", "soccer", "harley", "batman", "andrew",
+  "tigger", "sunshine", "iloveyou", "2000", "charlie", "robert", "thomas", "hockey", "ranger",
+  "daniel", "starwars", "klaster", "112233", "george", "computer", "michelle", "jessica", "pepper",
+  "1111", "zxcvbn", "555555", "11111111", "131313", "freedom", "777777", "pass", "maggie", "159753",
+  "aaaaaa", "ginger", "princess", "joshua", "cheese", "amanda", "summer", "love", "ashley", "nicole",
+  "chelsea", "biteme", "matthew", "access", "yankees", "987654321", "dallas", "austin", "thunder",
+  "taylor", "matrix", "welcome", "admin", "login", "passw0rd", "secret", "flower", "hello",
+];
+
+const COMMON_WORDS = [
+  "the", "and", "you", "that", "was", "for", "are", "with", "his", "they", "this", "have", "from",
+  "one", "had", "word", "but", "not", "what", "all", "were", "when", "your", "can", "said", "there",
+  "use", "each", "which", "she", "how", "their", "will", "other", "about", "out", "many", "then",
+  "them", "these", "some", "her", "would", "make", "like", "him", "into", "time", "has", "look",
+  "two", "more", "write", "see", "number", "way", "could", "people", "than", "first", "water",
+  "been", "call", "who", "oil", "its", "now", "find", "long", "down", "day", "did", "get", "come",
+  "made", "may", "part", "over", "new", "sound", "take", "only", "little", "work", "know", "place",
+  "year", "live", "back", "give", "most", "very", "after", "thing", "our", "just", "name", "good",
+  "man", "think", "say", "great", "where", "help", "through", "much", "before", "line", "right",
+  "too", "mean", "old", "any", "same", "tell", "boy", "follow", "came", "want", "show", "also",
+  "around", "form", "three", "small", "set", "put", "end", "does", "another", "well", "large",
+  "must", "big", "even", "such", "because", "turn", "here", "why", "ask", "went", "men", "read",
+  "need", "land", "different", "home", "move", "try", "kind", "hand", "picture", "again", "change",
+  "off", "play", "spell", "air", "away", "animal", "house", "point", "page", "letter", "mother",
+  "answer", "found", "study", "still", "learn", "should", "world", "high", "every", "near", "add",
+  "food", "between", "own", "below", "country", "plant", "last", "school", "father", "keep", "tree",
+  "never", "start", "city", "earth", "eye", "light", "thought", "head", "under", "story", "saw",
+  "left", "few", "while", "along", "might", "close", "something", "seem", "next", "hard", "open",
+  "example", "begin", "life", "always", "those", "both", "paper", "together", "got", "group",
+  "often", "run", "important", "until", "children", "side", "feet", "car", "mile", "night", "walk",
+  "white", "sea", "began", "grow", "took", "river", "four", "carry", "state", "once", "book",
+  "hear", "stop", "without", "second", "later", "miss", "idea", "enough", "eat", "face", "watch",
+  "far", "indian", "really", "almost", "let", "above", "girl", "sometimes", "mountain", "cut",
+  "young", "talk", "soon", "list", "song", "being", "leave", "family", "money", "baby", "happy",
+  "blue", "red", "green", "black", "orange", "purple", "yellow", "silver", "golden", "summer",
+  "winter", "spring", "autumn", "monday", "friday", "sunday", "january", "december", "dog", "cat",
+  "horse", "tiger", "lion", "bear", "eagle", "angel", "heart", "star", "moon", "sun", "fire",
+  "magic", "power", "king", "queen", "prince", "lucky", "cool", "sweet", "pretty", "crazy", "super",
+  "chore", "stand", "door", "calendar", "checklist", "focus", "secure", "private",
+];
+
+const KEYBOARD_ROWS = ["1234567890", "qwertyuiop", "asdfghjkl", "zxcvbnm", "qazwsxedcrfvtgbyhnujmikolp"];
+
+const L33T_TABLE: Record<string, string> = {
+  "4": "a", "@": "a", "8": "b", "(": "c", "3": "e", "6": "g", "1": "i", "!": "i", "|": "l",
+  "0": "o", "$": "s", "5": "s", "+": "t", "7": "t", "2": "z",
+};
+
+const rankedDictionary = (words: string[]) => new Map(words.map((word, index) => [word, index + 1]));
+const PASSWORD_RANKS = rankedDictionary(COMMON_PASSWORDS);
+// Words count as less common than any listed password
+const WORD_RANKS = new Map(COMMON_WORDS.map((word, index) => [word, COMMON_PASSWORDS.length + (index + 1) * 10]));
+
+interface PatternMatch {
+  start: number;
+  end: number; // Exclusive
+  guessesLog10: number;
+  warning: string;
+}
+
+const log10 = Math.log10;
+
+function capitalizationLog10(token: string): number {
+  if (token === token.toLowerCase()) return 0;
+  if (token === token.toUpperCase() || token[0] + token.slice(1).toLowerCase() === token) return log10(2);
+  return log10(4);
+}
+
+function dictionaryMatches(password: string, userInputs: Map<string, number>): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const unl33ted = Array.from(lower, (char) => L33T_TABLE[char] ?? char).join("");
+
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + MIN_WORD_LENGTH; end <= password.length; end++) {
+      const token = password.slice(start, end);
+      for (const candidate of new Set([lower.slice(start, end), unl33ted.slice(start, end)])) {
+        const userRank = userInputs.get(candidate);
+        const passwordRank = PASSWORD_RANKS.get(candidate);
+        const rank = userRank ?? passwordRank ?? WORD_RANKS.get(candidate);
+        if (rank === undefined) continue;
+
+        const l33t = candidate !== lower.slice(start, end);
+        matches.push({
+          start,
+          end,
+          guessesLog10: log10(rank) + capitalizationLog10(token) + (l33t ? log10(2) : 0),
+          warning: userRank !== undefined
+            ? "Passwords based on your email are easy to guess"
+            : passwordRank !== undefined
+              ? "This is one of the most common passwords"
+              : "Common words are easy to guess, even with capitals or symbols swapped in",
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+function repeatMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  for (const match of password.matchAll(/(.)\1{2,}/g)) {
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      guessesLog10: log10(BRUTEFORCE_CARDINALITY * match[0].length),
+      warning: 'Repeats like "aaa" are easy to guess',
+    });
+  }
+  return matches;
+}
+
+function sequenceMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  let start = 0;
+  while (start < password.length - 2) {
+    const delta = password.charCodeAt(start + 1) - password.charCodeAt(start);
+    let end = start + 1;
+    if (Math.abs(delta) === 1) {
+      while (end < password.length && password.charCodeAt(end) - password.charCodeAt(end - 1) === delta) end++;
+    }
+    if (end - start >= 3) {
+      const obviousStart = /[aA019zZ]/.test(password[start]);
+      matches.push({
+        start,
+        end,
+        guessesLog10: log10((obviousStart ? 4 : 26) * (end - start) * (delta < 0 ? 2 : 1)),
+        warning: 'Sequences like "abc" or "6543" are easy to guess',
+      });
+      start = end - 1;
+    } else {
+      start++;
+    }
+  }
+  return matches;
+}
+
+function keyboardMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const rows = KEYBOARD_ROWS.flatMap((row) => [row, Array.from(row).reverse().join("")]);
+
+  for (let start = 0; start < lower.length; start++) {
+    for (let end = start + 4; end <= lower.length; end++) {
+      if (!rows.some((row) => row.includes(lower.slice(start, end)))) break;
+      matches.push({
+        start,
+        end,
+        guessesLog10: log10(40 * (end - start)),
+        warning: "Straight rows of keys are easy to guess",
+      });
+    }
+  }
+  return matches;
+}
+
+function yearMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  for (const match of password.matchAll(/(?:19|20)\d\d/g)) {
+    matches.push({
+      start: match.index,
+      end: match.index + 4,
+      guessesLog10: log10(150),
+      warning: "Years are easy to guess",
+    });
+  }
+  return matches;
+}
+
+function userInputRanks(userInputs: string[]): Map<string, number> {
+  const tokens = userInputs
+    .flatMap((input) => input.toLowerCase().split(/[^a-z0-9]+/))
+    .filter((token) => token.length >= MIN_WORD_LENGTH);
+  return rankedDictionary([...new Set(tokens)]);
+}
+
+function scoreFor(guessesLog10: number): PasswordScore {
+  const index = SCORE_THRESHOLDS.findIndex((threshold) => guessesLog10 < threshold);
+  return (index === -1 ? 4 : index) as PasswordScore;
+}
+
+/**
+ * Estimates how many guesses the password needs. userInputs (such as the email) count as
+ * the first words an attacker would try
+ */
+export function estimatePasswordStrength(password: string, userInputs: string[] = []): PasswordStrength {
+  if (!password) {
+    return { score: 0, guessesLog10: 0, warning: null };
+  }
+
+  const matches = [
+    ...dictionaryMatches(password, userInputRanks(userInputs)),
+    ...repeatMatches(password),
+    ...sequenceMatches(password),
+    ...keyboardMatches(password),
+    ...yearMatches(password),
+  ];
+
+  // cost[i]: cheapest log10 guesses for the first i characters; via[i]: the pattern ending there, if any
+  const cost: number[] = [0];
+  const via: (PatternMatch | null)[] = [null];
+  for (let i = 1; i <= password.length; i++) {
+    cost[i] = cost[i - 1] + log10(BRUTEFORCE_CARDINALITY);
+    via[i] = null;
+    for (const match of matches) {
+      if (match.end !== i) continue;
+      const candidate = cost[match.start] + match.guessesLog10;
+      if (candidate < cost[i]) {
+        cost[i] = candidate;
+        via[i] = match;
+      }
+    }
+  }
+
+  let warning: string | null = null;
+  for (let i = password.length; i > 0; ) {
+    const match = via[i];
+    if (match) {
+      warning = match.warning;
+      i = match.start;
+    } else {
+      i--;
+    }
+  }
+
+  const guessesLog10 = cost[password.length];
+  if (!warning && guessesLog10 < SCORE_THRESHOLDS[2]) {
+    warning = "Add another word or two - length beats complexity";
+  }
+  return { score: scoreFor(guessesLog10), guessesLog10, warning };
+}
+
+/**
+ * Rejects a new password that scores below the policy or appears in a known breach.
+ * Runs before any key is derived from it. An unreachable breach provider does not block
+ * the password - the check is advisory on top of the strength score
+ */
+export async function assertPasswordAllowed(
+  password: string,
+  userInputs: string[] = [],
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): Promise<void> {
+  // Judged in the form the key is derived from
+  const normalized = normalizePassword(password);
+  const strength = estimatePasswordStrength(normalized, userInputs);
+  if (strength.score < policy.minScore) {
+    throw new Error(`This password is too easy to guess. ${strength.warning ?? "Choose a longer password."}`);
+  }
+
+  if (!policy.rangeProvider) return;
+
+  let count = 0;
+  try {
+    count = await breachCount(normalized, policy.rangeProvider);
+  } catch (error) {
+    return;
+  }
+  if (count > 0) {
+    throw new Error("This password has appeared in a data breach. Choose a different one.");
+  }
+}
@@ -0,0 +1,75 @@
+// Short-PIN unlock for an auto-locked session
+// When a PIN is set, a copy of the data key is wrapped under an Argon2id PIN-derived key
+// and kept in memory only. A locked session can then be reopened with the PIN instead of
+// the password; the copy is destroyed after MAX_PIN_ATTEMPTS wrong PINs, on sign-out and
+// on refresh, so the password is always the fallback
+//
+// The attempt counter lives in the page, so it only stops guessing through the lock screen.
+// A 4-8 digit PIN is too small a space to survive offline guessing on its own, so the PIN key
+// also mixes in a non-extractable per-wrap device key: the wrap and salt read out of the page
+// are not enough to test PINs elsewhere. Code running in the page can still use that key, so
+// the PIN is a convenience lock, not a substitute for the password
+
+import { EncryptionService } from "@/lib/encryption";
+import { Argon2idParams, deriveArgon2idBytes } from "@/lib/kdf";
+
+export const MAX_PIN_ATTEMPTS = 5;
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// Fixed cost: the PIN copy never leaves memory, so it does not need per-account calibration
+const PIN_KDF_PARAMS: Argon2idParams = { algorithm: "argon2id", memoryKiB: 19 * 1024, iterations: 2, parallelism: 1 };
+
+export interface PinWrap {
+  wrappedKey: string;
+  salt: Uint8Array;
+  deviceKey: CryptoKey; // Non-extractable HMAC key mixed into the PIN key
+  keyId: string; // Data key the copy belongs to - a password change invalidates the PIN
+  attemptsLeft: number;
+}
+
+export function isValidPin(pin: string): boolean {
+  return PIN_PATTERN.test(pin);
+}
+
+async function derivePinKey(pin: string, salt: Uint8Array, deviceKey: CryptoKey): Promise<CryptoKey> {
+  const pinBytes = await deriveArgon2idBytes(pin, salt, PIN_KDF_PARAMS);
+  const keyBytes = await crypto.subtle.sign("HMAC", deviceKey, pinBytes);
+  return crypto.subtle.importKey("raw", keyBytes, { name: "AES-GCM", length: 256 }, false, ["wrapKey", "unwrapKey"]);
+}
+
+/**
+ * Wraps a copy of the data key under a PIN
+ * Needs an extractable data key (unwrapped with the password), not the session key
+ */
+export async function createPinWrap(dataKey: CryptoKey, keyId: string, pin: string): Promise<PinWrap> {
+  if (!isValidPin(pin)) {
+    throw new Error("PIN must be 4 to 8 digits");
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const deviceKey = await crypto.subtle.generateKey({ name: "HMAC", hash: "SHA-256", length: 256 }, false, ["sign"]);
+  const pinKey = await derivePinKey(pin, salt, deviceKey);
+  return {
+    wrappedKey: await EncryptionService.wrapDataKey(dataKey, pinKey),
+    salt,
+    deviceKey,
+    keyId,
+    attemptsLeft: MAX_PIN_ATTEMPTS,
+  };
+}
+
+/**
+ * Unwraps the session key with a PIN
+ * Returns null on a wrong PIN; the caller must count the attempt and discard the wrap
+ * once no attempts are left
+ */
+export async function unwrapWithPin(wrap: PinWrap, pin: string): Promise<CryptoKey | null> {
+  if (!isValidPin(pin)) return null;
+
+  const pinKey = await derivePinKey(pin, wrap.salt, wrap.deviceKey);
+  try {
+    return await EncryptionService.unwrapSessionKey(wrap.wrappedKey, pinKey);
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,114 @@
+// Pseudonym rotation - moves every row to a fresh pseudonym_id so the server can no longer link
+// historical rows to the current account. Ciphertexts bind the pseudonym as associated data, so
+// each value is re-encrypted for the new pseudonym here and rotate_pseudonym() swaps ownership
+// and ciphertexts in one transaction
+
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { cryptoService } from "@/lib/cryptoService";
+import { ENCRYPTED_COLUMNS, ENCRYPTED_TABLES, EncryptedRow, EncryptedTable, FieldBinding } from "@/lib/encryptedTables";
+import { RotationProgress } from "@/lib/keyManagement";
+
+const PAGE_SIZE = 200;
+const SERIALIZATION_FAILURE = "40001";
+
+interface ReboundRow {
+  table: EncryptedTable;
+  id: string;
+  values: Record<string, string>;
+}
+
+function generatePseudonymId(): string {
+  // Same shape as the profiles.pseudonym_id default: 16 random bytes, hex
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function readTable(table: EncryptedTable): Promise<EncryptedRow[]> {
+  const columns: readonly string[] = ENCRYPTED_COLUMNS[table];
+  const rows: EncryptedRow[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    // RLS limits every table to the signed-in user's rows
+    const { data, error } = await supabase
+      .from(table)
+      .select(["id", ...columns].join(","))
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    const page = (data ?? []) as unknown as EncryptedRow[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function rebindRow(table: EncryptedTable, row: EncryptedRow, pseudonymId: string): Promise<ReboundRow> {
+  const values: Record<string, string> = {};
+  for (const column of ENCRYPTED_COLUMNS[table]) {
+    const value = row[column];
+    if (!value) continue;
+    const field = { table, column, rowId: row.id } as FieldBinding;
+    values[column] = await cryptoService.rebindField(value, field, pseudonymId);
+  }
+  return { table, id: row.id, values };
+}
+
+/**
+ * Re-encrypts every row for a new pseudonym and switches the account over atomically
+ * Rows that do not decrypt under the current key block the rotation - they would be lost
+ * Returns the new pseudonym id
+ */
+export async function rotatePseudonym(
+  userId: string,
+  onProgress?: (progress: RotationProgress) => void
+): Promise<string> {
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("pending_data_key_id")
+    .eq("user_id", userId)
+    .single();
+
+  if (profileError) {
+    throw new Error("Profile not available for pseudonym rotation");
+  }
+  if (profile.pending_data_key_id) {
+    throw new Error("Finish re-encrypting after your password change before rotating the pseudonym");
+  }
+
+  const tables = await Promise.all(ENCRYPTED_TABLES.map(async (table) => ({ table, rows: await readTable(table) })));
+  const progress: RotationProgress = { done: 0, total: tables.reduce((sum, { rows }) => sum + rows.length, 0) };
+  onProgress?.({ ...progress });
+
+  const nextPseudonymId = generatePseudonymId();
+  const rebound: ReboundRow[] = [];
+  for (const { table, rows } of tables) {
+    for (const row of rows) {
+      try {
+        rebound.push(await rebindRow(table, row, nextPseudonymId));
+      } catch (error) {
+        throw new Error("Some rows cannot be decrypted. Repair or delete them in Quarantine first.");
+      }
+      progress.done++;
+      onProgress?.({ ...progress });
+    }
+  }
+
+  const { error } = await supabase.rpc("rotate_pseudonym", {
+    p_new_pseudonym_id: nextPseudonymId,
+    p_rows: rebound as unknown as Json,
+  });
+
+  if (error) {
+    throw new Error(
+      error.code === SERIALIZATION_FAILURE
+        ? "Your data changed during the rotation. Please try again."
+        : "Could not rotate the pseudonym"
+    );
+  }
+
+  return nextPseudonymId;
+}
@@ -0,0 +1,131 @@
+// Decryption quarantine - rows that fail to decrypt are collected here instead of silently
+// disappearing from the UI, so they can be retried with another key or deleted
+// Entries only live while the session is unlocked; every section load refills them
+
+import { supabase } from "@/integrations/supabase/client";
+import { EncryptionService } from "@/lib/encryption";
+import { ENCRYPTED_COLUMNS, EncryptedTable } from "@/lib/encryptedTables";
+import { DecryptFailure } from "@/lib/decryptResult";
+
+export interface QuarantinedRow {
+  table: EncryptedTable;
+  id: string;
+  failure: DecryptFailure;
+  keyId: string | null; // Data key id from the ciphertext envelope, null for legacy values
+  values: Record<string, string>; // Encrypted column values as they were read
+}
+
+export type QuarantineCandidate = Omit<QuarantinedRow, "keyId">;
+
+export const DECRYPT_FAILURE_LABELS: Record<DecryptFailure, string> = {
+  "unknown-key": "Different key",
+  authentication: "Wrong key or tampered",
+  malformed: "Malformed",
+  "invalid-record": "Invalid record",
+};
+
+const rowKey = (table: EncryptedTable, id: string) => `${table}:${id}`;
+
+function envelopeKeyId(values: Record<string, string>): string | null {
+  for (const value of Object.values(values)) {
+    try {
+      return EncryptionService.parseEnvelope(value).keyId;
+    } catch (error) {
+      // Malformed - try the next column
+    }
+  }
+  return null;
+}
+
+/**
+ * The encrypted, non-empty columns of a row as read from the database
+ */
+export function encryptedValues(table: EncryptedTable, row: { id: string }): Record<string, string> {
+  const record = row as unknown as Record<string, unknown>;
+  const values: Record<string, string> = {};
+  for (const column of ENCRYPTED_COLUMNS[table]) {
+    const value = record[column];
+    if (typeof value === "string" && value) {
+      values[column] = value;
+    }
+  }
+  return values;
+}
+
+class QuarantineStore {
+  private rows = new Map<string, QuarantinedRow>();
+  private snapshot: QuarantinedRow[] = [];
+  private listeners = new Set<() => void>();
+
+  list = (): QuarantinedRow[] => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Adds failed rows; an authentication failure under another data key id is reported as unknown-key
+   */
+  add(candidates: QuarantineCandidate[], currentKeyId: string): void {
+    if (candidates.length === 0) return;
+    for (const candidate of candidates) {
+      const keyId = envelopeKeyId(candidate.values);
+      const failure = candidate.failure === "authentication" && keyId && keyId !== currentKeyId
+        ? "unknown-key"
+        : candidate.failure;
+      this.rows.set(rowKey(candidate.table, candidate.id), { ...candidate, failure, keyId });
+    }
+    this.changed();
+  }
+
+  /**
+   * Removes rows that decrypted after all (repaired, or fixed from another device)
+   */
+  release(table: EncryptedTable, ids: string[]): void {
+    let removed = false;
+    for (const id of ids) {
+      removed = this.rows.delete(rowKey(table, id)) || removed;
+    }
+    if (removed) this.changed();
+  }
+
+  clear(): void {
+    if (this.rows.size === 0) return;
+    this.rows.clear();
+    this.changed();
+  }
+
+  private changed(): void {
+    this.snapshot = Array.from(this.rows.values());
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+export const quarantine = new QuarantineStore();
+
+// The profile holds the key wraps and KDF parameters - losing it loses the account, so a
+// quarantined profile can only be repaired with an older password
+export function canDeleteQuarantined(row: QuarantinedRow): boolean {
+  return row.table !== "profiles";
+}
+
+/**
+ * Permanently deletes a quarantined row - its contents cannot be recovered afterwards
+ * Fails when no row was deleted (a delete filtered out by row security returns no error)
+ */
+export async function deleteQuarantinedRow(row: QuarantinedRow): Promise<void> {
+  if (!canDeleteQuarantined(row)) {
+    throw new Error("The profile cannot be deleted. Retry it with an older password.");
+  }
+
+  const { error, count } = await supabase.from(row.table).delete({ count: "exact" }).eq("id", row.id);
+  if (error || count !== 1) {
+    throw new Error("Could not delete the row");
+  }
+  quarantine.release(row.table, [row.id]);
+}
@@ -0,0 +1,163 @@
+// Record bundles - a whole chore, calendar event or reminder encrypted as one JSON payload
+// in encrypted_payload, instead of one ciphertext (and one visible length) per field
+// Rows written in the older per-column layout are still decoded, and migrated lazily
+
+import { z } from "zod";
+import { bindFields, ENCRYPTED_COLUMNS, EncryptedColumn, EncryptedTable, FieldBinding } from "@/lib/encryptedTables";
+
+export const PAYLOAD_COLUMN = "encrypted_payload";
+const PAYLOAD_VERSION = 1;
+
+const choreRecordSchema = z.object({
+  name: z.string(),
+  period: z.number().int(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const calendarEventRecordSchema = z.object({
+  title: z.string(),
+  date: z.string(),
+  time: z.string(),
+  description: z.string().optional(),
+  endTime: z.string().optional(),
+  repeatDays: z.array(z.string()).optional(),
+  color: z.string().optional(),
+  createdAt: z.string(),
+});
+
+const reminderRecordSchema = z.object({
+  text: z.string(),
+  completed: z.boolean(),
+  createdAt: z.string(),
+});
+
+export type ChoreRecord = z.infer<typeof choreRecordSchema>;
+export type CalendarEventRecord = z.infer<typeof calendarEventRecordSchema>;
+export type ReminderRecord = z.infer<typeof reminderRecordSchema>;
+
+export interface RecordTypes {
+  chores: ChoreRecord;
+  calendar_events: CalendarEventRecord;
+  checklist_reminders: ReminderRecord;
+}
+
+export type RecordTable = keyof RecordTypes;
+
+export type FieldEncryptor = (value: string, field: FieldBinding) => Promise<string>;
+export type FieldDecryptor = (value: string, field: FieldBinding) => Promise<string>;
+
+// Reads one per-column value from a legacy row (null when the column is empty)
+type ColumnReader<T extends RecordTable> = (column: EncryptedColumn<T>) => Promise<string | null>;
+
+interface RecordCodec<T extends RecordTable> {
+  schema: z.ZodType<RecordTypes[T]>;
+  fromColumns: (read: ColumnReader<T>) => Promise<RecordTypes[T]>;
+}
+
+const required = (value: string | null, column: string): string => {
+  if (value === null) {
+    throw new Error(`Record is missing ${column}`);
+  }
+  return value;
+};
+
+const RECORD_CODECS: { [T in RecordTable]: RecordCodec<T> } = {
+  chores: {
+    schema: choreRecordSchema,
+    fromColumns: async (read) => ({
+      name: required(await read("encrypted_name"), "encrypted_name"),
+      period: parseInt(required(await read("encrypted_period"), "encrypted_period")),
+      createdAt: (await read("encrypted_created_at")) ?? "",
+      updatedAt: (await read("encrypted_updated_at")) ?? "",
+    }),
+  },
+  calendar_events: {
+    schema: calendarEventRecordSchema,
+    fromColumns: async (read) => {
+      const repeatDays = await read("encrypted_repeat_days");
+      return {
+        title: required(await read("encrypted_title"), "encrypted_title"),
+        date: required(await read("encrypted_date"), "encrypted_date"),
+        time: required(await read("encrypted_time"), "encrypted_time"),
+        description: (await read("encrypted_description")) ?? undefined,
+        endTime: (await read("encrypted_end_time")) ?? undefined,
+        repeatDays: repeatDays ? JSON.parse(repeatDays) : undefined,
+        color: (await read("encrypted_color")) ?? undefined,
+        createdAt: (await read("encrypted_created_at")) ?? "",
+      };
+    },
+  },
+  checklist_reminders: {
+    schema: reminderRecordSchema,
+    fromColumns: async (read) => ({
+      text: required(await read("encrypted_text"), "encrypted_text"),
+      completed: (await read("encrypted_completed")) === "true",
+      createdAt: (await read("encrypted_created_at")) ?? "",
+    }),
+  },
+};
+
+export function isRecordTable(table: EncryptedTable): table is RecordTable {
+  return table in RECORD_CODECS;
+}
+
+/**
+ * Validates a plaintext record from outside the database (e.g. an imported archive)
+ */
+export function parseRecord<T extends RecordTable>(table: T, value: unknown): RecordTypes[T] {
+  return (RECORD_CODECS[table] as RecordCodec<T>).schema.parse(value);
+}
+
+/**
+ * Per-field columns set to null - spread into an update that writes encrypted_payload
+ * so a row never keeps a stale legacy copy next to its bundle
+ */
+export function clearedFieldColumns(table: RecordTable): Record<string, null> {
+  const cleared: Record<string, null> = {};
+  for (const column of ENCRYPTED_COLUMNS[table]) {
+    if (column !== PAYLOAD_COLUMN) cleared[column] = null;
+  }
+  return cleared;
+}
+
+/**
+ * Encrypts a whole record into the value for encrypted_payload
+ */
+export async function encodeRecord<T extends RecordTable>(
+  table: T,
+  rowId: string,
+  record: RecordTypes[T],
+  encryptField: FieldEncryptor
+): Promise<string> {
+  const payload = JSON.stringify({ v: PAYLOAD_VERSION, record });
+  return encryptField(payload, bindFields(table, rowId)(PAYLOAD_COLUMN as EncryptedColumn<T>));
+}
+
+/**
+ * Decrypts a row into its record, from encrypted_payload when present or else from
+ * the legacy per-field columns
+ */
+export async function decodeRecord<T extends RecordTable>(
+  table: T,
+  row: { id: string },
+  decryptField: FieldDecryptor
+): Promise<RecordTypes[T]> {
+  const values = row as unknown as Record<string, string | null | undefined>;
+  const field = bindFields(table, row.id);
+  const codec = RECORD_CODECS[table] as RecordCodec<T>;
+
+  const payload = values[PAYLOAD_COLUMN];
+  if (payload) {
+    const decoded = JSON.parse(await decryptField(payload, field(PAYLOAD_COLUMN as EncryptedColumn<T>)));
+    if (decoded?.v !== PAYLOAD_VERSION) {
+      throw new Error(`Unsupported record payload version ${decoded?.v}`);
+    }
+    return codec.schema.parse(decoded.record);
+  }
+
+  return codec.fromColumns(async (column) => {
+    const value = values[column];
+    return value ? decryptField(value, field(column)) : null;
+  });
+}
@@ -0,0 +1,186 @@
+// Offline recovery kit - a printable base32 code that independently wraps the account data key
+// The code never leaves the browser: the server stores only a hash of a token derived from it
+
+import { supabase } from "@/integrations/supabase/client";
+import { EncryptionService } from "@/lib/encryption";
+import { deriveTransmissionPassword } from "@/lib/secureTransmission";
+import { srpVerifierColumns } from "@/lib/srpLogin";
+import { parseKdfParams } from "@/lib/kdf";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const RECOVERY_CODE_BYTES = 20; // 160 bits -> 32 base32 characters
+const RECOVERY_CODE_LENGTH = 32;
+const GROUP_SIZE = 4;
+
+const encoder = new TextEncoder();
+
+/**
+ * Generates a new recovery code formatted in groups of four (e.g. ABCD-EFGH-...)
+ */
+export function generateRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_BYTES));
+  let bits = 0;
+  let value = 0;
+  let code = "";
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      code += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  return formatRecoveryCode(code);
+}
+
+/**
+ * Strips separators and whitespace, uppercases, and maps commonly misread characters
+ * Returns null if the result is not a well-formed recovery code
+ */
+export function normalizeRecoveryCode(input: string): string | null {
+  const code = input
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/0/g, "O")
+    .replace(/1/g, "I")
+    .replace(/8/g, "B");
+
+  if (code.length !== RECOVERY_CODE_LENGTH) return null;
+  for (const char of code) {
+    if (!BASE32_ALPHABET.includes(char)) return null;
+  }
+  return code;
+}
+
+function formatRecoveryCode(code: string): string {
+  const groups: string[] = [];
+  for (let i = 0; i < code.length; i += GROUP_SIZE) {
+    groups.push(code.slice(i, i + GROUP_SIZE));
+  }
+  return groups.join("-");
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", encoder.encode(value));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Token proving possession of the code to the recover-account function (domain-separated from the key)
+async function deriveRecoveryToken(code: string, salt: string): Promise<string> {
+  return sha256Hex(`stand-recovery-auth:${salt}:${code}`);
+}
+
+// Profile columns of a recovery kit, named as the change-email function expects them
+export interface RecoveryKitWraps {
+  wrappedDataKey: string;
+  pendingWrappedDataKey: string | null;
+  keyEscrow: string;
+  verifier: string;
+}
+
+/**
+ * Generates a recovery code and its wraps for the given email without storing anything
+ * (the pending key, if any, is wrapped too so a rotation in progress can still be recovered)
+ */
+export async function buildRecoveryKit(
+  email: string,
+  dataKey: CryptoKey,
+  pendingDataKey: CryptoKey | null = null
+): Promise<{ recoveryCode: string; wraps: RecoveryKitWraps }> {
+  const recoveryCode = generateRecoveryCode();
+  const normalized = normalizeRecoveryCode(recoveryCode)!;
+  const salt = await EncryptionService.deriveSalt(email);
+  const recoveryKey = await EncryptionService.deriveRecoveryKey(normalized, salt);
+
+  return {
+    recoveryCode,
+    wraps: {
+      wrappedDataKey: await EncryptionService.wrapDataKey(dataKey, recoveryKey),
+      pendingWrappedDataKey: pendingDataKey ? await EncryptionService.wrapDataKey(pendingDataKey, recoveryKey) : null,
+      keyEscrow: await EncryptionService.wrapDataKey(recoveryKey, dataKey),
+      verifier: await sha256Hex(await deriveRecoveryToken(normalized, salt)),
+    },
+  };
+}
+
+/**
+ * Creates (or replaces) the recovery kit for the signed-in user and returns the code to print
+ * Must be called with the current, unwrapped data key
+ */
+export async function createRecoveryKit(userId: string, email: string, dataKey: CryptoKey): Promise<string> {
+  const { recoveryCode, wraps } = await buildRecoveryKit(email, dataKey);
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({
+      recovery_wrapped_data_key: wraps.wrappedDataKey,
+      recovery_pending_wrapped_data_key: wraps.pendingWrappedDataKey,
+      recovery_key_escrow: wraps.keyEscrow,
+      recovery_verifier: wraps.verifier,
+    })
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error("Could not store the recovery kit");
+  }
+
+  return recoveryCode;
+}
+
+/**
+ * Restores access with a recovery code: unwraps the data key offline, wraps it under
+ * the new password and sets the new Supabase credential through the recover-account function
+ */
+export async function restoreWithRecoveryCode(email: string, recoveryCode: string, newPassword: string): Promise<void> {
+  const normalizedEmail = email.toLowerCase().trim();
+  const code = normalizeRecoveryCode(recoveryCode);
+  if (!code) {
+    throw new Error("Recovery code is not valid");
+  }
+
+  const salt = await EncryptionService.deriveSalt(normalizedEmail);
+  const recoveryToken = await deriveRecoveryToken(code, salt);
+
+  const { data: wraps, error: beginError } = await supabase.functions.invoke("recover-account", {
+    body: { action: "begin", email: normalizedEmail, recoveryToken },
+  });
+
+  if (beginError || !wraps?.recoveryWrappedDataKey) {
+    throw new Error("Invalid recovery code");
+  }
+
+  const recoveryKey = await EncryptionService.deriveRecoveryKey(code, salt);
+  const dataKey = await EncryptionService.unwrapDataKey(wraps.recoveryWrappedDataKey, recoveryKey);
+  // A password change may have been mid-rotation; carry its pending key over so it can finish
+  const pendingDataKey = wraps.recoveryPendingWrappedDataKey
+    ? await EncryptionService.unwrapDataKey(wraps.recoveryPendingWrappedDataKey, recoveryKey)
+    : null;
+
+  // Keep the account's KDF parameters so the new wrap and credential match what sign-in derives
+  const kdfParams = parseKdfParams(wraps.kdfParams);
+  const wrappingKey = await EncryptionService.deriveWrappingKey(newPassword, salt, kdfParams);
+  const transmissionPassword = await deriveTransmissionPassword(newPassword, normalizedEmail, kdfParams);
+  const { srp_salt: srpSalt, srp_verifier: srpVerifier } = await srpVerifierColumns(normalizedEmail, transmissionPassword);
+  const { error: completeError } = await supabase.functions.invoke("recover-account", {
+    body: {
+      action: "complete",
+      email: normalizedEmail,
+      recoveryToken,
+      transmissionPassword,
+      srpSalt,
+      srpVerifier,
+      wrappedDataKey: await EncryptionService.wrapDataKey(dataKey, wrappingKey),
+      pendingWrappedDataKey: pendingDataKey
+        ? await EncryptionService.wrapDataKey(pendingDataKey, wrappingKey)
+        : null,
+    },
+  });
+
+  if (completeError) {
+    throw new Error("Recovery failed. Please try again.");
+  }
+}
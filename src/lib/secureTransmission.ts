@@ -1,24 +1,37 @@
 // Secure transmission utilities - ensures credentials are never sent in plaintext
 // Even if TLS is compromised, intercepted data is cryptographically protected
 
+import { deriveArgon2idBytes, KdfParams, normalizePassword, PBKDF2_PARAMS } from "@/lib/kdf";
+
 const encoder = new TextEncoder();
 
 /**
  * Derives a secure transmission password from the user's actual password
  * Uses PBKDF2 with email-based salt to create a deterministic but protected credential
  * The actual password never leaves the browser
+ * Accounts with Argon2id parameters use Argon2id instead of PBKDF2
  */
-export async function deriveTransmissionPassword(password: string, email: string): Promise<string> {
+export async function deriveTransmissionPassword(
+  password: string,
+  email: string,
+  params: KdfParams = PBKDF2_PARAMS
+): Promise<string> {
   const normalizedEmail = email.toLowerCase().trim();
+  const normalizedPassword = normalizePassword(password);
   
   // Create email-based salt for deterministic derivation
   const saltData = encoder.encode(`stand-transmission-salt:${normalizedEmail}`);
   const saltHash = await crypto.subtle.digest('SHA-256', saltData);
+
+  if (params.algorithm === 'argon2id') {
+    const derivedBytes = await deriveArgon2idBytes(normalizedPassword, new Uint8Array(saltHash), params);
+    return `Tx${btoa(String.fromCharCode(...derivedBytes))}`;
+  }
   
   // Import password as key material
   const passwordKey = await crypto.subtle.importKey(
     'raw',
-    encoder.encode(password),
+    encoder.encode(normalizedPassword),
     'PBKDF2',
     false,
     ['deriveBits']
@@ -66,13 +79,13 @@ export async function deriveTransmissionEmail(email: string): Promise<string> {
  * Transforms credentials for secure transmission
  * Password is cryptographically derived before transmission, email sent over TLS
  */
-export async function secureCredentials(email: string, password: string): Promise<{
+export async function secureCredentials(email: string, password: string, params: KdfParams = PBKDF2_PARAMS): Promise<{
   transmissionEmail: string;
   transmissionPassword: string;
   originalEmail: string;
 }> {
   const normalizedEmail = email.toLowerCase().trim();
-  const transmissionPassword = await deriveTransmissionPassword(password, normalizedEmail);
+  const transmissionPassword = await deriveTransmissionPassword(password, normalizedEmail, params);
   
   return {
     transmissionEmail: normalizedEmail, // Send email directly over TLS
@@ -0,0 +1,164 @@
+// SRP-6a client (RFC 5054 2048-bit group, SHA-256) - proves knowledge of the transmission password
+// without sending it or anything that could be replayed. The server keeps only a salt and a
+// verifier v = g^x mod N, which cannot be used to sign in
+// No app imports: the Deno harness (supabase/functions/_shared/srp_harness.ts) loads this file directly
+
+const N_HEX =
+  "AC6BDB41324A9A9BF166DE5E1389582FAF72B6651987EE07FC3192943DB56050A37329CBB4A099ED8193E0757767A13D" +
+  "D52312AB4B03310DCD7F48A9DA04FD50E8083969EDB767B0CF6095179A163AB3661A05FBD5FAAAE82918A9962F0B93B8" +
+  "55F97993EC975EEAA80D740ADBF4FF747359D041D5C33EA71D281E446B14773BCA97B43A23FB801676BD207A436C6481" +
+  "F1D2B9078717461A5B9D32E688F87748544523B524B0D57D5EA77A2775D2ECFA032CFBDBF52FB3786160279004E57AE6" +
+  "AF874E7303CE53299CCC041C7BC308D82A5698F3A8D0C38271AE35F8E9DBFBB694B5C803D89F7AE435DE236D525F5475" +
+  "9B65E372FCD68EF20FA7111F9E4AFF73";
+
+const SRP_N = BigInt(`0x${N_HEX}`);
+const SRP_G = 2n;
+const N_BYTES = N_HEX.length / 2;
+const SALT_BYTES = 16;
+const EPHEMERAL_BYTES = 32;
+
+const encoder = new TextEncoder();
+
+export interface SrpVerifier {
+  salt: string; // hex
+  verifier: string; // hex
+}
+
+export interface SrpClientProof {
+  clientProof: string; // M1, hex - sent to the server
+  expectedServerProof: string; // M2, hex - what the server must answer with
+}
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{1,2}/g) ?? []).map((byte) => parseInt(byte, 16)));
+
+const bigIntToBytes = (value: bigint, length = 0): Uint8Array => {
+  const hex = value.toString(16);
+  return fromHex((hex.length % 2 ? `0${hex}` : hex).padStart(length * 2, "0"));
+};
+
+const bytesToBigInt = (bytes: Uint8Array): bigint => (bytes.length ? BigInt(`0x${toHex(bytes)}`) : 0n);
+
+// Group elements are hashed left-padded to the length of N (RFC 5054 PAD())
+const pad = (value: bigint): Uint8Array => bigIntToBytes(value, N_BYTES);
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+}
+
+async function srpHash(...parts: (Uint8Array | string)[]): Promise<Uint8Array> {
+  const chunks = parts.map((part) => (typeof part === "string" ? encoder.encode(part) : part));
+  const joined = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", joined));
+}
+
+// k = H(N | PAD(g))
+const multiplier = async (): Promise<bigint> => bytesToBigInt(await srpHash(pad(SRP_N), pad(SRP_G)));
+
+// u = H(PAD(A) | PAD(B))
+const scramble = async (clientPublic: bigint, serverPublic: bigint): Promise<bigint> =>
+  bytesToBigInt(await srpHash(pad(clientPublic), pad(serverPublic)));
+
+// M1 = H(H(N) xor H(g) | H(I) | s | PAD(A) | PAD(B) | K)
+async function clientProof(
+  identity: string,
+  salt: Uint8Array,
+  clientPublic: bigint,
+  serverPublic: bigint,
+  sessionKey: Uint8Array
+): Promise<Uint8Array> {
+  const hashN = await srpHash(pad(SRP_N));
+  const hashG = await srpHash(pad(SRP_G));
+  const groupHash = hashN.map((byte, index) => byte ^ hashG[index]);
+  return srpHash(groupHash, await srpHash(identity), salt, pad(clientPublic), pad(serverPublic), sessionKey);
+}
+
+// M2 = H(PAD(A) | M1 | K)
+const serverProof = (clientPublic: bigint, proof: Uint8Array, sessionKey: Uint8Array): Promise<Uint8Array> =>
+  srpHash(pad(clientPublic), proof, sessionKey);
+
+const randomBigInt = (bytes: number): bigint => bytesToBigInt(crypto.getRandomValues(new Uint8Array(bytes)));
+
+const normalizeIdentity = (email: string) => email.toLowerCase().trim();
+
+// x = H(s | H(I ":" P)); P is the transmission password, so x inherits the account's KDF cost
+async function privateKey(identity: string, secret: string, salt: Uint8Array): Promise<bigint> {
+  return bytesToBigInt(await srpHash(salt, await srpHash(`${identity}:${secret}`)));
+}
+
+/**
+ * Creates a fresh salt and verifier for the account's current transmission password
+ */
+export async function createSrpVerifier(email: string, secret: string): Promise<SrpVerifier> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const x = await privateKey(normalizeIdentity(email), secret, salt);
+  return { salt: toHex(salt), verifier: toHex(pad(modPow(SRP_G, x, SRP_N))) };
+}
+
+/**
+ * Client ephemeral pair: a stays in memory, A goes to the server
+ */
+export function createClientEphemeral(): { secret: bigint; publicValue: string } {
+  for (;;) {
+    const secret = randomBigInt(EPHEMERAL_BYTES);
+    const publicValue = modPow(SRP_G, secret, SRP_N);
+    if (publicValue % SRP_N !== 0n) {
+      return { secret, publicValue: toHex(pad(publicValue)) };
+    }
+  }
+}
+
+/**
+ * Computes the client proof from the server's salt and B; throws on a malformed B
+ */
+export async function computeClientProof(
+  email: string,
+  secret: string,
+  saltHex: string,
+  clientSecret: bigint,
+  clientPublicHex: string,
+  serverPublicHex: string
+): Promise<SrpClientProof> {
+  const identity = normalizeIdentity(email);
+  const salt = fromHex(saltHex);
+  const clientPublic = BigInt(`0x${clientPublicHex}`);
+  const serverPublic = BigInt(`0x${serverPublicHex}`);
+
+  if (serverPublic % SRP_N === 0n) {
+    throw new Error("Invalid server value");
+  }
+
+  const u = await scramble(clientPublic, serverPublic);
+  if (u === 0n) {
+    throw new Error("Invalid server value");
+  }
+
+  const k = await multiplier();
+  const x = await privateKey(identity, secret, salt);
+  // S = (B - k * g^x) ^ (a + u * x) mod N
+  const base = (((serverPublic - k * modPow(SRP_G, x, SRP_N)) % SRP_N) + SRP_N) % SRP_N;
+  const premaster = modPow(base, clientSecret + u * x, SRP_N);
+  const sessionKey = await srpHash(pad(premaster));
+
+  const proof = await clientProof(identity, salt, clientPublic, serverPublic, sessionKey);
+  return {
+    clientProof: toHex(proof),
+    expectedServerProof: toHex(await serverProof(clientPublic, proof, sessionKey)),
+  };
+}
@@ -0,0 +1,122 @@
+// Password sign-in through the srp-login edge function (SRP-6a)
+// The transmission password never leaves the browser on this path. Only when begin answers
+// passwordLogin (no verifier yet, or a credential change in progress) is it sent, through
+// signInWithPassword; any other failure is returned, so a forced error cannot make the client
+// send a replayable credential for an account that has a verifier
+
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { computeClientProof, createClientEphemeral, createSrpVerifier } from "@/lib/srp";
+
+export interface SignInResult {
+  user: User | null;
+  error: Error | null;
+}
+
+// Sent with change-email and delete-account, which check it against the verifier (one use each)
+export interface PasswordProof {
+  sessionId: string;
+  clientProof: string;
+}
+
+/**
+ * Profile columns for a fresh verifier - written alongside every credential change
+ */
+export async function srpVerifierColumns(email: string, transmissionPassword: string) {
+  const { salt, verifier } = await createSrpVerifier(email, transmissionPassword);
+  return { srp_salt: salt, srp_verifier: verifier };
+}
+
+async function signInWithDerivedPassword(email: string, transmissionPassword: string): Promise<SignInResult> {
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password: transmissionPassword });
+  if (error || !data.user) {
+    return { user: null, error: error ?? new Error("Invalid login credentials") };
+  }
+  return { user: data.user, error: null };
+}
+
+/**
+ * Signs in with the transmission password, by SRP where the account has a verifier
+ */
+export async function signIn(email: string, transmissionPassword: string): Promise<SignInResult> {
+  const normalizedEmail = email.toLowerCase().trim();
+  const ephemeral = createClientEphemeral();
+
+  const { data: challenge, error: beginError } = await supabase.functions.invoke("srp-login", {
+    body: { action: "begin", email: normalizedEmail, clientPublic: ephemeral.publicValue },
+  });
+
+  if (beginError || !challenge) {
+    return { user: null, error: new Error("Login failed. Please try again.") };
+  }
+
+  // The verifier is registered after unlock (registerSrpVerifier), once a second factor is satisfied
+  if (challenge.passwordLogin) {
+    return signInWithDerivedPassword(normalizedEmail, transmissionPassword);
+  }
+
+  let proof;
+  try {
+    proof = await computeClientProof(
+      normalizedEmail,
+      transmissionPassword,
+      challenge.salt,
+      ephemeral.secret,
+      ephemeral.publicValue,
+      challenge.serverPublic
+    );
+  } catch (error) {
+    return { user: null, error: error instanceof Error ? error : new Error("Login failed") };
+  }
+
+  const { data: result, error: completeError } = await supabase.functions.invoke("srp-login", {
+    body: { action: "complete", sessionId: challenge.sessionId, clientProof: proof.clientProof },
+  });
+
+  if (completeError || !result?.accessToken) {
+    return { user: null, error: new Error("Invalid login credentials") };
+  }
+
+  // M2 shows the server holds the verifier; without it the session is not adopted
+  if (result.serverProof !== proof.expectedServerProof) {
+    return { user: null, error: new Error("The server could not prove its identity") };
+  }
+
+  const { data, error } = await supabase.auth.setSession({
+    access_token: result.accessToken,
+    refresh_token: result.refreshToken,
+  });
+
+  if (error || !data.user) {
+    return { user: null, error: error ?? new Error("Login failed") };
+  }
+  return { user: data.user, error: null };
+}
+
+/**
+ * Proves the signed-in user knows the password, for one destructive request
+ * Runs the SRP handshake against the caller's own verifier; the edge function receiving the
+ * proof checks it, so a wrong password only surfaces there
+ */
+export async function createPasswordProof(email: string, transmissionPassword: string): Promise<PasswordProof> {
+  const normalizedEmail = email.toLowerCase().trim();
+  const ephemeral = createClientEphemeral();
+
+  const { data: challenge, error } = await supabase.functions.invoke("srp-login", {
+    body: { action: "challenge", clientPublic: ephemeral.publicValue },
+  });
+
+  if (error || !challenge?.sessionId) {
+    throw new Error("Could not confirm your password. Log in with your password again, then retry.");
+  }
+
+  const { clientProof } = await computeClientProof(
+    normalizedEmail,
+    transmissionPassword,
+    challenge.salt,
+    ephemeral.secret,
+    ephemeral.publicValue,
+    challenge.serverPublic
+  );
+  return { sessionId: challenge.sessionId, clientProof };
+}
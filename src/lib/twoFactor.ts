@@ -0,0 +1,197 @@
+// TOTP two-factor authentication on Supabase MFA factors
+// Backup codes are generated in the browser and stored encrypted under the data key
+// (profiles.encrypted_mfa_backup_codes); the server keeps only salted hashes to check a redeemed code
+
+import { supabase } from "@/integrations/supabase/client";
+import { bindFields } from "@/lib/encryptedTables";
+import { cryptoService } from "@/lib/cryptoService";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_LENGTH = 10; // 50 bits, shown as XXXXX-XXXXX
+const FACTOR_NAME = "STAND authenticator";
+
+const encoder = new TextEncoder();
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string; // SVG data URL
+  secret: string; // For manual entry
+}
+
+export interface TotpFactor {
+  id: string;
+  createdAt: string;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", encoder.encode(value));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Uppercases and strips separators; null if the input cannot be a backup code
+ */
+export function normalizeBackupCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[\s-]/g, "");
+  if (code.length !== BACKUP_CODE_LENGTH) return null;
+  for (const char of code) {
+    if (!BASE32_ALPHABET.includes(char)) return null;
+  }
+  return code;
+}
+
+function generateBackupCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(BACKUP_CODE_LENGTH));
+  const code = Array.from(bytes, (byte) => BASE32_ALPHABET[byte & 31]).join("");
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+// Salted with the user id so equal codes on two accounts do not share a hash (mirrored in mfa-backup-code)
+const hashBackupCode = (userId: string, code: string) => sha256Hex(`stand-mfa-backup:${userId}:${code}`);
+
+async function backupCodesField(userId: string) {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("id")
+    .eq("user_id", userId)
+    .single();
+
+  if (error) {
+    throw new Error("Profile not available");
+  }
+  return bindFields("profiles", profile.id)("encrypted_mfa_backup_codes");
+}
+
+/**
+ * The verified TOTP factor, if two-factor is on
+ */
+export async function getTotpFactor(): Promise<TotpFactor | null> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) {
+    throw new Error("Could not load two-factor settings");
+  }
+  const factor = data.totp.find((candidate) => candidate.status === "verified");
+  return factor ? { id: factor.id, createdAt: factor.created_at } : null;
+}
+
+/**
+ * Factor id to challenge when the session still needs its second factor, otherwise null
+ */
+export async function pendingSecondFactor(): Promise<string | null> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error || data.nextLevel !== "aal2" || data.currentLevel === "aal2") return null;
+  return (await getTotpFactor())?.id ?? null;
+}
+
+/**
+ * Checks a 6-digit code; on success the session is upgraded to aal2
+ */
+export async function verifyTotp(factorId: string, code: string): Promise<void> {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) {
+    throw new Error("That code is not valid");
+  }
+}
+
+/**
+ * Starts enrolment; the factor only counts once a code from the authenticator confirms it
+ */
+export async function startTotpEnrollment(): Promise<TotpEnrollment> {
+  // An abandoned enrolment leaves an unverified factor whose name would clash
+  const { data: factors } = await supabase.auth.mfa.listFactors();
+  for (const factor of factors?.all ?? []) {
+    if (factor.factor_type === "totp" && factor.status === "unverified") {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    }
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({ factorType: "totp", friendlyName: FACTOR_NAME });
+  if (error || !data) {
+    throw new Error("Could not start two-factor setup");
+  }
+  return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+}
+
+/**
+ * Replaces the backup codes; needs an aal2 session. Returns the new codes to show once
+ */
+export async function regenerateBackupCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, generateBackupCode);
+  const hashes = await Promise.all(codes.map((code) => hashBackupCode(userId, normalizeBackupCode(code)!)));
+
+  const { error } = await supabase.rpc("set_mfa_backup_codes", {
+    p_code_hashes: hashes,
+    p_encrypted_codes: await cryptoService.encryptField(JSON.stringify(codes), await backupCodesField(userId)),
+  });
+
+  if (error) {
+    throw new Error("Could not store backup codes");
+  }
+  return codes;
+}
+
+/**
+ * Confirms enrolment with a code from the authenticator and issues the first backup codes
+ */
+export async function confirmTotpEnrollment(userId: string, factorId: string, code: string): Promise<string[]> {
+  await verifyTotp(factorId, code);
+  return regenerateBackupCodes(userId);
+}
+
+/**
+ * Decrypts the stored backup codes; null when none are stored
+ */
+export async function loadBackupCodes(userId: string): Promise<string[] | null> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("id, encrypted_mfa_backup_codes")
+    .eq("user_id", userId)
+    .single();
+
+  if (error) {
+    throw new Error("Profile not available");
+  }
+  if (!profile.encrypted_mfa_backup_codes) return null;
+
+  const field = bindFields("profiles", profile.id)("encrypted_mfa_backup_codes");
+  return JSON.parse(await cryptoService.decryptField(profile.encrypted_mfa_backup_codes, field));
+}
+
+/**
+ * Turns two-factor off: clears the backup codes while the session is still aal2, then removes the factor
+ */
+export async function disableTotp(factorId: string): Promise<void> {
+  const { error: codesError } = await supabase.rpc("set_mfa_backup_codes", {
+    p_code_hashes: [],
+    p_encrypted_codes: null,
+  });
+
+  if (codesError) {
+    throw new Error("Could not clear backup codes");
+  }
+
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) {
+    throw new Error("Could not turn off two-factor authentication");
+  }
+}
+
+/**
+ * Uses a backup code in place of the authenticator. The server turns two-factor off and ends
+ * every session, so the caller signs in again with the password
+ */
+export async function redeemBackupCode(code: string): Promise<void> {
+  const normalized = normalizeBackupCode(code);
+  if (!normalized) {
+    throw new Error("That backup code is not valid");
+  }
+
+  const { data, error } = await supabase.functions.invoke("mfa-backup-code", { body: { code: normalized } });
+  if (error || !data?.success) {
+    throw new Error("That backup code is not valid");
+  }
+  await supabase.auth.signOut({ scope: "local" });
+}
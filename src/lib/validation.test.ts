@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { authSchema } from "@/lib/validation";
+
+const passwordSchema = authSchema.shape.password;
+
+describe("authSchema password", () => {
+  it("returns the NFKC form", () => {
+    const result = passwordSchema.safeParse("Ｃａｆé-ｐａｓｓ");
+    expect(result.success && result.data).toBe("Café-pass");
+  });
+
+  it("counts the minimum length after normalization", () => {
+    // Three ligatures expand to six letters
+    expect(passwordSchema.safeParse("ﬀﬀﬀ").success).toBe(true);
+    expect(passwordSchema.safeParse("abcde").success).toBe(false);
+  });
+
+  it("counts the maximum length after normalization", () => {
+    expect(passwordSchema.safeParse("a".repeat(128)).success).toBe(true);
+    // 50 characters typed, 150 after NFKC
+    expect(passwordSchema.safeParse("ﬃ".repeat(50)).success).toBe(false);
+  });
+
+  it("rejects control characters", () => {
+    expect(passwordSchema.safeParse("passw\u0000rd").success).toBe(false);
+  });
+});
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { normalizePassword, PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from "@/lib/kdf";
 
 // Sanitize input by removing potentially dangerous characters
 const sanitizeString = (str: string) => {
@@ -21,11 +22,17 @@ export const authSchema = z.object({
     .regex(/^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/, {
       message: "Email contains invalid characters"
     }),
+  // Normalized first so the limits count the same characters the key derivation sees
   password: z
     .string()
-    .min(6, { message: "Password must be at least 6 characters" })
-    .max(128, { message: "Password must be less than 128 characters" })
-    .regex(/^[\x20-\x7E]+$/, { message: "Password contains invalid characters" }),
+    .transform(normalizePassword)
+    .pipe(
+      z.string()
+        .min(PASSWORD_MIN_LENGTH, { message: `Password must be at least ${PASSWORD_MIN_LENGTH} characters` })
+        .max(PASSWORD_MAX_LENGTH, { message: `Password must be less than ${PASSWORD_MAX_LENGTH} characters` })
+        // Any Unicode except control characters
+        .regex(/^[^\p{Cc}]+$/u, { message: "Password contains invalid characters" })
+    ),
 });
 
 // Chore validation schema with strict character validation
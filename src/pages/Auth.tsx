@@ -1,28 +1,57 @@
 import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useEncryption } from "@/contexts/EncryptionContext";
 import { authSchema } from "@/lib/validation";
 import { secureCredentials } from "@/lib/secureTransmission";
+import { signIn } from "@/lib/srpLogin";
+import { isMagicLinkReturn, sendMagicLink } from "@/lib/magicLink";
+import { isPasskeySupported } from "@/lib/passkeyUnlock";
+import { pendingSecondFactor, redeemBackupCode, verifyTotp } from "@/lib/twoFactor";
+import { fetchKdfParams } from "@/lib/keyManagement";
+import { assertPasswordAllowed } from "@/lib/passwordStrength";
 import { useFraudTelemetry } from "@/hooks/useFraudTelemetry";
 import { TrackingEnforcementModal } from "@/components/TrackingEnforcementModal";
 import { SecureInput } from "@/components/SecureInput";
+import { SecureInputWrapper } from "@/components/SecureInputWrapper";
+import { PasswordStrengthMeter } from "@/components/PasswordStrengthMeter";
+import { restoreWithRecoveryCode } from "@/lib/recoveryKit";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useSecureKeyboard } from "@/contexts/SecureKeyboardContext";
 
+// Expiry choices for "remember this device"
+const REMEMBER_DEVICE_DAYS = [1, 7, 30];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 const Auth = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { initializeEncryption } = useEncryption();
+  const { initializeEncryption, unlockWithPasskey, rotationProgress } = useEncryption();
   const [isLogin, setIsLogin] = useState(true);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [rememberDays, setRememberDays] = useState(REMEMBER_DEVICE_DAYS[0].toString());
+  // Set after the password step when the account has a verified TOTP factor
+  const [mfaFactorId, setMfaFactorId] = useState<string | null>(null);
+  const [totpCode, setTotpCode] = useState("");
+  const [usingBackupCode, setUsingBackupCode] = useState(false);
+  const [backupCode, setBackupCode] = useState("");
+  const [isMagicLink, setIsMagicLink] = useState(false);
+  // Set when a login link has signed in and the data key still has to be unlocked
+  const [linkEmail, setLinkEmail] = useState<string | null>(null);
   const isMobile = useIsMobile();
   
   // Use the global secure keyboard context
@@ -53,11 +82,21 @@ const Auth = () => {
   } = useFraudTelemetry();
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session) {
-        stopContinuousMonitoring();
-        navigate("/app");
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
+      if (!session) return;
+      // A login link only signs in; the second factor and the data key are asked for here
+      if (isMagicLinkReturn()) {
+        setLinkEmail(session.user.email ?? "");
+        setMfaFactorId(await pendingSecondFactor());
+        return;
+      }
+      // A session left at the password step cannot continue: the password is no longer in memory
+      if (await pendingSecondFactor()) {
+        await supabase.auth.signOut({ scope: "local" });
+        return;
       }
+      stopContinuousMonitoring();
+      navigate("/app");
     });
   }, [navigate, stopContinuousMonitoring]);
 
@@ -69,6 +108,152 @@ const Auth = () => {
     }
   };
 
+  // Unwraps the data key once every sign-in step has passed
+  const completeLogin = async (userEmail: string, userPassword: string) => {
+    try {
+      await initializeEncryption(userEmail, userPassword, {
+        rememberDeviceMs: rememberDevice ? parseInt(rememberDays) * DAY_MS : undefined,
+      });
+      stopContinuousMonitoring();
+      
+      toast({
+        title: "Access Granted",
+        description: "Authentication successful",
+      });
+      navigate("/app");
+    } catch (encryptionError: any) {
+      toast({
+        title: "Encryption Failed",
+        description: "Could not initialize encryption. Please try again.",
+        variant: "destructive",
+      });
+      await supabase.auth.signOut();
+    }
+  };
+
+  const resetSecondFactor = () => {
+    setMfaFactorId(null);
+    setTotpCode("");
+    setBackupCode("");
+    setUsingBackupCode(false);
+  };
+
+  const handleSecondFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaFactorId) return;
+
+    setLoading(true);
+    try {
+      if (usingBackupCode) {
+        await redeemBackupCode(backupCode);
+        resetSecondFactor();
+        setLinkEmail(null);
+        toast({
+          title: "Two-Factor Turned Off",
+          description: "The backup code was accepted. Log in again, then set up two-factor authentication again.",
+        });
+        return;
+      }
+
+      await verifyTotp(mfaFactorId, totpCode);
+      resetSecondFactor();
+      // After a login link the unlock step follows
+      if (linkEmail !== null) return;
+      await completeLogin(email.toLowerCase().trim(), password);
+    } catch (error) {
+      setTotpCode("");
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelSecondFactor = async () => {
+    resetSecondFactor();
+    setLinkEmail(null);
+    await supabase.auth.signOut({ scope: "local" });
+  };
+
+  const handleSendMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    hideKeyboard();
+
+    const validation = authSchema.shape.email.safeParse(email);
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.issues[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await sendMagicLink(validation.data);
+      toast({
+        title: "Check Your Email",
+        description: "If an account exists for this email, a login link is on its way.",
+      });
+    } catch (error) {
+      toast({
+        title: "Login Link Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Unlock step after a login link: the password only unwraps the data key, the session already exists
+  const handleLinkUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (linkEmail === null) return;
+
+    setLoading(true);
+    try {
+      await initializeEncryption(linkEmail, password, {
+        rememberDeviceMs: rememberDevice ? parseInt(rememberDays) * DAY_MS : undefined,
+      });
+      setPassword("");
+      toast({
+        title: "Access Granted",
+        description: "Your data is unlocked",
+      });
+      navigate("/app");
+    } catch (error) {
+      setPassword("");
+      toast({
+        title: "Unlock Failed",
+        description: "Could not unlock your data with that password",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLinkPasskey = async () => {
+    setLoading(true);
+    try {
+      await unlockWithPasskey();
+      navigate("/app");
+    } catch (error) {
+      toast({
+        title: "Unlock Failed",
+        description: error instanceof Error ? error.message : "Could not unlock with a passkey",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -89,6 +274,44 @@ const Auth = () => {
 
     setLoading(true);
 
+    // A new password becomes the root of the data key: weak or breached ones stop before any derivation
+    if (isRecovering || !isLogin) {
+      try {
+        await assertPasswordAllowed(validation.data.password, [validation.data.email]);
+      } catch (error) {
+        toast({
+          title: "Choose Another Password",
+          description: error instanceof Error ? error.message : "An unexpected error occurred",
+          variant: "destructive",
+        });
+        setLoading(false);
+        return;
+      }
+    }
+
+    if (isRecovering) {
+      try {
+        await restoreWithRecoveryCode(validation.data.email, recoveryCode, validation.data.password);
+        toast({
+          title: "Password Reset",
+          description: "Your data is intact. Log in with your new password.",
+        });
+        setIsRecovering(false);
+        setIsLogin(true);
+        setRecoveryCode("");
+        setPassword("");
+      } catch (error) {
+        toast({
+          title: "Recovery Failed",
+          description: error instanceof Error ? error.message : "An unexpected error occurred",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+      return;
+    }
+
     try {
       // Reset and collect fresh telemetry
       resetTelemetry();
@@ -105,15 +328,20 @@ const Auth = () => {
         startContinuousMonitoring(validation.data.email);
       }
 
-      // Derive secure transmission credentials
+      // Derive secure transmission credentials with the account's KDF parameters
+      const kdfParams = isLogin ? await fetchKdfParams(validation.data.email) : null;
       const { transmissionEmail, transmissionPassword, originalEmail } = 
-        await secureCredentials(validation.data.email, validation.data.password);
+        await secureCredentials(validation.data.email, validation.data.password, kdfParams?.current);
 
       if (isLogin) {
-        const { data, error } = await supabase.auth.signInWithPassword({
-          email: transmissionEmail,
-          password: transmissionPassword,
-        });
+        // SRP where the account has a verifier, otherwise the derived password
+        let { user, error } = await signIn(transmissionEmail, transmissionPassword);
+
+        // An interrupted credential change may have left the old parameters active
+        if (error && kdfParams?.previous) {
+          const previous = await secureCredentials(validation.data.email, validation.data.password, kdfParams.previous);
+          ({ user, error } = await signIn(previous.transmissionEmail, previous.transmissionPassword));
+        }
 
         if (error) {
           // Send failure telemetry
@@ -127,24 +355,14 @@ const Auth = () => {
           return;
         }
 
-        if (data.user) {
-          try {
-            await initializeEncryption(originalEmail, validation.data.password);
-            stopContinuousMonitoring();
-            
-            toast({
-              title: "Access Granted",
-              description: "Authentication successful",
-            });
-            navigate("/app");
-          } catch (encryptionError: any) {
-            toast({
-              title: "Encryption Failed",
-              description: "Could not initialize encryption. Please try again.",
-              variant: "destructive",
-            });
-            await supabase.auth.signOut();
+        if (user) {
+          // Accounts with TOTP stop here until the code is entered
+          const factorId = await pendingSecondFactor();
+          if (factorId) {
+            setMfaFactorId(factorId);
+            return;
           }
+          await completeLogin(originalEmail, validation.data.password);
         }
       } else {
         const { data, error } = await supabase.auth.signUp({
@@ -169,7 +387,7 @@ const Auth = () => {
         if (data.user) {
           toast({
             title: "Account Created",
-            description: "Please check your email to verify your account before logging in.",
+            description: "Please check your email to verify your account before logging in. You will be offered an offline recovery kit on first login.",
           });
           setIsLogin(true);
           setPassword("");
@@ -186,6 +404,154 @@ const Auth = () => {
     }
   };
 
+  // Second step of a password login for accounts with TOTP
+  if (mfaFactorId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-4xl font-bold mb-2">STAND</h1>
+            <p className="text-muted-foreground text-xs tracking-widest uppercase">two-factor verification</p>
+          </div>
+
+          <form onSubmit={handleSecondFactor} className="space-y-4">
+            {usingBackupCode ? (
+              <div>
+                <Label htmlFor="backupCode">Backup Code</Label>
+                <SecureInputWrapper
+                  id="backupCode"
+                  value={backupCode}
+                  onChange={(e) => setBackupCode(e.target.value)}
+                  placeholder="XXXXX-XXXXX"
+                  required
+                  className="font-mono"
+                />
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Using a backup code turns two-factor authentication off. You will log in again and can set it up anew.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Authenticator Code</Label>
+                <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={totpCode} onChange={setTotpCode} autoFocus>
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full font-bold"
+              disabled={loading || (usingBackupCode ? !backupCode : totpCode.length !== 6)}
+            >
+              {rotationProgress
+                ? `RE-ENCRYPTING ${rotationProgress.total > 0 ? Math.floor((rotationProgress.done / rotationProgress.total) * 100) : 0}%`
+                : loading ? "VERIFYING..." : usingBackupCode ? "USE BACKUP CODE" : "VERIFY"}
+            </Button>
+          </form>
+
+          <div className="mt-6 text-center space-y-2">
+            <button
+              type="button"
+              onClick={() => setUsingBackupCode(!usingBackupCode)}
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {usingBackupCode ? "Use authenticator code" : "Lost your authenticator? Use a backup code"}
+            </button>
+            <button
+              type="button"
+              onClick={handleCancelSecondFactor}
+              className="block w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Back to login
+            </button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  // Second step of a login link: the session exists, the data key is still locked
+  if (linkEmail !== null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-4xl font-bold mb-2">STAND</h1>
+            <p className="text-muted-foreground text-xs tracking-widest uppercase">{linkEmail || "unlock your data"}</p>
+          </div>
+
+          <form onSubmit={handleLinkUnlock} className="space-y-4">
+            <div>
+              <Label htmlFor="linkPassword">Password</Label>
+              <SecureInputWrapper
+                id="linkPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="••••••••"
+                autoFocus
+                required
+                className="font-mono"
+              />
+              <p className="mt-2 text-xs text-muted-foreground">
+                The login link signed you in. Your password is still needed to decrypt your data.
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="linkRememberDevice"
+                checked={rememberDevice}
+                onCheckedChange={(checked) => setRememberDevice(checked === true)}
+              />
+              <Label htmlFor="linkRememberDevice" className="text-sm font-normal">
+                Remember this device for
+              </Label>
+              <Select value={rememberDays} onValueChange={setRememberDays} disabled={!rememberDevice}>
+                <SelectTrigger className="w-28 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REMEMBER_DEVICE_DAYS.map((days) => (
+                    <SelectItem key={days} value={days.toString()}>
+                      {days === 1 ? "1 day" : `${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button type="submit" className="w-full font-bold" disabled={loading || !password}>
+              {rotationProgress
+                ? `RE-ENCRYPTING ${rotationProgress.total > 0 ? Math.floor((rotationProgress.done / rotationProgress.total) * 100) : 0}%`
+                : loading ? "UNLOCKING..." : "UNLOCK"}
+            </Button>
+            {isPasskeySupported() && (
+              <Button type="button" variant="outline" onClick={handleLinkPasskey} disabled={loading} className="w-full font-bold">
+                UNLOCK WITH PASSKEY
+              </Button>
+            )}
+          </form>
+
+          <div className="mt-6 text-center">
+            <button
+              type="button"
+              onClick={handleCancelSecondFactor}
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Back to login
+            </button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div 
       className="min-h-screen flex items-center justify-center p-4"
@@ -202,7 +568,7 @@ const Auth = () => {
           <p className="text-muted-foreground text-xs tracking-widest uppercase">in the door</p>
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
+        <form onSubmit={isMagicLink ? handleSendMagicLink : handleSubmit} className="space-y-4">
           <div>
             <Label htmlFor="email">Email</Label>
             {isMobile ? (
@@ -229,50 +595,120 @@ const Auth = () => {
             )}
           </div>
 
-          <div>
-            <Label htmlFor="password">Password</Label>
-            {isMobile ? (
-              <SecureInput
-                id="auth-password"
-                type="password"
-                value={password}
-                onChange={setPassword}
-                onFocus={() => showKeyboard("auth-password", "password")}
-                onBlur={() => {}}
-                placeholder="••••••••"
-                isFocused={activeField === "auth-password"}
-              />
-            ) : (
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="••••••••"
+          {isRecovering && (
+            <div>
+              <Label htmlFor="recoveryCode">Recovery Code</Label>
+              <SecureInputWrapper
+                id="recoveryCode"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                placeholder="XXXX-XXXX-XXXX-XXXX-..."
                 required
-                minLength={6}
                 className="font-mono"
               />
-            )}
-          </div>
+            </div>
+          )}
+
+          {!isMagicLink && (
+            <div>
+              <Label htmlFor="password">{isRecovering ? "New Password" : "Password"}</Label>
+              {isMobile ? (
+                <SecureInput
+                  id="auth-password"
+                  type="password"
+                  value={password}
+                  onChange={setPassword}
+                  onFocus={() => showKeyboard("auth-password", "password")}
+                  onBlur={() => {}}
+                  placeholder="••••••••"
+                  isFocused={activeField === "auth-password"}
+                />
+              ) : (
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="••••••••"
+                  required
+                  minLength={6}
+                  className="font-mono"
+                />
+              )}
+              {(isRecovering || !isLogin) && <PasswordStrengthMeter password={password} email={email} />}
+            </div>
+          )}
+
+          {isLogin && !isRecovering && !isMagicLink && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="rememberDevice"
+                checked={rememberDevice}
+                onCheckedChange={(checked) => setRememberDevice(checked === true)}
+              />
+              <Label htmlFor="rememberDevice" className="text-sm font-normal">
+                Remember this device for
+              </Label>
+              <Select value={rememberDays} onValueChange={setRememberDays} disabled={!rememberDevice}>
+                <SelectTrigger className="w-28 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REMEMBER_DEVICE_DAYS.map((days) => (
+                    <SelectItem key={days} value={days.toString()}>
+                      {days === 1 ? "1 day" : `${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
 
           <Button 
             type="submit" 
             className="w-full font-bold" 
             disabled={loading || isCollecting}
           >
-            {loading ? "PROCESSING..." : isCollecting ? "VERIFYING..." : isLogin ? "LOGIN" : "REGISTER"}
+            {rotationProgress
+              ? `RE-ENCRYPTING ${rotationProgress.total > 0 ? Math.floor((rotationProgress.done / rotationProgress.total) * 100) : 0}%`
+              : loading ? "PROCESSING..." : isMagicLink ? "EMAIL ME A LOGIN LINK" : isRecovering ? "RESET PASSWORD" : isCollecting ? "VERIFYING..." : isLogin ? "LOGIN" : "REGISTER"}
           </Button>
         </form>
 
-        <div className="mt-6 text-center">
-          <button
-            type="button"
-            onClick={() => setIsLogin(!isLogin)}
-            className="text-sm text-muted-foreground hover:text-foreground transition-colors"
-          >
-            {isLogin ? "Need an account? Register" : "Already have an account? Login"}
-          </button>
+        <div className="mt-6 text-center space-y-2">
+          {isLogin && !isRecovering && (
+            <button
+              type="button"
+              onClick={() => {
+                setIsMagicLink(!isMagicLink);
+                setPassword("");
+              }}
+              className="block w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {isMagicLink ? "Log in with password" : "Email me a login link instead"}
+            </button>
+          )}
+          {!isRecovering && !isMagicLink && (
+            <button
+              type="button"
+              onClick={() => setIsLogin(!isLogin)}
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {isLogin ? "Need an account? Register" : "Already have an account? Login"}
+            </button>
+          )}
+          {(isLogin || isRecovering) && !isMagicLink && (
+            <button
+              type="button"
+              onClick={() => {
+                setIsRecovering(!isRecovering);
+                setPassword("");
+              }}
+              className="block w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {isRecovering ? "Back to login" : "Forgot password? Restore with recovery code"}
+            </button>
+          )}
         </div>
 
         <div className="mt-8 text-center text-xs text-muted-foreground"></div>
@@ -1,22 +1,70 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import ChoresSection from "@/components/sections/ChoresSection";
 import ChecklistsSection from "@/components/sections/ChecklistsSection";
 import CalendarSection from "@/components/sections/CalendarSection";
+import { ChangePasswordDialog } from "@/components/ChangePasswordDialog";
+import { ChangeEmailDialog } from "@/components/ChangeEmailDialog";
+import { AccountDialog } from "@/components/AccountDialog";
+import { RecoveryKitDialog } from "@/components/RecoveryKitDialog";
+import { AutoLockDialog } from "@/components/AutoLockDialog";
+import { PasskeyDialog } from "@/components/PasskeyDialog";
+import { TwoFactorDialog } from "@/components/TwoFactorDialog";
+import { SessionsDialog } from "@/components/SessionsDialog";
+import { QuarantineDialog } from "@/components/QuarantineDialog";
+import { DataArchiveDialog } from "@/components/DataArchiveDialog";
+import { PseudonymDialog } from "@/components/PseudonymDialog";
+import { DeleteAccountDialog } from "@/components/DeleteAccountDialog";
+import { LockScreen } from "@/components/LockScreen";
+import { useEncryption } from "@/contexts/EncryptionContext";
 import { supabase } from "@/integrations/supabase/client";
 import { User } from "@supabase/supabase-js";
 import { EncryptionService } from "@/lib/encryption";
-import { ListTodo, CheckSquare, Calendar, User as UserIcon } from "lucide-react";
+import { pendingSecondFactor } from "@/lib/twoFactor";
+import { ListTodo, CheckSquare, Calendar, ShieldAlert, User as UserIcon } from "lucide-react";
 
 const Index = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeView, setActiveView] = useState<"chores" | "checklists" | "calendar">("chores");
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isChangeEmailOpen, setIsChangeEmailOpen] = useState(false);
+  const [isAccountOpen, setIsAccountOpen] = useState(false);
+  const [isRecoveryKitOpen, setIsRecoveryKitOpen] = useState(false);
+  const [isAutoLockOpen, setIsAutoLockOpen] = useState(false);
+  const [isPasskeyOpen, setIsPasskeyOpen] = useState(false);
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [isQuarantineOpen, setIsQuarantineOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isPseudonymOpen, setIsPseudonymOpen] = useState(false);
+  const [isDeleteAccountOpen, setIsDeleteAccountOpen] = useState(false);
+  const { needsRecoveryKit, status, quarantined } = useEncryption();
 
+  // Offer the recovery kit right after a new account's data key is created
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    if (needsRecoveryKit) {
+      setIsRecoveryKitOpen(true);
+    }
+  }, [needsRecoveryKit]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
+      // A session that has not passed its second factor goes back to the login page
+      if (session && await pendingSecondFactor()) {
+        navigate("/auth");
+        return;
+      }
       setUser(session?.user ?? null);
       setLoading(false);
       if (!session) {
@@ -36,12 +84,30 @@ const Index = () => {
 
   const handleLogout = async () => {
     if (user) {
-      EncryptionService.clearKey(user.id);
+      // Logging out also forgets this device
+      await EncryptionService.clearKey(user.id);
     }
     await supabase.auth.signOut();
     navigate("/");
   };
 
+  // signOutEverywhere has already ended this session along with the others
+  const handleSignedOutEverywhere = async () => {
+    if (user) {
+      await EncryptionService.clearKey(user.id);
+    }
+    navigate("/");
+  };
+
+  const handleAccountDeleted = async () => {
+    if (user) {
+      await EncryptionService.clearKey(user.id);
+    }
+    // The auth user is already gone server-side, so only the local session is cleared
+    await supabase.auth.signOut({ scope: "local" });
+    navigate("/");
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -54,6 +120,19 @@ const Index = () => {
     return null;
   }
 
+  // Sections unmount while locked, so no decrypted data stays in component state
+  if (status === "locked" || status === "error") {
+    return <LockScreen onLogout={handleLogout} />;
+  }
+
+  if (status === "unlocking") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">UNLOCKING...</p>
+      </div>
+    );
+  }
+
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -69,6 +148,18 @@ const Index = () => {
           <p className="text-muted-foreground text-xs tracking-widest uppercase">in the door</p>
         </div>
         <div className="flex items-center gap-4">
+          {quarantined.length > 0 && (
+            <button
+              onClick={() => setIsQuarantineOpen(true)}
+              className="relative p-2 rounded-lg transition-colors hover:bg-muted"
+              aria-label={`${quarantined.length} rows could not be decrypted`}
+            >
+              <ShieldAlert className="w-5 h-5" />
+              <Badge variant="destructive" className="absolute -top-1 -right-1 px-1.5 py-0">
+                {quarantined.length}
+              </Badge>
+            </button>
+          )}
           <button
             onClick={() => setActiveView("chores")}
             className={`p-2 rounded-lg transition-colors ${
@@ -96,11 +187,79 @@ const Index = () => {
           >
             <Calendar className="w-5 h-5" />
           </button>
-          <Button variant="outline" size="icon" onClick={handleLogout} aria-label="Logout">
-            <UserIcon className="w-5 h-5" />
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="icon" aria-label="Account">
+                <UserIcon className="w-5 h-5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" side="top">
+              <DropdownMenuItem onSelect={() => setIsAccountOpen(true)}>
+                Account
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsChangePasswordOpen(true)}>
+                Change password
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsRecoveryKitOpen(true)}>
+                Recovery kit
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsAutoLockOpen(true)}>
+                Auto-lock
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsPasskeyOpen(true)}>
+                Passkeys
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsTwoFactorOpen(true)}>
+                Two-factor
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsSessionsOpen(true)}>
+                Sessions
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsArchiveOpen(true)}>
+                Export / import
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsPseudonymOpen(true)}>
+                Pseudonym
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsDeleteAccountOpen(true)} className="text-destructive">
+                Delete account
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={handleLogout}>
+                Logout
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </footer>
+
+      <ChangePasswordDialog open={isChangePasswordOpen} onOpenChange={setIsChangePasswordOpen} />
+      <AccountDialog
+        open={isAccountOpen}
+        onOpenChange={setIsAccountOpen}
+        onChangeEmail={() => {
+          setIsAccountOpen(false);
+          setIsChangeEmailOpen(true);
+        }}
+      />
+      <ChangeEmailDialog open={isChangeEmailOpen} onOpenChange={setIsChangeEmailOpen} />
+      <RecoveryKitDialog open={isRecoveryKitOpen} onOpenChange={setIsRecoveryKitOpen} />
+      <AutoLockDialog open={isAutoLockOpen} onOpenChange={setIsAutoLockOpen} />
+      <PasskeyDialog open={isPasskeyOpen} onOpenChange={setIsPasskeyOpen} />
+      <TwoFactorDialog open={isTwoFactorOpen} onOpenChange={setIsTwoFactorOpen} />
+      <SessionsDialog
+        open={isSessionsOpen}
+        onOpenChange={setIsSessionsOpen}
+        onSignedOutEverywhere={handleSignedOutEverywhere}
+      />
+      <QuarantineDialog open={isQuarantineOpen} onOpenChange={setIsQuarantineOpen} />
+      <DataArchiveDialog open={isArchiveOpen} onOpenChange={setIsArchiveOpen} />
+      <PseudonymDialog open={isPseudonymOpen} onOpenChange={setIsPseudonymOpen} />
+      <DeleteAccountDialog
+        open={isDeleteAccountOpen}
+        onOpenChange={setIsDeleteAccountOpen}
+        onDeleted={handleAccountDeleted}
+      />
     </div>
   );
 };
@@ -68,8 +68,8 @@ const Terms = () => {
                 <ul className="list-disc list-inside space-y-1 ml-4">
                   <li>Access all data you've created</li>
                   <li>Modify or delete your data at any time</li>
-                  <li>Delete your account and all associated data</li>
-                  <li>Export your data (functionality may vary)</li>
+                  <li>Delete your account and all associated data, with a signed receipt of the deletion</li>
+                  <li>Export your data as a passphrase-encrypted archive and import it into another account</li>
                 </ul>
               </div>
             </section>
@@ -99,7 +99,7 @@ const Terms = () => {
                 <ul className="list-disc list-inside space-y-1 ml-4">
                   <li>Use the service for lawful purposes only</li>
                   <li>Maintain the security of your account credentials</li>
-                  <li>Accept that password recovery is not possible due to encryption</li>
+                  <li>Accept that password recovery is only possible with your offline recovery kit</li>
                   <li>Understand that we cannot recover lost passwords or decrypt your data without them</li>
                 </ul>
               </div>
@@ -109,8 +109,8 @@ const Terms = () => {
               <h2 className="text-2xl font-bold">Important Notice</h2>
               <div className="space-y-2 text-foreground/80">
                 <p className="font-semibold">
-                  Due to our end-to-end encryption architecture, if you lose your password, your encrypted data cannot be recovered. 
-                  Please store your password securely.
+                  Due to our end-to-end encryption architecture, if you lose your password and have no recovery kit, your encrypted data cannot be recovered. 
+                  Please store your password and recovery code securely.
                 </p>
               </div>
             </section>
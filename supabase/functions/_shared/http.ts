@@ -0,0 +1,85 @@
+// Shared request helpers for edge functions: CORS allowlist, JSON responses and rate limiting
+
+// CORS Configuration - Only allow specific origins
+const ALLOWED_ORIGIN_PATTERN = /^https:\/\/([a-zA-Z0-9-]+\.)*galtsclaim\.org$/;
+const DEV_PREVIEW_ORIGIN = 'https://id-preview--ab304a78-53de-4ee9-96fa-4a260e51c65c.lovable.app';
+
+export function isAllowedOrigin(origin: string | null): boolean {
+  if (!origin) return false;
+  return ALLOWED_ORIGIN_PATTERN.test(origin) || origin === DEV_PREVIEW_ORIGIN;
+}
+
+export function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigin = isAllowedOrigin(origin) ? origin! : '';
+  return {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Vary': 'Origin',
+  };
+}
+
+export function jsonResponse(body: unknown, status: number, corsHeaders: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+export function getClientIp(req: Request): string {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  const realIp = req.headers.get('x-real-ip');
+  return forwardedFor?.split(',')[0] || realIp || 'unknown';
+}
+
+// In-memory fixed-window rate limiter (resets on cold start)
+export function createRateLimiter(windowMs: number, maxRequests: number) {
+  const store = new Map<string, { count: number; windowStart: number }>();
+
+  return (identifier: string): boolean => {
+    const now = Date.now();
+    const record = store.get(identifier);
+
+    if (Math.random() < 0.1) {
+      for (const [key, entry] of store.entries()) {
+        if (now - entry.windowStart > windowMs * 2) store.delete(key);
+      }
+    }
+
+    if (!record || now - record.windowStart > windowMs) {
+      store.set(identifier, { count: 1, windowStart: now });
+      return false;
+    }
+
+    if (record.count >= maxRequests) return true;
+    record.count++;
+    return false;
+  };
+}
+
+// Constant-time comparison for hex digests
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Assurance level of an access token already verified with auth.getUser (aal2 = second factor passed)
+export function tokenAssuranceLevel(token: string): string {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '='))).aal ?? 'aal1';
+  } catch {
+    return 'aal1';
+  }
+}
@@ -0,0 +1,54 @@
+// Per-request password proof for destructive account actions
+// The client runs an SRP handshake with srp-login (action 'challenge', purpose 'reauth') and sends
+// the session id and M1 with the action; the action's function checks them here. A recent sign-in
+// is not enough on its own, since a login link signs in without the password
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.83.0';
+import { SRP_HEX_PATTERN, verifyClientProof } from './srp.ts';
+
+export interface PasswordProof {
+  sessionId: string;
+  clientProof: string;
+}
+
+/**
+ * True when the proof shows the caller knows the password behind their current SRP verifier
+ * The handshake is deleted as it is read, so each proof authorizes one request
+ */
+export async function verifyPasswordProof(
+  supabase: SupabaseClient,
+  userId: string,
+  proof: PasswordProof | undefined
+): Promise<boolean> {
+  if (!proof?.sessionId || !proof.clientProof || !SRP_HEX_PATTERN.test(proof.clientProof)) return false;
+
+  const { data: handshake } = await supabase
+    .from('srp_sessions')
+    .delete()
+    .eq('id', proof.sessionId)
+    .eq('purpose', 'reauth')
+    .eq('user_id', userId)
+    .select('email, client_public, server_secret, server_public, expires_at')
+    .maybeSingle();
+
+  if (!handshake || Date.parse(handshake.expires_at) < Date.now()) return false;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('srp_salt, srp_verifier')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!profile?.srp_salt || !profile.srp_verifier) return false;
+
+  const serverProof = await verifyClientProof({
+    identity: handshake.email,
+    salt: profile.srp_salt,
+    verifier: profile.srp_verifier,
+    clientPublic: handshake.client_public,
+    serverSecret: handshake.server_secret,
+    serverPublic: handshake.server_public,
+    clientProof: proof.clientProof,
+  });
+  return serverProof !== null;
+}
@@ -0,0 +1,136 @@
+// SRP-6a server side - mirrors src/lib/srp.ts (same group, hash and padding); the browser module
+// cannot be imported here, so srp_harness.ts runs both against each other to keep them in step
+
+import { timingSafeEqual } from './http.ts';
+
+const N_HEX =
+  'AC6BDB41324A9A9BF166DE5E1389582FAF72B6651987EE07FC3192943DB56050A37329CBB4A099ED8193E0757767A13D' +
+  'D52312AB4B03310DCD7F48A9DA04FD50E8083969EDB767B0CF6095179A163AB3661A05FBD5FAAAE82918A9962F0B93B8' +
+  '55F97993EC975EEAA80D740ADBF4FF747359D041D5C33EA71D281E446B14773BCA97B43A23FB801676BD207A436C6481' +
+  'F1D2B9078717461A5B9D32E688F87748544523B524B0D57D5EA77A2775D2ECFA032CFBDBF52FB3786160279004E57AE6' +
+  'AF874E7303CE53299CCC041C7BC308D82A5698F3A8D0C38271AE35F8E9DBFBB694B5C803D89F7AE435DE236D525F5475' +
+  '9B65E372FCD68EF20FA7111F9E4AFF73';
+
+const N = BigInt(`0x${N_HEX}`);
+const G = 2n;
+const N_BYTES = N_HEX.length / 2;
+const EPHEMERAL_BYTES = 32;
+
+const encoder = new TextEncoder();
+
+export const SRP_HEX_PATTERN = /^[0-9a-f]+$/;
+
+export interface SrpServerEphemeral {
+  secret: string; // b, hex - kept in srp_sessions, never sent
+  publicValue: string; // B, hex
+}
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{1,2}/g) ?? []).map((byte) => parseInt(byte, 16)));
+
+const toBigInt = (bytes: Uint8Array): bigint => (bytes.length ? BigInt(`0x${toHex(bytes)}`) : 0n);
+
+const pad = (value: bigint): Uint8Array => {
+  const hex = value.toString(16);
+  return fromHex((hex.length % 2 ? `0${hex}` : hex).padStart(N_BYTES * 2, '0'));
+};
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+}
+
+async function hash(...parts: (Uint8Array | string)[]): Promise<Uint8Array> {
+  const chunks = parts.map((part) => (typeof part === 'string' ? encoder.encode(part) : part));
+  const joined = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', joined));
+}
+
+const multiplier = async (): Promise<bigint> => toBigInt(await hash(pad(N), pad(G)));
+
+/**
+ * B = k*v + g^b mod N for the stored verifier
+ */
+export async function createServerEphemeral(verifierHex: string): Promise<SrpServerEphemeral> {
+  const k = await multiplier();
+  const v = BigInt(`0x${verifierHex}`);
+  for (;;) {
+    const b = toBigInt(crypto.getRandomValues(new Uint8Array(EPHEMERAL_BYTES)));
+    const B = (k * v + modPow(G, b, N)) % N;
+    if (B !== 0n) {
+      return { secret: toHex(pad(b)), publicValue: toHex(pad(B)) };
+    }
+  }
+}
+
+/**
+ * An ephemeral for an account without a verifier - indistinguishable from a real B
+ */
+export function createDecoyEphemeral(): SrpServerEphemeral {
+  const b = toBigInt(crypto.getRandomValues(new Uint8Array(EPHEMERAL_BYTES)));
+  return { secret: toHex(pad(b)), publicValue: toHex(pad(modPow(G, b, N))) };
+}
+
+/**
+ * Rejects A values that would force a known session key (A mod N == 0)
+ */
+export function isValidClientPublic(clientPublicHex: string): boolean {
+  if (!SRP_HEX_PATTERN.test(clientPublicHex) || clientPublicHex.length > N_BYTES * 2) return false;
+  return BigInt(`0x${clientPublicHex}`) % N !== 0n;
+}
+
+/**
+ * Checks the client's M1; returns M2 when it matches, null otherwise
+ */
+export async function verifyClientProof(params: {
+  identity: string;
+  salt: string;
+  verifier: string;
+  clientPublic: string;
+  serverSecret: string;
+  serverPublic: string;
+  clientProof: string;
+}): Promise<string | null> {
+  const A = BigInt(`0x${params.clientPublic}`);
+  const B = BigInt(`0x${params.serverPublic}`);
+  const b = BigInt(`0x${params.serverSecret}`);
+  const v = BigInt(`0x${params.verifier}`);
+
+  const u = toBigInt(await hash(pad(A), pad(B)));
+  if (u === 0n) return null;
+
+  // S = (A * v^u) ^ b mod N
+  const premaster = modPow((A * modPow(v, u, N)) % N, b, N);
+  const sessionKey = await hash(pad(premaster));
+
+  const hashN = await hash(pad(N));
+  const hashG = await hash(pad(G));
+  const groupHash = hashN.map((byte, index) => byte ^ hashG[index]);
+  const expected = await hash(
+    groupHash,
+    await hash(params.identity),
+    fromHex(params.salt),
+    pad(A),
+    pad(B),
+    sessionKey
+  );
+
+  if (!timingSafeEqual(toHex(expected), params.clientProof.toLowerCase())) return null;
+
+  return toHex(await hash(pad(A), expected, sessionKey));
+}
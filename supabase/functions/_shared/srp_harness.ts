@@ -0,0 +1,70 @@
+// Local harness for the SRP login: runs the browser client (src/lib/srp.ts) against the edge
+// function's server side (srp.ts) without a network or database
+// Run with: deno run supabase/functions/_shared/srp_harness.ts
+
+import { computeClientProof, createClientEphemeral, createSrpVerifier } from '../../../src/lib/srp.ts';
+import { createDecoyEphemeral, createServerEphemeral, isValidClientPublic, verifyClientProof } from './srp.ts';
+
+const EMAIL = 'Harness@Example.com ';
+const IDENTITY = 'harness@example.com';
+const PASSWORD = 'TxhYtXk0b3JyZWN0LWhvcnNlLWJhdHRlcnk=';
+
+function check(condition: boolean, label: string) {
+  if (!condition) throw new Error(`FAIL: ${label}`);
+  console.log(`ok - ${label}`);
+}
+
+async function login(clientSecret: string, verifier: { salt: string; verifier: string }) {
+  const client = createClientEphemeral();
+  const server = await createServerEphemeral(verifier.verifier);
+  const proof = await computeClientProof(EMAIL, clientSecret, verifier.salt, client.secret, client.publicValue, server.publicValue);
+  const serverProof = await verifyClientProof({
+    identity: IDENTITY,
+    salt: verifier.salt,
+    verifier: verifier.verifier,
+    clientPublic: client.publicValue,
+    serverSecret: server.secret,
+    serverPublic: server.publicValue,
+    clientProof: proof.clientProof,
+  });
+  return { proof, serverProof };
+}
+
+const verifier = await createSrpVerifier(EMAIL, PASSWORD);
+
+const accepted = await login(PASSWORD, verifier);
+check(accepted.serverProof !== null, 'correct password is accepted');
+check(accepted.serverProof === accepted.proof.expectedServerProof, 'client verifies the server proof');
+
+const rejected = await login(`${PASSWORD}x`, verifier);
+check(rejected.serverProof === null, 'wrong password is rejected');
+
+const other = await createSrpVerifier(EMAIL, PASSWORD);
+check(other.salt !== verifier.salt && other.verifier !== verifier.verifier, 'each verifier gets a fresh salt');
+
+const replay = await login(PASSWORD, other);
+check(replay.proof.clientProof !== accepted.proof.clientProof, 'proofs differ between sessions');
+
+check(!isValidClientPublic('00'), 'A = 0 is refused');
+check(isValidClientPublic(createClientEphemeral().publicValue), 'a real A is allowed');
+
+const decoy = createDecoyEphemeral();
+let decoyRefused = false;
+try {
+  const client = createClientEphemeral();
+  const proof = await computeClientProof(EMAIL, PASSWORD, verifier.salt, client.secret, client.publicValue, decoy.publicValue);
+  decoyRefused = (await verifyClientProof({
+    identity: IDENTITY,
+    salt: verifier.salt,
+    verifier: verifier.verifier,
+    clientPublic: client.publicValue,
+    serverSecret: decoy.secret,
+    serverPublic: decoy.publicValue,
+    clientProof: proof.clientProof,
+  })) === null;
+} catch (error) {
+  decoyRefused = true;
+}
+check(decoyRefused, 'a decoy session never completes');
+
+console.log('SRP harness passed');
@@ -0,0 +1,214 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.83.0';
+import {
+  createRateLimiter,
+  getClientIp,
+  getCorsHeaders,
+  isAllowedOrigin,
+  jsonResponse,
+  tokenAssuranceLevel,
+} from '../_shared/http.ts';
+import { PasswordProof, verifyPasswordProof } from '../_shared/reauth.ts';
+import { SRP_HEX_PATTERN } from '../_shared/srp.ts';
+
+const isRateLimited = createRateLimiter(15 * 60 * 1000, 5);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const EMAIL_CODE_PATTERN = /^\d{6,10}$/;
+
+interface EmailChangePayload {
+  passwordProof: PasswordProof; // SRP proof from a srp-login challenge, one per request
+  newEmail: string;
+  emailCode: string; // From the confirmation Supabase sent to the new address
+  // Derived in the browser for the new email - the salt of every password-derived value is the email
+  transmissionPassword: string;
+  wrappedDataKey: string;
+  pendingWrappedDataKey?: string | null;
+  encryptedEmail?: string | null; // The new email encrypted under the data key (profiles.encrypted_email)
+  // SRP verifier for the new credential - the identity in the old one is the old email
+  srpSalt?: string | null;
+  srpVerifier?: string | null;
+  // Recovery kit for the new address - the old one is salted with the old email and stops working
+  recoveryKit: {
+    wrappedDataKey: string;
+    pendingWrappedDataKey?: string | null;
+    keyEscrow: string;
+    verifier: string;
+  };
+}
+
+// The sign-in credential, the data key wraps, the recovery kit and the auth email all depend on the
+// email, so they change together here, and only once the new address has confirmed a code: the
+// email switches first, then the profile, then the credential, each undone if a later step fails
+Deno.serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (!isAllowedOrigin(origin)) {
+    console.warn(`[change-email] Rejected origin: ${origin}`);
+    return jsonResponse({ error: 'Origin not allowed' }, 403, corsHeaders);
+  }
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const ipAddress = getClientIp(req);
+  if (isRateLimited(ipAddress)) {
+    console.warn(`[change-email] Rate limited: ${ipAddress}`);
+    return jsonResponse({ error: 'Too many requests' }, 429, { ...corsHeaders, 'Retry-After': '900' });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+    const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+      return jsonResponse({ error: 'Not signed in' }, 401, corsHeaders);
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ error: 'Not signed in' }, 401, corsHeaders);
+    }
+
+    const payload: EmailChangePayload = await req.json();
+
+    // A session alone is not enough (a login link signs in without the password)
+    if (!(await verifyPasswordProof(supabase, user.id, payload.passwordProof))) {
+      return jsonResponse({ error: 'Password is incorrect' }, 401, corsHeaders);
+    }
+
+    // Accounts with TOTP must have passed it in this session, not only the password
+    const hasSecondFactor = (user.factors ?? []).some((factor) => factor.status === 'verified');
+    if (hasSecondFactor && tokenAssuranceLevel(token) !== 'aal2') {
+      return jsonResponse({ error: 'Please enter your authenticator code' }, 401, corsHeaders);
+    }
+
+    const newEmail = payload.newEmail?.toLowerCase().trim();
+
+    if (!newEmail || !EMAIL_PATTERN.test(newEmail) || !payload.transmissionPassword || !payload.wrappedDataKey
+      || !EMAIL_CODE_PATTERN.test(payload.emailCode ?? '')) {
+      return jsonResponse({ error: 'Invalid email change request' }, 400, corsHeaders);
+    }
+
+    const kit = payload.recoveryKit;
+    if (!kit?.wrappedDataKey || !kit.keyEscrow || !kit.verifier || !SRP_HEX_PATTERN.test(kit.verifier)) {
+      return jsonResponse({ error: 'Invalid email change request' }, 400, corsHeaders);
+    }
+
+    if (newEmail === user.email) {
+      return jsonResponse({ error: 'That is already your email' }, 400, corsHeaders);
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('wrapped_data_key, pending_wrapped_data_key, previous_wrapped_data_key, encrypted_email, srp_salt, srp_verifier, recovery_verifier, recovery_wrapped_data_key, recovery_pending_wrapped_data_key, recovery_key_escrow')
+      .eq('user_id', user.id)
+      .single();
+
+    if (profileError || !profile?.wrapped_data_key) {
+      console.error('[change-email] Profile lookup error:', profileError);
+      return jsonResponse({ error: 'Email change failed' }, 500, corsHeaders);
+    }
+
+    // The old verifier names the old email, so it cannot stay; dropping it without a replacement
+    // would silently move the account back to the derived-password login
+    const hasNewVerifier = !!payload.srpSalt && !!payload.srpVerifier
+      && SRP_HEX_PATTERN.test(payload.srpSalt) && SRP_HEX_PATTERN.test(payload.srpVerifier);
+    if (profile.srp_verifier && !hasNewVerifier) {
+      return jsonResponse({ error: 'Invalid email change request' }, 400, corsHeaders);
+    }
+
+    // An unfinished password change still needs its rollback copy under the old email
+    if (profile.previous_wrapped_data_key) {
+      return jsonResponse({ error: 'Finish the password change before changing email' }, 409, corsHeaders);
+    }
+
+    // The new address proves itself with the code Supabase sent it (requested by the client through
+    // auth.updateUser). Verifying switches the auth email, so it runs on a separate client: the session
+    // it returns must not replace the service role for the queries below
+    const otpClient = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    const { error: otpError } = await otpClient.auth.verifyOtp({
+      type: 'email_change',
+      email: newEmail,
+      token: payload.emailCode,
+    });
+
+    if (otpError) {
+      console.warn(`[change-email] Code rejected for ${user.id}`);
+      return jsonResponse({ error: 'The code is wrong or has expired' }, 400, corsHeaders);
+    }
+
+    // The old address was confirmed before, so putting it back needs no new confirmation
+    const revertEmail = async () => {
+      const { error: revertError } = await supabase.auth.admin.updateUserById(user.id, {
+        email: user.email,
+        email_confirm: true,
+      });
+      if (revertError) {
+        console.error('[change-email] Email rollback error:', revertError);
+      }
+    };
+
+    // The recovery kit's key is derived with the email as salt; the client issued a new one for the
+    // new address, which replaces the old kit here
+    const { error: wrapError } = await supabase
+      .from('profiles')
+      .update({
+        wrapped_data_key: payload.wrappedDataKey,
+        pending_wrapped_data_key: payload.pendingWrappedDataKey ?? null,
+        encrypted_email: payload.encryptedEmail ?? null,
+        srp_salt: payload.srpSalt ?? null,
+        srp_verifier: payload.srpVerifier ?? null,
+        recovery_verifier: kit.verifier,
+        recovery_wrapped_data_key: kit.wrappedDataKey,
+        recovery_pending_wrapped_data_key: kit.pendingWrappedDataKey ?? null,
+        recovery_key_escrow: kit.keyEscrow,
+      })
+      .eq('user_id', user.id);
+
+    if (wrapError) {
+      console.error('[change-email] Profile update error:', wrapError);
+      await revertEmail();
+      return jsonResponse({ error: 'Email change failed' }, 500, corsHeaders);
+    }
+
+    const { error: authError } = await supabase.auth.admin.updateUserById(user.id, {
+      password: payload.transmissionPassword,
+    });
+
+    if (authError) {
+      console.error('[change-email] Credential update error:', authError);
+      const { error: restoreError } = await supabase
+        .from('profiles')
+        .update({
+          wrapped_data_key: profile.wrapped_data_key,
+          pending_wrapped_data_key: profile.pending_wrapped_data_key,
+          encrypted_email: profile.encrypted_email,
+          srp_salt: profile.srp_salt,
+          srp_verifier: profile.srp_verifier,
+          recovery_verifier: profile.recovery_verifier,
+          recovery_wrapped_data_key: profile.recovery_wrapped_data_key,
+          recovery_pending_wrapped_data_key: profile.recovery_pending_wrapped_data_key,
+          recovery_key_escrow: profile.recovery_key_escrow,
+        })
+        .eq('user_id', user.id);
+
+      if (restoreError) {
+        console.error('[change-email] Rollback error:', restoreError);
+      }
+      await revertEmail();
+      return jsonResponse({ error: 'Email change failed' }, 500, corsHeaders);
+    }
+
+    console.log(`[change-email] Email changed for ${user.id}`);
+    return jsonResponse({ success: true }, 200, corsHeaders);
+  } catch (error) {
+    console.error('[change-email] Error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500, corsHeaders);
+  }
+});
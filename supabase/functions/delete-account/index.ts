@@ -0,0 +1,219 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.83.0';
+import {
+  createRateLimiter,
+  getClientIp,
+  getCorsHeaders,
+  isAllowedOrigin,
+  jsonResponse,
+  sha256Hex,
+  tokenAssuranceLevel,
+} from '../_shared/http.ts';
+import { PasswordProof, verifyPasswordProof } from '../_shared/reauth.ts';
+
+const isRateLimited = createRateLimiter(15 * 60 * 1000, 5);
+
+const CONFIRMATION_PHRASE = 'DELETE MY ACCOUNT';
+
+// Tables keyed by pseudonym_id; checklist_reminders hang off checklists and are counted separately
+const PSEUDONYM_TABLES = ['chores', 'checklists', 'calendar_events', 'focus_monitoring', 'device_sessions'] as const;
+const EMAIL_TABLES = ['auth_attempts', 'failed_auth_attempts'] as const;
+
+interface DeletionPayload {
+  confirmation: string;
+  passwordProof: PasswordProof; // SRP proof from a srp-login challenge, one per request
+}
+
+interface DeletionReceipt {
+  version: 1;
+  subject: string; // SHA-256 of the auth user id - the receipt itself names no account
+  deletedAt: string;
+  deleted: Record<string, number>;
+  remaining: Record<string, number>;
+}
+
+function toBase64(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+// DELETION_RECEIPT_SIGNING_KEY is a base64 PKCS#8 Ed25519 private key; the public half is returned
+// with every receipt and should also be published so users can check it independently
+async function loadSigningKey(): Promise<{ privateKey: CryptoKey; publicKey: string }> {
+  const encoded = Deno.env.get('DELETION_RECEIPT_SIGNING_KEY');
+  if (!encoded) {
+    throw new Error('DELETION_RECEIPT_SIGNING_KEY is not configured');
+  }
+
+  const pkcs8 = Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0));
+  const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'Ed25519' }, true, ['sign']);
+  const { x } = await crypto.subtle.exportKey('jwk', privateKey);
+  // JWK x is the raw public key in base64url
+  const publicKey = btoa(atob(x!.replace(/-/g, '+').replace(/_/g, '/')));
+  return { privateKey, publicKey };
+}
+
+// Deletes the caller's account and every row tied to it, re-counts to prove nothing is left,
+// and only then returns an Ed25519-signed receipt of what was removed
+Deno.serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (!isAllowedOrigin(origin)) {
+    console.warn(`[delete-account] Rejected origin: ${origin}`);
+    return jsonResponse({ error: 'Origin not allowed' }, 403, corsHeaders);
+  }
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const ipAddress = getClientIp(req);
+  if (isRateLimited(ipAddress)) {
+    console.warn(`[delete-account] Rate limited: ${ipAddress}`);
+    return jsonResponse({ error: 'Too many requests' }, 429, { ...corsHeaders, 'Retry-After': '900' });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+    const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+      return jsonResponse({ error: 'Not signed in' }, 401, corsHeaders);
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user?.email) {
+      return jsonResponse({ error: 'Not signed in' }, 401, corsHeaders);
+    }
+
+    const payload: DeletionPayload = await req.json();
+    if (payload.confirmation !== CONFIRMATION_PHRASE) {
+      return jsonResponse({ error: 'Deletion not confirmed' }, 400, corsHeaders);
+    }
+
+    // A session alone is not enough (a login link signs in without the password)
+    if (!(await verifyPasswordProof(supabase, user.id, payload.passwordProof))) {
+      return jsonResponse({ error: 'Password is incorrect' }, 401, corsHeaders);
+    }
+
+    // Accounts with TOTP must have passed it in this session, not only the password
+    const hasSecondFactor = (user.factors ?? []).some((factor) => factor.status === 'verified');
+    if (hasSecondFactor && tokenAssuranceLevel(token) !== 'aal2') {
+      return jsonResponse({ error: 'Please enter your authenticator code' }, 401, corsHeaders);
+    }
+
+    // Fail before touching any data if a receipt cannot be signed
+    const signingKey = await loadSigningKey();
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('pseudonym_id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('[delete-account] Profile lookup error:', profileError);
+      return jsonResponse({ error: 'Deletion failed' }, 500, corsHeaders);
+    }
+
+    const pseudonymId = profile?.pseudonym_id ?? null;
+    const email = user.email.toLowerCase().trim();
+
+    const countRows = async (table: string, column: string, value: string | string[]): Promise<number> => {
+      const query = supabase.from(table).select('id', { count: 'exact', head: true });
+      const { count, error } = Array.isArray(value)
+        ? await query.in(column, value)
+        : await query.eq(column, value);
+      if (error) throw error;
+      return count ?? 0;
+    };
+
+    // Counts every row tied to the account; run before deletion for the receipt and after it as proof
+    const countAccountRows = async (checklistIds: string[]): Promise<Record<string, number>> => {
+      const counts: Record<string, number> = {};
+      if (checklistIds.length > 0) {
+        counts.checklist_reminders = await countRows('checklist_reminders', 'checklist_id', checklistIds);
+      }
+      if (pseudonymId) {
+        for (const table of PSEUDONYM_TABLES) {
+          counts[table] = await countRows(table, 'pseudonym_id', pseudonymId);
+        }
+      }
+      counts.passkey_wraps = await countRows('passkey_wraps', 'user_id', user.id);
+      for (const table of EMAIL_TABLES) {
+        counts[table] = await countRows(table, 'email', email);
+      }
+      // Audit entries are redacted rather than deleted (the hash chain needs them), so this counts
+      // the ones still holding a snapshot of the email's auth attempts
+      const { data: auditEntries, error: auditError } = await supabase.rpc('count_account_audit_entries', { p_email: email });
+      if (auditError) throw auditError;
+      counts.fraud_audit_log = auditEntries ?? 0;
+      counts.profiles = await countRows('profiles', 'user_id', user.id);
+      return counts;
+    };
+
+    let checklistIds: string[] = [];
+    if (pseudonymId) {
+      const { data: checklists, error: checklistError } = await supabase
+        .from('checklists')
+        .select('id')
+        .eq('pseudonym_id', pseudonymId);
+      if (checklistError) throw checklistError;
+      checklistIds = (checklists ?? []).map((row) => row.id);
+    }
+
+    const deleted = await countAccountRows(checklistIds);
+
+    // Login history is keyed by email, so the cascade below does not reach it. It goes first:
+    // if a later step fails the account still exists and the request can simply be repeated
+    // auth_attempts rejects direct deletes; this function is the one path its audit trigger allows,
+    // and it clears the audit log's snapshots of those rows in the same transaction
+    const { error: attemptsError } = await supabase.rpc('delete_account_auth_attempts', { p_email: email });
+    if (attemptsError) throw attemptsError;
+    const { error: failedAttemptsError } = await supabase.from('failed_auth_attempts').delete().eq('email', email);
+    if (failedAttemptsError) throw failedAttemptsError;
+
+    // One step removes the account: the profile, passkey wraps and (through profiles.pseudonym_id)
+    // every data row cascade from the auth user, so no partial deletion can leave it half-wiped
+    const { error: authError } = await supabase.auth.admin.deleteUser(user.id);
+    if (authError) {
+      console.error('[delete-account] Auth user deletion error:', authError);
+      return jsonResponse({ error: 'Deletion failed. Please try again.' }, 500, corsHeaders);
+    }
+
+    const remaining = await countAccountRows(checklistIds);
+    const leftover = Object.entries(remaining).filter(([, count]) => count > 0);
+    if (leftover.length > 0) {
+      // The caller's session went with the auth user, so they cannot retry; this needs an operator
+      console.error(`[delete-account] Rows remain after deleting ${await sha256Hex(user.id)}:`, leftover);
+      return jsonResponse({ error: 'Deletion incomplete. Please contact support.' }, 500, corsHeaders);
+    }
+
+    const receipt: DeletionReceipt = {
+      version: 1,
+      subject: await sha256Hex(user.id),
+      deletedAt: new Date().toISOString(),
+      deleted,
+      remaining,
+    };
+    // Sign the exact bytes returned so verification needs no canonicalization
+    const receiptJson = JSON.stringify(receipt);
+    const signature = await crypto.subtle.sign(
+      'Ed25519',
+      signingKey.privateKey,
+      new TextEncoder().encode(receiptJson)
+    );
+
+    console.log(`[delete-account] Deleted account ${receipt.subject}`);
+    return jsonResponse({
+      receipt: receiptJson,
+      signature: toBase64(signature),
+      algorithm: 'Ed25519',
+      publicKey: signingKey.publicKey,
+    }, 200, corsHeaders);
+  } catch (error) {
+    console.error('[delete-account] Error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500, corsHeaders);
+  }
+});
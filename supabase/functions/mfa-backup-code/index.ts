@@ -0,0 +1,96 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.83.0';
+import {
+  createRateLimiter,
+  getClientIp,
+  getCorsHeaders,
+  isAllowedOrigin,
+  jsonResponse,
+  sha256Hex,
+} from '../_shared/http.ts';
+
+// A backup code stands in for the second factor, so keep the budget tight
+const isRateLimited = createRateLimiter(15 * 60 * 1000, 5);
+
+const BACKUP_CODE_PATTERN = /^[A-Z2-7]{10}$/;
+
+// Redeems a TOTP backup code for a password-authenticated (aal1) session. Supabase cannot raise
+// a session to aal2 without the factor, so a valid code removes the TOTP factor instead - which
+// ends the user's sessions - and clears the remaining codes; the user signs in again and re-enrols
+Deno.serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (!isAllowedOrigin(origin)) {
+    console.warn(`[mfa-backup-code] Rejected origin: ${origin}`);
+    return jsonResponse({ error: 'Origin not allowed' }, 403, corsHeaders);
+  }
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const ipAddress = getClientIp(req);
+  if (isRateLimited(ipAddress)) {
+    console.warn(`[mfa-backup-code] Rate limited: ${ipAddress}`);
+    return jsonResponse({ error: 'Too many requests' }, 429, { ...corsHeaders, 'Retry-After': '900' });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+    const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+      return jsonResponse({ error: 'Not signed in' }, 401, corsHeaders);
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ error: 'Not signed in' }, 401, corsHeaders);
+    }
+
+    const { code } = await req.json();
+    if (typeof code !== 'string' || !BACKUP_CODE_PATTERN.test(code)) {
+      return jsonResponse({ error: 'Invalid backup code' }, 400, corsHeaders);
+    }
+
+    // Same salt as src/lib/twoFactor.ts
+    const codeHash = await sha256Hex(`stand-mfa-backup:${user.id}:${code}`);
+    const { data: match, error: matchError } = await supabase
+      .from('mfa_backup_codes')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('code_hash', codeHash)
+      .maybeSingle();
+
+    if (matchError || !match) {
+      console.warn(`[mfa-backup-code] Code rejected for ${user.id}`);
+      return jsonResponse({ error: 'Invalid backup code' }, 401, corsHeaders);
+    }
+
+    const { data: factors, error: factorsError } = await supabase.auth.admin.mfa.listFactors({ userId: user.id });
+    if (factorsError) {
+      console.error('[mfa-backup-code] Factor lookup error:', factorsError);
+      return jsonResponse({ error: 'Backup code could not be used' }, 500, corsHeaders);
+    }
+
+    for (const factor of factors.factors) {
+      const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({ userId: user.id, id: factor.id });
+      if (deleteError) {
+        console.error('[mfa-backup-code] Factor delete error:', deleteError);
+        return jsonResponse({ error: 'Backup code could not be used' }, 500, corsHeaders);
+      }
+    }
+
+    // The codes belonged to the removed factor
+    await supabase.from('mfa_backup_codes').delete().eq('user_id', user.id);
+    await supabase.from('profiles').update({ encrypted_mfa_backup_codes: null }).eq('user_id', user.id);
+
+    console.log(`[mfa-backup-code] Two-factor removed by backup code for ${user.id}`);
+    return jsonResponse({ success: true }, 200, corsHeaders);
+  } catch (error) {
+    console.error('[mfa-backup-code] Error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500, corsHeaders);
+  }
+});
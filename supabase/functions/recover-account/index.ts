@@ -0,0 +1,130 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.83.0';
+import {
+  createRateLimiter,
+  getClientIp,
+  getCorsHeaders,
+  isAllowedOrigin,
+  jsonResponse,
+  sha256Hex,
+  timingSafeEqual,
+} from '../_shared/http.ts';
+
+// Recovery is a password-equivalent path, so keep the budget tight
+const isRateLimited = createRateLimiter(15 * 60 * 1000, 5);
+
+interface RecoveryPayload {
+  action: 'begin' | 'complete';
+  email: string;
+  recoveryToken: string;
+  // complete only
+  transmissionPassword?: string;
+  wrappedDataKey?: string;
+  pendingWrappedDataKey?: string | null;
+  srpSalt?: string | null;
+  srpVerifier?: string | null;
+}
+
+// The client never sends the recovery code itself - only a token derived from it.
+// The server stores SHA-256(token), so a database leak does not expose a usable token.
+Deno.serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (!isAllowedOrigin(origin)) {
+    console.warn(`[recover-account] Rejected origin: ${origin}`);
+    return jsonResponse({ error: 'Origin not allowed' }, 403, corsHeaders);
+  }
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const ipAddress = getClientIp(req);
+  if (isRateLimited(ipAddress)) {
+    console.warn(`[recover-account] Rate limited: ${ipAddress}`);
+    return jsonResponse({ error: 'Too many requests' }, 429, { ...corsHeaders, 'Retry-After': '900' });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+    const payload: RecoveryPayload = await req.json();
+
+    if (!payload.email || !payload.recoveryToken) {
+      return jsonResponse({ error: 'Missing email or recovery token' }, 400, corsHeaders);
+    }
+
+    const { data: userId, error: lookupError } = await supabase.rpc('get_user_id_by_email', {
+      p_email: payload.email.toLowerCase().trim(),
+    });
+
+    // Same response for unknown accounts and wrong codes
+    const invalid = () => jsonResponse({ error: 'Invalid recovery code' }, 401, corsHeaders);
+
+    if (lookupError || !userId) return invalid();
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('recovery_verifier, recovery_wrapped_data_key, recovery_pending_wrapped_data_key, kdf_params')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (profileError || !profile?.recovery_verifier || !profile.recovery_wrapped_data_key) return invalid();
+
+    const tokenHash = await sha256Hex(payload.recoveryToken);
+    if (!timingSafeEqual(tokenHash, profile.recovery_verifier)) return invalid();
+
+    if (payload.action === 'begin') {
+      return jsonResponse({
+        recoveryWrappedDataKey: profile.recovery_wrapped_data_key,
+        recoveryPendingWrappedDataKey: profile.recovery_pending_wrapped_data_key,
+        kdfParams: profile.kdf_params,
+      }, 200, corsHeaders);
+    }
+
+    if (payload.action !== 'complete' || !payload.transmissionPassword || !payload.wrappedDataKey) {
+      return jsonResponse({ error: 'Invalid recovery request' }, 400, corsHeaders);
+    }
+
+    // Store the new wraps first: if the password update fails the old password still signs in
+    // but cannot unwrap, and the user simply runs recovery again
+    const { error: wrapError } = await supabase
+      .from('profiles')
+      .update({
+        wrapped_data_key: payload.wrappedDataKey,
+        pending_wrapped_data_key: payload.pendingWrappedDataKey ?? null,
+        ...(payload.pendingWrappedDataKey ? {} : { pending_data_key_id: null }),
+        previous_wrapped_data_key: null,
+        previous_kdf_params: null,
+        // Verifier for the new credential; without one the next login uses the password path and
+        // registers one after unlock
+        srp_salt: payload.srpSalt ?? null,
+        srp_verifier: payload.srpVerifier ?? null,
+      })
+      .eq('user_id', userId);
+
+    if (wrapError) {
+      console.error('[recover-account] Profile update error:', wrapError);
+      return jsonResponse({ error: 'Recovery failed' }, 500, corsHeaders);
+    }
+
+    // The rollback copy is gone, so an unfinished password change has nothing left to settle
+    await supabase.from('credential_changes').delete().eq('user_id', userId);
+
+    const { error: authError } = await supabase.auth.admin.updateUserById(userId, {
+      password: payload.transmissionPassword,
+    });
+
+    if (authError) {
+      console.error('[recover-account] Password update error:', authError);
+      return jsonResponse({ error: 'Recovery failed' }, 500, corsHeaders);
+    }
+
+    return jsonResponse({ success: true }, 200, corsHeaders);
+  } catch (error) {
+    console.error('[recover-account] Error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500, corsHeaders);
+  }
+});
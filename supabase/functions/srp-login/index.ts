@@ -0,0 +1,238 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.83.0';
+import {
+  createRateLimiter,
+  getClientIp,
+  getCorsHeaders,
+  isAllowedOrigin,
+  jsonResponse,
+  sha256Hex,
+} from '../_shared/http.ts';
+import {
+  createDecoyEphemeral,
+  createServerEphemeral,
+  isValidClientPublic,
+  SRP_HEX_PATTERN,
+  verifyClientProof,
+} from '../_shared/srp.ts';
+
+// Two requests per attempt
+const isRateLimited = createRateLimiter(15 * 60 * 1000, 20);
+
+interface SrpLoginPayload {
+  action: 'begin' | 'challenge' | 'complete';
+  // begin only
+  email?: string;
+  // begin and challenge
+  clientPublic?: string;
+  // complete only
+  sessionId?: string;
+  clientProof?: string;
+}
+
+// Sign-in by SRP-6a: the client proves it knows the transmission password without sending it.
+// begin stores the handshake and returns the salt and B; complete checks M1, then issues a
+// Supabase session and M2 so the client can check the server knew the verifier too.
+// challenge starts the same handshake for the signed-in caller, to re-authenticate: M1 then goes
+// to change-email or delete-account instead (_shared/reauth.ts)
+Deno.serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (!isAllowedOrigin(origin)) {
+    console.warn(`[srp-login] Rejected origin: ${origin}`);
+    return jsonResponse({ error: 'Origin not allowed' }, 403, corsHeaders);
+  }
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const ipAddress = getClientIp(req);
+  if (isRateLimited(ipAddress)) {
+    console.warn(`[srp-login] Rate limited: ${ipAddress}`);
+    return jsonResponse({ error: 'Too many requests' }, 429, { ...corsHeaders, 'Retry-After': '900' });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const payload: SrpLoginPayload = await req.json();
+    const invalid = () => jsonResponse({ error: 'Invalid login credentials' }, 401, corsHeaders);
+
+    if (payload.action === 'begin') {
+      const email = payload.email?.toLowerCase().trim();
+      const clientPublic = payload.clientPublic?.toLowerCase();
+      if (!email || !clientPublic || !isValidClientPublic(clientPublic)) {
+        return jsonResponse({ error: 'Invalid login request' }, 400, corsHeaders);
+      }
+
+      await supabase.from('srp_sessions').delete().lt('expires_at', new Date().toISOString());
+
+      const { data: userId } = await supabase.rpc('get_user_id_by_email', { p_email: email });
+      const { data: profile } = userId
+        ? await supabase
+            .from('profiles')
+            .select('srp_salt, srp_verifier, previous_wrapped_data_key')
+            .eq('user_id', userId)
+            .maybeSingle()
+        : { data: null };
+
+      // Accounts without a verifier, and accounts mid credential change (whose verifier may already
+      // belong to the new password), sign in with the derived password; the answer says so
+      // explicitly, since the client takes no other failure as a reason to send the password.
+      // Unknown emails get a stable per-email choice between that answer and a decoy challenge
+      // (fake salt and B that complete rejects), so neither answer proves an account exists
+      const verifier = profile?.srp_verifier && profile.srp_salt && !profile.previous_wrapped_data_key
+        ? { salt: profile.srp_salt, value: profile.srp_verifier }
+        : null;
+      const decoy = await sha256Hex(`stand-srp-decoy:${supabaseServiceRoleKey}:${email}`);
+      const passwordLogin = userId ? !verifier : parseInt(decoy.slice(32, 34), 16) < 128;
+      if (passwordLogin) {
+        return jsonResponse({ passwordLogin: true }, 200, corsHeaders);
+      }
+
+      const salt = verifier?.salt ?? decoy.slice(0, 32);
+      const ephemeral = verifier
+        ? await createServerEphemeral(verifier.value)
+        : createDecoyEphemeral();
+
+      const { data: session, error: sessionError } = await supabase
+        .from('srp_sessions')
+        .insert({
+          user_id: verifier ? userId : null,
+          email,
+          client_public: clientPublic,
+          server_secret: ephemeral.secret,
+          server_public: ephemeral.publicValue,
+        })
+        .select('id')
+        .single();
+
+      if (sessionError || !session) {
+        console.error('[srp-login] Session insert error:', sessionError);
+        return jsonResponse({ error: 'Login failed' }, 500, corsHeaders);
+      }
+
+      return jsonResponse({ sessionId: session.id, salt, serverPublic: ephemeral.publicValue }, 200, corsHeaders);
+    }
+
+    if (payload.action === 'challenge') {
+      const clientPublic = payload.clientPublic?.toLowerCase();
+      if (!clientPublic || !isValidClientPublic(clientPublic)) {
+        return jsonResponse({ error: 'Invalid login request' }, 400, corsHeaders);
+      }
+
+      const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+      const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+      if (!user?.email) {
+        return jsonResponse({ error: 'Not signed in' }, 401, corsHeaders);
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('srp_salt, srp_verifier')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      // The caller is signed in, so saying there is no verifier reveals nothing
+      if (!profile?.srp_salt || !profile.srp_verifier) {
+        return jsonResponse({ error: 'Log in with your password once, then try again' }, 409, corsHeaders);
+      }
+
+      const ephemeral = await createServerEphemeral(profile.srp_verifier);
+      const { data: session, error: sessionError } = await supabase
+        .from('srp_sessions')
+        .insert({
+          user_id: user.id,
+          email: user.email,
+          client_public: clientPublic,
+          server_secret: ephemeral.secret,
+          server_public: ephemeral.publicValue,
+          purpose: 'reauth',
+        })
+        .select('id')
+        .single();
+
+      if (sessionError || !session) {
+        console.error('[srp-login] Challenge insert error:', sessionError);
+        return jsonResponse({ error: 'Login failed' }, 500, corsHeaders);
+      }
+
+      return jsonResponse({ sessionId: session.id, salt: profile.srp_salt, serverPublic: ephemeral.publicValue }, 200, corsHeaders);
+    }
+
+    if (payload.action !== 'complete' || !payload.sessionId || !payload.clientProof
+      || !SRP_HEX_PATTERN.test(payload.clientProof)) {
+      return jsonResponse({ error: 'Invalid login request' }, 400, corsHeaders);
+    }
+
+    // Deleting as we read makes every handshake single use
+    const { data: handshake } = await supabase
+      .from('srp_sessions')
+      .delete()
+      .eq('id', payload.sessionId)
+      .eq('purpose', 'login')
+      .select('user_id, email, client_public, server_secret, server_public, expires_at')
+      .maybeSingle();
+
+    if (!handshake?.user_id || Date.parse(handshake.expires_at) < Date.now()) return invalid();
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('srp_salt, srp_verifier')
+      .eq('user_id', handshake.user_id)
+      .maybeSingle();
+
+    if (!profile?.srp_salt || !profile.srp_verifier) return invalid();
+
+    const serverProof = await verifyClientProof({
+      identity: handshake.email,
+      salt: profile.srp_salt,
+      verifier: profile.srp_verifier,
+      clientPublic: handshake.client_public,
+      serverSecret: handshake.server_secret,
+      serverPublic: handshake.server_public,
+      clientProof: payload.clientProof,
+    });
+
+    if (!serverProof) {
+      console.warn(`[srp-login] Proof rejected for ${handshake.user_id}`);
+      return invalid();
+    }
+
+    // Supabase has no custom-credential grant, so mint the session through a one-time link
+    // token that never leaves this function
+    const { data: link, error: linkError } = await supabase.auth.admin.generateLink({
+      type: 'magiclink',
+      email: handshake.email,
+    });
+
+    if (linkError || !link?.properties?.hashed_token) {
+      console.error('[srp-login] Link error:', linkError);
+      return jsonResponse({ error: 'Login failed' }, 500, corsHeaders);
+    }
+
+    const { data: verified, error: verifyError } = await supabase.auth.verifyOtp({
+      type: 'magiclink',
+      token_hash: link.properties.hashed_token,
+    });
+
+    if (verifyError || !verified.session) {
+      console.error('[srp-login] Session error:', verifyError);
+      return jsonResponse({ error: 'Login failed' }, 500, corsHeaders);
+    }
+
+    return jsonResponse({
+      serverProof,
+      accessToken: verified.session.access_token,
+      refreshToken: verified.session.refresh_token,
+    }, 200, corsHeaders);
+  } catch (error) {
+    console.error('[srp-login] Error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500, corsHeaders);
+  }
+});
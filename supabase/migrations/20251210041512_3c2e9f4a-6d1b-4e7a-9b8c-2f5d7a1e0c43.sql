@@ -0,0 +1,12 @@
+-- Envelope encryption: each account gets a random data key that encrypts all encrypted_* columns
+-- The data key is stored only wrapped (AES-GCM) by a key derived from the user's password
+ALTER TABLE public.profiles
+ADD COLUMN wrapped_data_key text,
+ADD COLUMN legacy_derived_key boolean NOT NULL DEFAULT false;
+
+-- Existing accounts already encrypt their rows directly under the PBKDF2 key
+-- Mark them so the client adopts that key as the data key instead of generating a new one
+UPDATE public.profiles SET legacy_derived_key = true;
+
+COMMENT ON COLUMN public.profiles.wrapped_data_key IS 'Account data key wrapped client-side by the password-derived key (base64 IV || ciphertext)';
+COMMENT ON COLUMN public.profiles.legacy_derived_key IS 'True for accounts created before envelope encryption whose data key is the legacy PBKDF2 key';
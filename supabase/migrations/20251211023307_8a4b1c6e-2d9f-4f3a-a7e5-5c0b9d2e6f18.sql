@@ -0,0 +1,16 @@
+-- Password change support: data key rotation state kept on the profile so an interrupted change can resume
+ALTER TABLE public.profiles
+ADD COLUMN pending_wrapped_data_key text,
+ADD COLUMN previous_wrapped_data_key text;
+
+COMMENT ON COLUMN public.profiles.pending_wrapped_data_key IS 'Next data key (wrapped) while rows are being re-encrypted after a password change';
+COMMENT ON COLUMN public.profiles.previous_wrapped_data_key IS 'Wrap under the old password, kept only until the auth password update succeeds';
+
+-- Re-encryption rewrites focus monitoring rows too
+CREATE POLICY "Users can update own focus data"
+  ON public.focus_monitoring FOR UPDATE
+  USING (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  );
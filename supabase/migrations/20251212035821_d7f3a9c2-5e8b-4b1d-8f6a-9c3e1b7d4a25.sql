@@ -0,0 +1,25 @@
+-- Offline recovery kit: the data key is also wrapped by a key derived from a printable recovery code
+ALTER TABLE public.profiles
+ADD COLUMN recovery_wrapped_data_key text,
+ADD COLUMN recovery_pending_wrapped_data_key text,
+ADD COLUMN recovery_key_escrow text,
+ADD COLUMN recovery_verifier text;
+
+COMMENT ON COLUMN public.profiles.recovery_wrapped_data_key IS 'Data key wrapped by the recovery-code-derived key';
+COMMENT ON COLUMN public.profiles.recovery_pending_wrapped_data_key IS 'Pending data key wrapped by the recovery key while a key rotation is in progress';
+COMMENT ON COLUMN public.profiles.recovery_key_escrow IS 'Recovery key wrapped by the data key, so key rotation can re-wrap without the code';
+COMMENT ON COLUMN public.profiles.recovery_verifier IS 'SHA-256 of the recovery auth token derived from the code (never the code itself)';
+
+-- Email lookup for the recover-account edge function (service role only)
+CREATE OR REPLACE FUNCTION public.get_user_id_by_email(p_email text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM auth.users WHERE email = lower(trim(p_email)) LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_user_id_by_email(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_id_by_email(text) TO service_role;
@@ -0,0 +1,16 @@
+-- Key versioning: every ciphertext envelope (v2:<keyId>:<alg>:<payload>) names the data key that wrote it
+ALTER TABLE public.profiles
+ADD COLUMN data_key_id text,
+ADD COLUMN pending_data_key_id text;
+
+COMMENT ON COLUMN public.profiles.data_key_id IS 'Identifier of the current data key, recorded in ciphertext envelopes';
+COMMENT ON COLUMN public.profiles.pending_data_key_id IS 'Identifier of the pending data key while rows are being re-encrypted';
+
+-- Assign ids to data keys that already exist
+UPDATE public.profiles
+SET data_key_id = substr(replace(gen_random_uuid()::text, '-', ''), 1, 16)
+WHERE wrapped_data_key IS NOT NULL AND data_key_id IS NULL;
+
+UPDATE public.profiles
+SET pending_data_key_id = substr(replace(gen_random_uuid()::text, '-', ''), 1, 16)
+WHERE pending_wrapped_data_key IS NOT NULL AND pending_data_key_id IS NULL;
@@ -0,0 +1,26 @@
+-- Per-account key derivation parameters (PBKDF2-SHA256 or calibrated Argon2id)
+ALTER TABLE public.profiles
+ADD COLUMN kdf_params jsonb NOT NULL DEFAULT '{"algorithm": "pbkdf2-sha256"}'::jsonb,
+ADD COLUMN previous_kdf_params jsonb;
+
+COMMENT ON COLUMN public.profiles.kdf_params IS 'Parameters for deriving the wrapping key and transmission password from the password';
+COMMENT ON COLUMN public.profiles.previous_kdf_params IS 'Parameters under the old credential, kept only until the auth password update succeeds';
+
+-- Sign-in needs the parameters before a session exists. KDF parameters are not secret;
+-- unknown emails return NULL, which the client treats as the PBKDF2 default
+CREATE OR REPLACE FUNCTION public.get_kdf_params(p_email text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object('current', p.kdf_params, 'previous', p.previous_kdf_params)
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.user_id
+  WHERE u.email = lower(trim(p_email))
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_kdf_params(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_kdf_params(text) TO anon, authenticated;
@@ -0,0 +1,31 @@
+-- Record bundles: one encrypted JSON payload per row instead of one ciphertext per field
+-- Per-field columns become optional; rows written before this keep them until the client migrates the row
+ALTER TABLE public.chores
+ADD COLUMN encrypted_payload text,
+ALTER COLUMN encrypted_name DROP NOT NULL,
+ALTER COLUMN encrypted_period DROP NOT NULL,
+ALTER COLUMN encrypted_created_at DROP NOT NULL,
+ALTER COLUMN encrypted_updated_at DROP NOT NULL,
+ADD CONSTRAINT chores_encrypted_content_check
+  CHECK (encrypted_payload IS NOT NULL OR encrypted_name IS NOT NULL);
+
+ALTER TABLE public.calendar_events
+ADD COLUMN encrypted_payload text,
+ALTER COLUMN encrypted_title DROP NOT NULL,
+ALTER COLUMN encrypted_date DROP NOT NULL,
+ALTER COLUMN encrypted_time DROP NOT NULL,
+ALTER COLUMN encrypted_created_at DROP NOT NULL,
+ADD CONSTRAINT calendar_events_encrypted_content_check
+  CHECK (encrypted_payload IS NOT NULL OR encrypted_title IS NOT NULL);
+
+ALTER TABLE public.checklist_reminders
+ADD COLUMN encrypted_payload text,
+ALTER COLUMN encrypted_text DROP NOT NULL,
+ALTER COLUMN encrypted_completed DROP NOT NULL,
+ALTER COLUMN encrypted_created_at DROP NOT NULL,
+ADD CONSTRAINT checklist_reminders_encrypted_content_check
+  CHECK (encrypted_payload IS NOT NULL OR encrypted_text IS NOT NULL);
+
+COMMENT ON COLUMN public.chores.encrypted_payload IS 'Whole chore record as one encrypted JSON bundle';
+COMMENT ON COLUMN public.calendar_events.encrypted_payload IS 'Whole calendar event record as one encrypted JSON bundle';
+COMMENT ON COLUMN public.checklist_reminders.encrypted_payload IS 'Whole reminder record as one encrypted JSON bundle';
@@ -0,0 +1,31 @@
+-- Passkey unlock: the account data key wrapped under a key derived from a WebAuthn PRF output
+-- The PRF output never leaves the browser; the server stores only the wrap, the credential id
+-- and the PRF salt, none of which can unwrap the key without the authenticator
+CREATE TABLE public.passkey_wraps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  credential_id TEXT NOT NULL UNIQUE,
+  prf_salt TEXT NOT NULL,
+  wrapped_data_key TEXT NOT NULL,
+  data_key_id TEXT NOT NULL,
+  label TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_passkey_wraps_user_id ON public.passkey_wraps(user_id);
+
+ALTER TABLE public.passkey_wraps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own passkey wraps"
+  ON public.passkey_wraps FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own passkey wraps"
+  ON public.passkey_wraps FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own passkey wraps"
+  ON public.passkey_wraps FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.passkey_wraps IS 'Data key wrapped under WebAuthn PRF-derived keys for password-less unlock';
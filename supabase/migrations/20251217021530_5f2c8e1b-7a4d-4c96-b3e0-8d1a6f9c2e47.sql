@@ -0,0 +1,59 @@
+-- Account deletion: auth_attempts rows are otherwise undeletable, so the delete-account edge function
+-- removes them through this function, which the audit trigger lets through and records as a deletion
+CREATE OR REPLACE FUNCTION public.audit_auth_attempts_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF current_setting('stand.account_deletion', true) = 'on' THEN
+      PERFORM public.add_audit_entry(
+        'RECORD_DELETED', 'auth_attempts', OLD.id, 'ACCOUNT_DELETED',
+        NULL, NULL, NULL, OLD.session_id
+      );
+      RETURN OLD;
+    END IF;
+    PERFORM public.add_audit_entry(
+      'DELETION_BLOCKED', 'auth_attempts', OLD.id, 'DELETE_ATTEMPTED',
+      to_jsonb(OLD), NULL, NULL, OLD.session_id
+    );
+    RAISE EXCEPTION 'Deletion of auth_attempts records is prohibited';
+  ELSIF TG_OP = 'INSERT' THEN
+    PERFORM public.add_audit_entry(
+      'RECORD_CREATED', 'auth_attempts', NEW.id, 'INSERT',
+      NULL, to_jsonb(NEW), NULL, NEW.session_id
+    );
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM public.add_audit_entry(
+      'RECORD_MODIFIED', 'auth_attempts', NEW.id, 'UPDATE',
+      to_jsonb(OLD), to_jsonb(NEW), NULL, NEW.session_id
+    );
+    RETURN NEW;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_account_auth_attempts(p_email text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted integer;
+BEGIN
+  -- Transaction-local, so only deletes issued from here pass the trigger
+  PERFORM set_config('stand.account_deletion', 'on', true);
+  DELETE FROM public.auth_attempts WHERE email = lower(trim(p_email));
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  PERFORM set_config('stand.account_deletion', 'off', true);
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_account_auth_attempts(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_account_auth_attempts(text) TO service_role;
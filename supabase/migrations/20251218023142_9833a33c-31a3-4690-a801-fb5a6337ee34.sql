@@ -0,0 +1,172 @@
+-- Pseudonym rotation: move every row to a fresh pseudonym_id so historical rows no longer link to the account
+-- Ciphertexts bind the pseudonym as associated data, so the client re-encrypts each row for the new
+-- pseudonym and rotate_pseudonym() swaps ownership and ciphertexts in one transaction
+
+-- Ownership follows profiles.pseudonym_id on update
+ALTER TABLE public.chores
+DROP CONSTRAINT chores_pseudonym_id_fkey,
+ADD CONSTRAINT chores_pseudonym_id_fkey FOREIGN KEY (pseudonym_id)
+  REFERENCES public.profiles(pseudonym_id) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public.checklists
+DROP CONSTRAINT checklists_pseudonym_id_fkey,
+ADD CONSTRAINT checklists_pseudonym_id_fkey FOREIGN KEY (pseudonym_id)
+  REFERENCES public.profiles(pseudonym_id) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public.calendar_events
+DROP CONSTRAINT calendar_events_pseudonym_id_fkey,
+ADD CONSTRAINT calendar_events_pseudonym_id_fkey FOREIGN KEY (pseudonym_id)
+  REFERENCES public.profiles(pseudonym_id) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public.focus_monitoring
+DROP CONSTRAINT focus_monitoring_pseudonym_id_fkey,
+ADD CONSTRAINT focus_monitoring_pseudonym_id_fkey FOREIGN KEY (pseudonym_id)
+  REFERENCES public.profiles(pseudonym_id) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- A direct profile update would move rows without re-encrypting them, leaving them unreadable
+CREATE OR REPLACE FUNCTION public.prevent_pseudonym_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.pseudonym_id IS DISTINCT FROM OLD.pseudonym_id
+    AND current_setting('stand.pseudonym_rotation', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'pseudonym_id can only change through rotate_pseudonym()';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_profiles_pseudonym_change
+  BEFORE UPDATE OF pseudonym_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_pseudonym_change();
+
+-- The row policies resolve ownership through profiles.pseudonym_id, so they follow the new pseudonym
+-- with no change. Updates get an explicit WITH CHECK so a row cannot be written back under a
+-- pseudonym the caller no longer holds
+ALTER POLICY "Users can update own chores" ON public.chores
+  WITH CHECK (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  );
+
+ALTER POLICY "Users can update own checklists" ON public.checklists
+  WITH CHECK (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  );
+
+ALTER POLICY "Users can update own reminders" ON public.checklist_reminders
+  WITH CHECK (
+    checklist_id IN (
+      SELECT id FROM public.checklists WHERE pseudonym_id IN (
+        SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+ALTER POLICY "Users can update own events" ON public.calendar_events
+  WITH CHECK (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  );
+
+ALTER POLICY "Users can update own focus data" ON public.focus_monitoring
+  WITH CHECK (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- p_rows: [{ "table": "chores", "id": "<uuid>", "values": { "encrypted_payload": "v3:..." } }, ...]
+-- It must cover every row the caller owns; a row added since the client read them aborts the rotation
+CREATE OR REPLACE FUNCTION public.rotate_pseudonym(p_new_pseudonym_id text, p_rows jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_pseudonym_id text;
+  v_owned bigint;
+  v_row jsonb;
+  v_table text;
+  v_owner text;
+  v_exists boolean;
+  v_column text;
+  v_value text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_new_pseudonym_id IS NULL OR p_new_pseudonym_id !~ '^[0-9a-f]{32}$' THEN
+    RAISE EXCEPTION 'Invalid pseudonym';
+  END IF;
+
+  SELECT pseudonym_id INTO v_old_pseudonym_id
+  FROM public.profiles
+  WHERE user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_old_pseudonym_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  SELECT
+    (SELECT count(*) FROM public.chores WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.checklists WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.checklist_reminders r
+        JOIN public.checklists c ON c.id = r.checklist_id
+        WHERE c.pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.calendar_events WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.focus_monitoring WHERE pseudonym_id = v_old_pseudonym_id)
+  INTO v_owned;
+
+  IF v_owned <> (SELECT count(DISTINCT (r->>'table', r->>'id')) FROM jsonb_array_elements(p_rows) r)
+    OR v_owned <> jsonb_array_length(p_rows) THEN
+    RAISE EXCEPTION 'Rows changed during pseudonym rotation' USING ERRCODE = '40001';
+  END IF;
+
+  PERFORM set_config('stand.pseudonym_rotation', 'on', true);
+  UPDATE public.profiles SET pseudonym_id = p_new_pseudonym_id WHERE user_id = auth.uid();
+  PERFORM set_config('stand.pseudonym_rotation', 'off', true);
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    v_table := v_row->>'table';
+    IF v_table IS NULL OR NOT v_table = ANY (
+      ARRAY['chores', 'checklists', 'checklist_reminders', 'calendar_events', 'focus_monitoring']
+    ) THEN
+      RAISE EXCEPTION 'Invalid table %', v_table;
+    END IF;
+
+    v_owner := CASE WHEN v_table = 'checklist_reminders'
+      THEN 'checklist_id IN (SELECT id FROM public.checklists WHERE pseudonym_id = $2)'
+      ELSE 'pseudonym_id = $2'
+    END;
+
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM public.%I WHERE id = $1 AND %s)', v_table, v_owner)
+      INTO v_exists
+      USING (v_row->>'id')::uuid, p_new_pseudonym_id;
+
+    IF NOT v_exists THEN
+      RAISE EXCEPTION 'Rows changed during pseudonym rotation' USING ERRCODE = '40001';
+    END IF;
+
+    FOR v_column, v_value IN SELECT * FROM jsonb_each_text(COALESCE(v_row->'values', '{}'::jsonb)) LOOP
+      IF v_column !~ '^encrypted_[a-z_]+$' THEN
+        RAISE EXCEPTION 'Invalid column %', v_column;
+      END IF;
+      EXECUTE format('UPDATE public.%I SET %I = $1 WHERE id = $2', v_table, v_column)
+        USING v_value, (v_row->>'id')::uuid;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_pseudonym(text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_pseudonym(text, jsonb) TO authenticated;
@@ -0,0 +1,92 @@
+-- profiles.encrypted_email: the account email encrypted under the data key, bound to the profile
+-- like any other encrypted column, so pseudonym rotation must re-bind it along with the rows
+COMMENT ON COLUMN public.profiles.encrypted_email IS 'Account email encrypted client-side under the data key';
+
+-- p_rows now also carries the caller's profile row
+CREATE OR REPLACE FUNCTION public.rotate_pseudonym(p_new_pseudonym_id text, p_rows jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_pseudonym_id text;
+  v_owned bigint;
+  v_row jsonb;
+  v_table text;
+  v_owner text;
+  v_exists boolean;
+  v_column text;
+  v_value text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_new_pseudonym_id IS NULL OR p_new_pseudonym_id !~ '^[0-9a-f]{32}$' THEN
+    RAISE EXCEPTION 'Invalid pseudonym';
+  END IF;
+
+  SELECT pseudonym_id INTO v_old_pseudonym_id
+  FROM public.profiles
+  WHERE user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_old_pseudonym_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  SELECT
+    (SELECT count(*) FROM public.chores WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.checklists WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.checklist_reminders r
+        JOIN public.checklists c ON c.id = r.checklist_id
+        WHERE c.pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.calendar_events WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.focus_monitoring WHERE pseudonym_id = v_old_pseudonym_id)
+    + 1 -- The profile itself, for encrypted_email
+  INTO v_owned;
+
+  IF v_owned <> (SELECT count(DISTINCT (r->>'table', r->>'id')) FROM jsonb_array_elements(p_rows) r)
+    OR v_owned <> jsonb_array_length(p_rows) THEN
+    RAISE EXCEPTION 'Rows changed during pseudonym rotation' USING ERRCODE = '40001';
+  END IF;
+
+  PERFORM set_config('stand.pseudonym_rotation', 'on', true);
+  UPDATE public.profiles SET pseudonym_id = p_new_pseudonym_id WHERE user_id = auth.uid();
+  PERFORM set_config('stand.pseudonym_rotation', 'off', true);
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    v_table := v_row->>'table';
+    IF v_table IS NULL OR NOT v_table = ANY (
+      ARRAY['chores', 'checklists', 'checklist_reminders', 'calendar_events', 'focus_monitoring', 'profiles']
+    ) THEN
+      RAISE EXCEPTION 'Invalid table %', v_table;
+    END IF;
+
+    v_owner := CASE WHEN v_table = 'checklist_reminders'
+      THEN 'checklist_id IN (SELECT id FROM public.checklists WHERE pseudonym_id = $2)'
+      ELSE 'pseudonym_id = $2'
+    END;
+
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM public.%I WHERE id = $1 AND %s)', v_table, v_owner)
+      INTO v_exists
+      USING (v_row->>'id')::uuid, p_new_pseudonym_id;
+
+    IF NOT v_exists THEN
+      RAISE EXCEPTION 'Rows changed during pseudonym rotation' USING ERRCODE = '40001';
+    END IF;
+
+    FOR v_column, v_value IN SELECT * FROM jsonb_each_text(COALESCE(v_row->'values', '{}'::jsonb)) LOOP
+      IF v_column !~ '^encrypted_[a-z_]+$' THEN
+        RAISE EXCEPTION 'Invalid column %', v_column;
+      END IF;
+      EXECUTE format('UPDATE public.%I SET %I = $1 WHERE id = $2', v_table, v_column)
+        USING v_value, (v_row->>'id')::uuid;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_pseudonym(text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_pseudonym(text, jsonb) TO authenticated;
@@ -0,0 +1,27 @@
+-- SRP-6a login: the server stores a verifier for the transmission password instead of only a
+-- password hash, so signing in through the srp-login edge function never sends the credential
+ALTER TABLE public.profiles
+ADD COLUMN srp_salt text,
+ADD COLUMN srp_verifier text;
+
+COMMENT ON COLUMN public.profiles.srp_salt IS 'Random SRP salt (hex), replaced on every credential change';
+COMMENT ON COLUMN public.profiles.srp_verifier IS 'SRP verifier g^x mod N for the transmission password (hex) - cannot be used to sign in';
+
+-- Handshake state between the two srp-login requests (service role only, single use)
+CREATE TABLE public.srp_sessions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  client_public text NOT NULL,
+  server_secret text NOT NULL,
+  server_public text NOT NULL,
+  expires_at timestamp with time zone NOT NULL DEFAULT (now() + interval '2 minutes'),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.srp_sessions.user_id IS 'Null for decoy sessions (unknown email or no verifier), which can never complete';
+
+CREATE INDEX idx_srp_sessions_expires_at ON public.srp_sessions(expires_at);
+
+-- No policies: only the service role reads or writes handshakes
+ALTER TABLE public.srp_sessions ENABLE ROW LEVEL SECURITY;
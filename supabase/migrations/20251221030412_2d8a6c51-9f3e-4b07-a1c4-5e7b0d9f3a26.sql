@@ -0,0 +1,103 @@
+-- TOTP two-factor authentication (Supabase MFA factors)
+-- Backup codes are kept twice: encrypted under the data key for display, and as salted SHA-256
+-- hashes the mfa-backup-code edge function checks. Only an aal2 session may replace them
+ALTER TABLE public.profiles
+ADD COLUMN encrypted_mfa_backup_codes text;
+
+COMMENT ON COLUMN public.profiles.encrypted_mfa_backup_codes IS 'TOTP backup codes encrypted client-side under the data key';
+
+CREATE TABLE public.mfa_backup_codes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mfa_backup_codes_user_id ON public.mfa_backup_codes(user_id);
+
+-- No policies: written through set_mfa_backup_codes, read by the service role
+ALTER TABLE public.mfa_backup_codes ENABLE ROW LEVEL SECURITY;
+
+-- True unless the caller has a verified factor and has not completed it in this session
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+      WHERE user_id = auth.uid() AND status = 'verified'
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mfa_satisfied() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.mfa_satisfied() TO authenticated;
+
+-- Replaces the caller's backup codes; an empty array clears them
+CREATE OR REPLACE FUNCTION public.set_mfa_backup_codes(p_code_hashes text[], p_encrypted_codes text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hash text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF coalesce(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Two-factor verification required';
+  END IF;
+
+  IF coalesce(array_length(p_code_hashes, 1), 0) > 20 THEN
+    RAISE EXCEPTION 'Too many backup codes';
+  END IF;
+
+  DELETE FROM public.mfa_backup_codes WHERE user_id = auth.uid();
+
+  FOREACH v_hash IN ARRAY coalesce(p_code_hashes, ARRAY[]::text[]) LOOP
+    IF v_hash !~ '^[0-9a-f]{64}$' THEN
+      RAISE EXCEPTION 'Invalid backup code hash';
+    END IF;
+    INSERT INTO public.mfa_backup_codes (user_id, code_hash) VALUES (auth.uid(), v_hash);
+  END LOOP;
+
+  UPDATE public.profiles
+  SET encrypted_mfa_backup_codes = p_encrypted_codes
+  WHERE user_id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_mfa_backup_codes(text[], text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_mfa_backup_codes(text[], text) TO authenticated;
+
+-- Accounts with a verified factor only reach their data from an aal2 session. Profiles stay
+-- readable at aal1: the wraps there still need the password, and sign-in reads them
+CREATE POLICY "Require second factor for chores"
+  ON public.chores AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Require second factor for checklists"
+  ON public.checklists AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Require second factor for reminders"
+  ON public.checklist_reminders AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Require second factor for events"
+  ON public.calendar_events AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Require second factor for focus data"
+  ON public.focus_monitoring AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Require second factor for passkey wraps"
+  ON public.passkey_wraps AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
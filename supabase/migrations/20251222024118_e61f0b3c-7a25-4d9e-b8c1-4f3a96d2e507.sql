@@ -0,0 +1,197 @@
+-- Session and device management: lists and revokes the caller's Supabase sessions, with a
+-- device label per session encrypted under the data key (device_sessions.encrypted_label)
+CREATE TABLE public.device_sessions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pseudonym_id text NOT NULL REFERENCES public.profiles(pseudonym_id) ON DELETE CASCADE ON UPDATE CASCADE,
+  session_id uuid NOT NULL UNIQUE,
+  encrypted_label text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_device_sessions_pseudonym_id ON public.device_sessions(pseudonym_id);
+
+ALTER TABLE public.device_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own device sessions"
+  ON public.device_sessions FOR SELECT
+  USING (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own device sessions"
+  ON public.device_sessions FOR INSERT
+  WITH CHECK (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own device sessions"
+  ON public.device_sessions FOR UPDATE
+  USING (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own device sessions"
+  ON public.device_sessions FOR DELETE
+  USING (
+    pseudonym_id IN (
+      SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Require second factor for device sessions"
+  ON public.device_sessions AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+COMMENT ON TABLE public.device_sessions IS 'Encrypted device label per Supabase session, for the session list';
+
+-- The caller's live sessions; updated_at moves when the session refreshes its token
+CREATE OR REPLACE FUNCTION public.list_sessions()
+RETURNS TABLE (id uuid, created_at timestamp with time zone, last_seen_at timestamp with time zone, aal text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id, s.created_at, coalesce(s.updated_at, s.created_at), s.aal::text
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY coalesce(s.updated_at, s.created_at) DESC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_sessions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_sessions() TO authenticated;
+
+-- Ends one of the caller's sessions: its refresh tokens go with it, so the device is signed out
+-- once its current access token expires
+CREATE OR REPLACE FUNCTION public.revoke_session(p_session_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF NOT public.mfa_satisfied() THEN
+    RAISE EXCEPTION 'Two-factor verification required';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE id = p_session_id AND user_id = auth.uid();
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  DELETE FROM public.device_sessions
+  WHERE session_id = p_session_id
+    AND pseudonym_id IN (SELECT pseudonym_id FROM public.profiles WHERE user_id = auth.uid());
+
+  RETURN v_deleted > 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_session(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_session(uuid) TO authenticated;
+
+-- device_sessions is keyed by pseudonym, so rotation re-binds its labels like any other row
+CREATE OR REPLACE FUNCTION public.rotate_pseudonym(p_new_pseudonym_id text, p_rows jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_pseudonym_id text;
+  v_owned bigint;
+  v_row jsonb;
+  v_table text;
+  v_owner text;
+  v_exists boolean;
+  v_column text;
+  v_value text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_new_pseudonym_id IS NULL OR p_new_pseudonym_id !~ '^[0-9a-f]{32}$' THEN
+    RAISE EXCEPTION 'Invalid pseudonym';
+  END IF;
+
+  SELECT pseudonym_id INTO v_old_pseudonym_id
+  FROM public.profiles
+  WHERE user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_old_pseudonym_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  SELECT
+    (SELECT count(*) FROM public.chores WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.checklists WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.checklist_reminders r
+        JOIN public.checklists c ON c.id = r.checklist_id
+        WHERE c.pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.calendar_events WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.focus_monitoring WHERE pseudonym_id = v_old_pseudonym_id)
+    + (SELECT count(*) FROM public.device_sessions WHERE pseudonym_id = v_old_pseudonym_id)
+    + 1 -- The profile itself, for encrypted_email
+  INTO v_owned;
+
+  IF v_owned <> (SELECT count(DISTINCT (r->>'table', r->>'id')) FROM jsonb_array_elements(p_rows) r)
+    OR v_owned <> jsonb_array_length(p_rows) THEN
+    RAISE EXCEPTION 'Rows changed during pseudonym rotation' USING ERRCODE = '40001';
+  END IF;
+
+  PERFORM set_config('stand.pseudonym_rotation', 'on', true);
+  UPDATE public.profiles SET pseudonym_id = p_new_pseudonym_id WHERE user_id = auth.uid();
+  PERFORM set_config('stand.pseudonym_rotation', 'off', true);
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    v_table := v_row->>'table';
+    IF v_table IS NULL OR NOT v_table = ANY (
+      ARRAY['chores', 'checklists', 'checklist_reminders', 'calendar_events', 'focus_monitoring', 'device_sessions', 'profiles']
+    ) THEN
+      RAISE EXCEPTION 'Invalid table %', v_table;
+    END IF;
+
+    v_owner := CASE WHEN v_table = 'checklist_reminders'
+      THEN 'checklist_id IN (SELECT id FROM public.checklists WHERE pseudonym_id = $2)'
+      ELSE 'pseudonym_id = $2'
+    END;
+
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM public.%I WHERE id = $1 AND %s)', v_table, v_owner)
+      INTO v_exists
+      USING (v_row->>'id')::uuid, p_new_pseudonym_id;
+
+    IF NOT v_exists THEN
+      RAISE EXCEPTION 'Rows changed during pseudonym rotation' USING ERRCODE = '40001';
+    END IF;
+
+    FOR v_column, v_value IN SELECT * FROM jsonb_each_text(COALESCE(v_row->'values', '{}'::jsonb)) LOOP
+      IF v_column !~ '^encrypted_[a-z_]+$' THEN
+        RAISE EXCEPTION 'Invalid column %', v_column;
+      END IF;
+      EXECUTE format('UPDATE public.%I SET %I = $1 WHERE id = $2', v_table, v_column)
+        USING v_value, (v_row->>'id')::uuid;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_pseudonym(text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_pseudonym(text, jsonb) TO authenticated;
@@ -0,0 +1,63 @@
+-- get_kdf_params is callable before sign-in, so a NULL for unknown emails told anyone which
+-- addresses are registered. Unknown emails now get decoy Argon2id parameters derived from a
+-- server secret and the email: stable across calls and shaped like a calibrated account's
+CREATE TABLE public.server_secrets (
+  name text NOT NULL PRIMARY KEY,
+  value bytea NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- No policies: only security definer functions read it
+ALTER TABLE public.server_secrets ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.server_secrets IS 'Server-side keys for decoy responses; never exposed through the API';
+
+INSERT INTO public.server_secrets (name, value)
+VALUES ('kdf_decoy', extensions.gen_random_bytes(32));
+
+CREATE OR REPLACE FUNCTION public.get_kdf_params(p_email text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(p_email));
+  v_params jsonb;
+  v_secret bytea;
+  v_mac bytea;
+BEGIN
+  SELECT jsonb_build_object('current', p.kdf_params, 'previous', p.previous_kdf_params)
+  INTO v_params
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.user_id
+  WHERE u.email = v_email
+  LIMIT 1;
+
+  IF v_params IS NOT NULL THEN
+    RETURN v_params;
+  END IF;
+
+  SELECT value INTO v_secret FROM public.server_secrets WHERE name = 'kdf_decoy';
+  v_mac := extensions.hmac(convert_to(v_email, 'UTF8'), v_secret, 'sha256');
+
+  -- Same ranges calibrateArgon2id() produces: 64, 32 or 19 MiB, 2-9 iterations, one lane
+  RETURN jsonb_build_object(
+    'current', jsonb_build_object(
+      'algorithm', 'argon2id',
+      'memoryKiB', CASE
+        WHEN get_byte(v_mac, 0) < 192 THEN 65536
+        WHEN get_byte(v_mac, 0) < 240 THEN 32768
+        ELSE 19456
+      END,
+      'iterations', 2 + get_byte(v_mac, 1) % 8,
+      'parallelism', 1
+    ),
+    'previous', NULL
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_kdf_params(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_kdf_params(text) TO anon, authenticated;
@@ -0,0 +1,99 @@
+-- Once every value of an account is bound to its record (v3), an older unbound value can only be
+-- one planted or replayed from before the migration. profiles.envelope_min_version tells the client
+-- to reject such values instead of decrypting (and lazily re-binding) them. New accounts never
+-- write unbound values, so they start at v3; existing accounts are promoted by
+-- complete_envelope_migration() once nothing unbound is left
+ALTER TABLE public.profiles
+ADD COLUMN envelope_min_version text;
+
+ALTER TABLE public.profiles
+ALTER COLUMN envelope_min_version SET DEFAULT 'v3';
+
+COMMENT ON COLUMN public.profiles.envelope_min_version IS 'Oldest ciphertext envelope version the client accepts with a binding; NULL while unbound values remain';
+
+-- Raising the floor only ever tightens decryption; clearing it would re-open the downgrade
+CREATE OR REPLACE FUNCTION public.prevent_envelope_min_version_downgrade()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.envelope_min_version IS NOT NULL
+    AND NEW.envelope_min_version IS DISTINCT FROM OLD.envelope_min_version THEN
+    RAISE EXCEPTION 'envelope_min_version cannot be lowered or cleared';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_profiles_envelope_min_version_downgrade
+  BEFORE UPDATE OF envelope_min_version ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_envelope_min_version_downgrade();
+
+-- Sets the caller's envelope_min_version to v3 when none of their encrypted_* values is older;
+-- returns the (possibly unchanged) version, NULL while unbound values remain
+CREATE OR REPLACE FUNCTION public.complete_envelope_migration()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pseudonym_id text;
+  v_min_version text;
+  v_table text;
+  v_column text;
+  v_owner text;
+  v_unbound boolean;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT pseudonym_id, envelope_min_version INTO v_pseudonym_id, v_min_version
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  IF v_pseudonym_id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  IF v_min_version IS NOT NULL THEN
+    RETURN v_min_version;
+  END IF;
+
+  FOR v_table, v_column IN
+    SELECT table_name, column_name
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = ANY (
+        ARRAY['chores', 'checklists', 'checklist_reminders', 'calendar_events', 'focus_monitoring', 'device_sessions', 'profiles']
+      )
+      AND column_name ~ '^encrypted_[a-z_]+$'
+  LOOP
+    v_owner := CASE v_table
+      WHEN 'checklist_reminders' THEN 'checklist_id IN (SELECT id FROM public.checklists WHERE pseudonym_id = $1)'
+      WHEN 'profiles' THEN 'user_id = auth.uid()'
+      ELSE 'pseudonym_id = $1'
+    END;
+
+    -- v1 values are bare base64 and v2 values start with "v2:"; anything bound starts with v3 or later
+    EXECUTE format(
+      'SELECT EXISTS (SELECT 1 FROM public.%I WHERE %s AND %I IS NOT NULL AND %I !~ ''^v([3-9]|[1-9][0-9]+):'')',
+      v_table, v_owner, v_column, v_column
+    )
+      INTO v_unbound
+      USING v_pseudonym_id;
+
+    IF v_unbound THEN
+      RETURN NULL;
+    END IF;
+  END LOOP;
+
+  UPDATE public.profiles SET envelope_min_version = 'v3' WHERE user_id = auth.uid();
+  RETURN 'v3';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_envelope_migration() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complete_envelope_migration() TO authenticated;
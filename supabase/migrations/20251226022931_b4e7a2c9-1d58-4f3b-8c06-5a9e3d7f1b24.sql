@@ -0,0 +1,9 @@
+-- Destructive account actions (email change, deletion) used to accept any session that signed in
+-- within five minutes, which a login link satisfies without the password. They now take an SRP
+-- proof of the password per request: srp-login issues the challenge for the signed-in caller and
+-- the action's edge function consumes it. purpose keeps the two kinds of handshake apart, so a
+-- re-authentication handshake can never mint a session and a login handshake never authorizes
+ALTER TABLE public.srp_sessions
+ADD COLUMN purpose text NOT NULL DEFAULT 'login' CHECK (purpose IN ('login', 'reauth'));
+
+COMMENT ON COLUMN public.srp_sessions.purpose IS 'login: completed by srp-login for a session; reauth: consumed by change-email or delete-account';
@@ -0,0 +1,101 @@
+-- Account deletion removed auth_attempts but kept the fraud_audit_log snapshots of them
+-- (to_jsonb(NEW) on insert, to_jsonb(OLD) on a blocked delete), which hold the email and user_info.
+-- delete_account_auth_attempts() now redacts those snapshots as well. Entries cannot be deleted
+-- without breaking the chain, so a redacted entry keeps its entry_hash and its links: the
+-- integrity check skips only the content hash of entries marked redacted_at
+ALTER TABLE public.fraud_audit_log
+ADD COLUMN redacted_at timestamptz;
+
+COMMENT ON COLUMN public.fraud_audit_log.redacted_at IS 'Set when account deletion cleared old_data and new_data; the entry hash can no longer be recomputed';
+
+CREATE OR REPLACE FUNCTION public.verify_audit_chain_integrity()
+RETURNS TABLE(
+  is_valid boolean,
+  broken_at_position bigint,
+  expected_hash text,
+  actual_hash text,
+  total_entries bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry RECORD;
+  v_previous_hash text;
+  v_computed_hash text;
+  v_total bigint;
+BEGIN
+  SELECT COUNT(*) INTO v_total FROM public.fraud_audit_log;
+  
+  FOR v_entry IN SELECT * FROM public.fraud_audit_log ORDER BY chain_position ASC LOOP
+    IF v_entry.redacted_at IS NULL THEN
+      v_computed_hash := public.compute_audit_hash(
+        v_entry.entry_type, v_entry.table_name, v_entry.record_id,
+        v_entry.operation, v_entry.old_data, v_entry.new_data,
+        v_previous_hash, v_entry.chain_position, v_entry.created_at
+      );
+      
+      IF v_computed_hash != v_entry.entry_hash THEN
+        RETURN QUERY SELECT false, v_entry.chain_position, v_computed_hash, v_entry.entry_hash, v_total;
+        RETURN;
+      END IF;
+    END IF;
+    
+    IF v_entry.previous_hash IS DISTINCT FROM v_previous_hash THEN
+      RETURN QUERY SELECT false, v_entry.chain_position, v_previous_hash, v_entry.previous_hash, v_total;
+      RETURN;
+    END IF;
+    
+    v_previous_hash := v_entry.entry_hash;
+  END LOOP;
+  
+  RETURN QUERY SELECT true, NULL::bigint, NULL::text, NULL::text, v_total;
+END;
+$$;
+
+-- Audit entries that still carry a snapshot of one of the email's auth attempts
+CREATE OR REPLACE FUNCTION public.count_account_audit_entries(p_email text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.fraud_audit_log
+  WHERE table_name = 'auth_attempts'
+    AND redacted_at IS NULL
+    AND (new_data->>'email' = lower(trim(p_email)) OR old_data->>'email' = lower(trim(p_email)));
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_account_auth_attempts(p_email text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(p_email));
+  v_deleted integer;
+BEGIN
+  -- Transaction-local, so only deletes issued from here pass the trigger
+  PERFORM set_config('stand.account_deletion', 'on', true);
+  DELETE FROM public.auth_attempts WHERE email = v_email;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  PERFORM set_config('stand.account_deletion', 'off', true);
+
+  UPDATE public.fraud_audit_log
+  SET old_data = NULL, new_data = NULL, redacted_at = now()
+  WHERE table_name = 'auth_attempts'
+    AND redacted_at IS NULL
+    AND (new_data->>'email' = v_email OR old_data->>'email' = v_email);
+
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.count_account_audit_entries(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.count_account_audit_entries(text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.delete_account_auth_attempts(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_account_auth_attempts(text) TO service_role;
@@ -0,0 +1,80 @@
+-- A password change stores the new wraps (keeping the old one as previous_wrapped_data_key), then
+-- updates the auth credential. The client could not tell whether an interruption fell before or
+-- after the credential update, so an old password could roll the wraps back after the credential
+-- had already changed. begin_credential_change() records a fingerprint of the auth credential as
+-- the change starts; credential_change_status() compares it, so a rollback is only allowed while
+-- the credential is provably unchanged
+CREATE TABLE public.credential_changes (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  credential_fingerprint text NOT NULL,
+  started_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Only reachable through the functions below
+ALTER TABLE public.credential_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.begin_credential_change()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO public.credential_changes (user_id, credential_fingerprint)
+  SELECT id, md5(COALESCE(encrypted_password, '')) FROM auth.users WHERE id = auth.uid()
+  ON CONFLICT (user_id) DO UPDATE
+    SET credential_fingerprint = EXCLUDED.credential_fingerprint, started_at = now();
+END;
+$$;
+
+-- none: no change recorded; unfinished: the auth credential is still the one the change started
+-- from; finished: it has been replaced since
+CREATE OR REPLACE FUNCTION public.credential_change_status()
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fingerprint text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT credential_fingerprint INTO v_fingerprint
+  FROM public.credential_changes
+  WHERE user_id = auth.uid();
+
+  IF v_fingerprint IS NULL THEN
+    RETURN 'none';
+  END IF;
+
+  RETURN CASE
+    WHEN v_fingerprint = (SELECT md5(COALESCE(encrypted_password, '')) FROM auth.users WHERE id = auth.uid())
+      THEN 'unfinished'
+    ELSE 'finished'
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_credential_change()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.credential_changes WHERE user_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_credential_change() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.credential_change_status() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.end_credential_change() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.begin_credential_change() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.credential_change_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.end_credential_change() TO authenticated;
@@ -0,0 +1,64 @@
+-- Decoys were always Argon2id while accounts that have not logged in since the upgrade (and
+-- every new account until its first login) still return pbkdf2-sha256, so a pbkdf2 answer
+-- proved the email was registered. A decoy is now pbkdf2 for a share of emails equal to the share of
+-- accounts still on it. The choice comes from the same per-email HMAC, and a falling share only
+-- moves an email from pbkdf2 to Argon2id, the way a real account's first login does
+CREATE OR REPLACE FUNCTION public.get_kdf_params(p_email text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(p_email));
+  v_params jsonb;
+  v_secret bytea;
+  v_mac bytea;
+  v_pbkdf2_share numeric;
+BEGIN
+  SELECT jsonb_build_object('current', p.kdf_params, 'previous', p.previous_kdf_params)
+  INTO v_params
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.user_id
+  WHERE u.email = v_email
+  LIMIT 1;
+
+  IF v_params IS NOT NULL THEN
+    RETURN v_params;
+  END IF;
+
+  SELECT value INTO v_secret FROM public.server_secrets WHERE name = 'kdf_decoy';
+  v_mac := extensions.hmac(convert_to(v_email, 'UTF8'), v_secret, 'sha256');
+
+  -- New accounts start on pbkdf2, so with no accounts yet every decoy is pbkdf2 too
+  SELECT COALESCE(
+    count(*) FILTER (WHERE kdf_params->>'algorithm' = 'pbkdf2-sha256')::numeric / NULLIF(count(*), 0),
+    1
+  )
+  INTO v_pbkdf2_share
+  FROM public.profiles;
+
+  IF get_byte(v_mac, 2) < floor(v_pbkdf2_share * 256) THEN
+    RETURN jsonb_build_object('current', '{"algorithm": "pbkdf2-sha256"}'::jsonb, 'previous', NULL);
+  END IF;
+
+  -- Same ranges calibrateArgon2id() produces: 64, 32 or 19 MiB, 2-9 iterations, one lane
+  RETURN jsonb_build_object(
+    'current', jsonb_build_object(
+      'algorithm', 'argon2id',
+      'memoryKiB', CASE
+        WHEN get_byte(v_mac, 0) < 192 THEN 65536
+        WHEN get_byte(v_mac, 0) < 240 THEN 32768
+        ELSE 19456
+      END,
+      'iterations', 2 + get_byte(v_mac, 1) % 8,
+      'parallelism', 1
+    ),
+    'previous', NULL
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_kdf_params(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_kdf_params(text) TO anon, authenticated;